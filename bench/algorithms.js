@@ -0,0 +1,40 @@
+/**
+ * Compares the speed and the size of the diffs of the matching algorithms on generated
+ * documents and on the sample documents. Run it with `npm run bench`.
+ */
+import fs from 'fs';
+import {calculateOperations, htmlToTokens} from '../dist/htmldiff.js';
+import {countChangedTokens, editDocument, generateDocument, random, time} from './documents.js';
+
+var algorithms = ['longest-match', 'myers', 'patience'];
+
+function run(name, beforeHtml, afterHtml){
+  var before = htmlToTokens(beforeHtml);
+  var after = htmlToTokens(afterHtml);
+  algorithms.forEach(function(algorithm){
+    var options = {algorithm: algorithm};
+    var ops = calculateOperations(before, after, options);
+    var elapsed = time(function(){
+      calculateOperations(before, after, options);
+    });
+    console.log([
+      name.padEnd(24),
+      algorithm.padEnd(14),
+      (before.length + '/' + after.length + ' tokens').padEnd(20),
+      (elapsed.toFixed(2) + ' ms').padStart(12),
+      (countChangedTokens(ops) + ' changed tokens').padStart(22)
+    ].join(''));
+  });
+}
+
+var next = random(1);
+[10, 100, 400].forEach(function(paragraphs){
+  var before = generateDocument(next, paragraphs);
+  run(paragraphs + ' paragraphs, 5%', before, editDocument(next, before, 0.05));
+  run(paragraphs + ' paragraphs, 30%', before, editDocument(next, before, 0.3));
+});
+
+var sample = new URL('../sample/', import.meta.url);
+run('sample',
+  fs.readFileSync(new URL('before.html', sample), 'utf8'),
+  fs.readFileSync(new URL('after.html', sample), 'utf8'));
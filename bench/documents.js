@@ -0,0 +1,102 @@
+/**
+ * Deterministic document generators shared by the benchmarks, so that runs can be compared.
+ */
+export var words = ('lorem ipsum dolor sit amet consectetur adipiscing elit sed do eiusmod tempor ' +
+  'incididunt ut labore et dolore magna aliqua').split(' ');
+
+// A small deterministic random generator.
+export function random(seed){
+  return function(){
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647;
+  };
+}
+
+function pick(next, list){
+  return list[Math.floor(next() * list.length)];
+}
+
+function sentence(next, length){
+  var parts = [];
+  for (var i = 0; i < length; i++){
+    var word = pick(next, words);
+    parts.push(next() < 0.05 ? '<strong>' + word + '</strong>' : word);
+    if (i < length - 1 && next() < 0.1){
+      parts[parts.length - 1] += pick(next, [',', ';', ':']);
+    }
+  }
+  return parts.join(' ') + '.';
+}
+
+// Paragraphs of random words.
+export function generateDocument(next, paragraphs){
+  var html = '';
+  for (var i = 0; i < paragraphs; i++){
+    html += '<p>' + sentence(next, 40) + '</p>\n';
+  }
+  return html;
+}
+
+// A manual of about the given size in characters: numbered sections of paragraphs, lists and
+// tables, with plenty of punctuation and repeated markup.
+export function generateManual(next, size){
+  var html = '<h1>Manual</h1>\n';
+  for (var section = 1; html.length < size; section++){
+    html += '<h2>Section ' + section + '</h2>\n';
+    for (var i = 0; i < 4; i++){
+      html += '<p>' + sentence(next, 12) + ' ' + sentence(next, 20) + '</p>\n';
+    }
+    html += '<ul>\n';
+    for (i = 0; i < 3; i++){
+      html += '  <li>' + sentence(next, 6) + '</li>\n';
+    }
+    html += '</ul>\n<table>\n';
+    for (i = 0; i < 3; i++){
+      html += '  <tr><td>' + section + '.' + i + '</td><td>' + sentence(next, 4) + '</td></tr>\n';
+    }
+    html += '</table>\n';
+  }
+  return html;
+}
+
+// Deletes, inserts and replaces the given share of the words of a document.
+export function editDocument(next, html, rate){
+  return html.split(' ').map(function(word){
+    var roll = next();
+    if (roll < rate / 3){
+      return '';
+    }
+    if (roll < rate * 2 / 3){
+      return word + ' ' + pick(next, words);
+    }
+    if (roll < rate){
+      return pick(next, words);
+    }
+    return word;
+  }).join(' ');
+}
+
+export function countChangedTokens(ops){
+  return ops.reduce(function(count, op){
+    if (op.action === 'equal'){
+      return count;
+    }
+    return count +
+      (op.endInBefore !== undefined ? op.endInBefore - op.startInBefore + 1 : 0) +
+      (op.endInAfter !== undefined ? op.endInAfter - op.startInAfter + 1 : 0);
+  }, 0);
+}
+
+// Runs a function at least once and until it has run for half a second, and returns the
+// average time of a run in milliseconds.
+export function time(fn){
+  var runs = 0;
+  var elapsed = 0;
+  var start = process.hrtime.bigint();
+  while (runs < 1 || elapsed < 500){
+    fn();
+    runs++;
+    elapsed = Number(process.hrtime.bigint() - start) / 1e6;
+  }
+  return elapsed / runs;
+}
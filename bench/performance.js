@@ -0,0 +1,40 @@
+/**
+ * Measures each stage of the diff of generated manuals of growing sizes, with and without a
+ * time limit on the matching. Run it with `npm run bench`.
+ */
+import {calculateOperations, htmlToTokens, renderOperations} from '../dist/htmldiff.js';
+import {countChangedTokens, editDocument, generateManual, random, time} from './documents.js';
+
+function run(name, beforeHtml, afterHtml, options){
+  var before;
+  var after;
+  var ops;
+  var tokenize = time(function(){
+    before = htmlToTokens(beforeHtml, options);
+    after = htmlToTokens(afterHtml, options);
+  });
+  var match = time(function(){
+    ops = calculateOperations(before, after, options);
+  });
+  var render = time(function(){
+    renderOperations(before, after, ops, options);
+  });
+  console.log([
+    name.padEnd(30),
+    ((beforeHtml.length / 1024).toFixed(0) + ' kB').padStart(8),
+    ('tokenize ' + tokenize.toFixed(1) + ' ms').padStart(22),
+    ('match ' + match.toFixed(1) + ' ms').padStart(20),
+    ('render ' + render.toFixed(1) + ' ms').padStart(20),
+    (countChangedTokens(ops) + ' changed tokens').padStart(24)
+  ].join(''));
+}
+
+var next = random(2);
+[100 * 1024, 500 * 1024, 2 * 1024 * 1024].forEach(function(size){
+  var before = generateManual(next, size);
+  var lightlyEdited = editDocument(next, before, 0.01);
+  var heavilyEdited = editDocument(next, before, 0.2);
+  run('1% edited', before, lightlyEdited);
+  run('20% edited', before, heavilyEdited);
+  run('20% edited, timeoutMs 500', before, heavilyEdited, {timeoutMs: 500});
+});
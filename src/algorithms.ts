@@ -0,0 +1,436 @@
+/**
+ * Alternative algorithms for finding the matching blocks between the before and after lists
+ * of tokens. They work on the token keys only and return the blocks in order, so
+ * calculateOperations can turn them into operations the same way it does with the blocks of
+ * findMatchingBlocks.
+ *
+ * - myersBlocks finds a minimal set of insertions and deletions with the O(ND) algorithm by
+ *   Eugene W. Myers, using the linear space refinement.
+ * - patienceBlocks anchors the diff on the keys that appear exactly once in both lists, then
+ *   diffs the ranges between the anchors. Ranges without unique keys are diffed with
+ *   myersBlocks.
+ *
+ * Both accept a work budget. Once it is exhausted they stop searching and leave the remaining
+ * ranges unmatched, except for their common prefixes and suffixes and, with patienceBlocks,
+ * their unique anchors, which are cheap to find.
+ */
+
+/**
+ * A block of consecutive keys that appear in both the before and after lists.
+ */
+export type Block = {
+  startInBefore: number;
+  startInAfter: number;
+  length: number;
+};
+
+/**
+ * A limit on the work done to find the matching blocks. The work is counted in token
+ * comparisons, roughly.
+ */
+export type WorkBudget = {
+  exhausted: boolean;
+  // Records an amount of work, returns false once the budget is exhausted.
+  spend(work: number): boolean;
+  // Checks if the time limit is reached. The work done once the budget is exhausted, like the
+  // passes that refine the operations, checks it instead, as it can't be counted ahead.
+  isOverdue(): boolean;
+};
+
+// The amount of work between two checks of the clock.
+const CLOCK_CHECK_INTERVAL = 10000;
+
+// The share of the time limit spent searching for the matching blocks, the rest is left for the
+// coarse matching of the parts not searched, which always completes, and the work after it.
+const SEARCH_TIME_SHARE = 0.3;
+
+/**
+ * Creates a work budget. The budget is exhausted once the maximum amount of work is done or
+ * once a share of the time is spent, see SEARCH_TIME_SHARE, and overdue once all the time is.
+ *
+ * @param {number|null} maxWork The maximum amount of work, or null for no limit.
+ * @param {number|null} timeoutMs The maximum time in milliseconds, or null for no limit.
+ *
+ * @return {WorkBudget|null} The budget, or null if there is no limit.
+ */
+export function createWorkBudget(maxWork: number | null, timeoutMs: number | null): WorkBudget | null {
+  if (maxWork === null && timeoutMs === null){
+    return null;
+  }
+  const start = Date.now();
+  const deadline = timeoutMs === null ? Infinity : start + timeoutMs * SEARCH_TIME_SHARE;
+  const end = timeoutMs === null ? Infinity : start + timeoutMs;
+  let work = 0;
+  let nextClockCheck = 0;
+  const budget: WorkBudget = {
+    exhausted: false,
+    spend: function(amount: number){
+      if (budget.exhausted){
+        return false;
+      }
+      work += amount;
+      if (maxWork !== null && work > maxWork){
+        budget.exhausted = true;
+      } else if (work >= nextClockCheck){
+        nextClockCheck = work + CLOCK_CHECK_INTERVAL;
+        budget.exhausted = Date.now() >= deadline;
+      }
+      return !budget.exhausted;
+    },
+    isOverdue: function(){
+      return Date.now() >= end;
+    }
+  };
+  return budget;
+}
+
+type Range = {
+  before: string[];
+  after: string[];
+  beforeStart: number;
+  beforeEnd: number;
+  afterStart: number;
+  afterEnd: number;
+};
+
+/**
+ * Adds a block to a list of blocks in order, merging it with the last block if they are
+ * adjacent.
+ *
+ * @param {Array.<Block>} blocks The list of blocks.
+ * @param {number} startInBefore The index of the first key of the block in the before list.
+ * @param {number} startInAfter The index of the first key of the block in the after list.
+ * @param {number} length The number of keys in the block.
+ */
+function pushBlock(blocks: Block[], startInBefore: number, startInAfter: number, length: number){
+  if (!length){
+    return;
+  }
+  const last = blocks[blocks.length - 1];
+  if (last && last.startInBefore + last.length === startInBefore &&
+      last.startInAfter + last.length === startInAfter){
+    last.length += length;
+  } else {
+    blocks.push({startInBefore: startInBefore, startInAfter: startInAfter, length: length});
+  }
+}
+
+/**
+ * Removes the common prefix and suffix of a range, adding the prefix to the list of blocks.
+ *
+ * @param {Range} range The range to trim, it is updated in place.
+ * @param {Array.<Block>} blocks The list of blocks to add the prefix to.
+ *
+ * @return {number} The length of the common suffix, which the caller has to add to the list
+ *    of blocks after the blocks of the trimmed range.
+ */
+function trimRange(range: Range, blocks: Block[]): number {
+  let prefix = 0;
+  while (range.beforeStart + prefix < range.beforeEnd && range.afterStart + prefix < range.afterEnd &&
+         range.before[range.beforeStart + prefix] === range.after[range.afterStart + prefix]){
+    prefix++;
+  }
+  pushBlock(blocks, range.beforeStart, range.afterStart, prefix);
+  range.beforeStart += prefix;
+  range.afterStart += prefix;
+
+  let suffix = 0;
+  while (range.beforeEnd - suffix > range.beforeStart && range.afterEnd - suffix > range.afterStart &&
+         range.before[range.beforeEnd - suffix - 1] === range.after[range.afterEnd - suffix - 1]){
+    suffix++;
+  }
+  range.beforeEnd -= suffix;
+  range.afterEnd -= suffix;
+  return suffix;
+}
+
+type Snake = {
+  // The end of the part of the range that precedes the snake.
+  leftBefore: number;
+  leftAfter: number;
+  // The diagonal run of matching keys.
+  blockBefore: number;
+  blockAfter: number;
+  length: number;
+  // The start of the part of the range that follows the snake.
+  rightBefore: number;
+  rightAfter: number;
+};
+
+/**
+ * Finds the middle snake of the shortest edit script of a range: a run of matching keys, and
+ * the edit step leading to it, that lies on a shortest path through the edit graph. Both the
+ * before and after parts of the range must be non empty and must start with different keys.
+ *
+ * @param {Range} range The range to search.
+ * @param {WorkBudget|null} budget The work budget.
+ *
+ * @return {Snake|null} The middle snake, in absolute indexes, or null if the budget ran out.
+ */
+function findMiddleSnake(range: Range, budget: WorkBudget | null): Snake | null {
+  const before = range.before;
+  const after = range.after;
+  const x0 = range.beforeStart;
+  const y0 = range.afterStart;
+  const n = range.beforeEnd - x0;
+  const m = range.afterEnd - y0;
+  const delta = n - m;
+  const isOdd = delta % 2 !== 0;
+  const max = Math.ceil((n + m) / 2);
+  const offset = max + 1;
+  // forward[offset + k] is the furthest x reached on diagonal k = x - y from the start,
+  // backward[offset + c] the furthest distance from the end reached on diagonal c.
+  const forward: number[] = [];
+  const backward: number[] = [];
+  forward[offset + 1] = 0;
+  backward[offset + 1] = 0;
+
+  for (let d = 0; d <= max; d++){
+    if (budget && !budget.spend(2 * d + 1)){
+      return null;
+    }
+    for (let k = -d; k <= d; k += 2){
+      const down = k === -d || (k !== d && (forward[offset + k - 1] ?? -1) < (forward[offset + k + 1] ?? -1));
+      const px = down ? forward[offset + k + 1] ?? 0 : forward[offset + k - 1] ?? 0;
+      const py = px - (down ? k + 1 : k - 1);
+      const sx = down ? px : px + 1;
+      const sy = sx - k;
+      let x = sx;
+      let y = sy;
+      while (x < n && y < m && before[x0 + x] === after[y0 + y]){
+        x++;
+        y++;
+      }
+      forward[offset + k] = x;
+      const c = delta - k;
+      if (isOdd && c >= -(d - 1) && c <= d - 1 && x + (backward[offset + c] ?? 0) >= n){
+        return {
+          leftBefore: x0 + (d ? px : sx),
+          leftAfter: y0 + (d ? py : sy),
+          blockBefore: x0 + sx,
+          blockAfter: y0 + sy,
+          length: x - sx,
+          rightBefore: x0 + x,
+          rightAfter: y0 + y
+        };
+      }
+    }
+
+    for (let c = -d; c <= d; c += 2){
+      const down = c === -d || (c !== d && (backward[offset + c - 1] ?? -1) < (backward[offset + c + 1] ?? -1));
+      const px = down ? backward[offset + c + 1] ?? 0 : backward[offset + c - 1] ?? 0;
+      const py = px - (down ? c + 1 : c - 1);
+      const sx = down ? px : px + 1;
+      const sy = sx - c;
+      let x = sx;
+      let y = sy;
+      while (x < n && y < m && before[x0 + n - x - 1] === after[y0 + m - y - 1]){
+        x++;
+        y++;
+      }
+      backward[offset + c] = x;
+      const k = delta - c;
+      if (!isOdd && k >= -d && k <= d && x + (forward[offset + k] ?? 0) >= n){
+        return {
+          leftBefore: x0 + n - x,
+          leftAfter: y0 + m - y,
+          blockBefore: x0 + n - x,
+          blockAfter: y0 + m - y,
+          length: x - sx,
+          rightBefore: x0 + n - (d ? px : sx),
+          rightAfter: y0 + m - (d ? py : sy)
+        };
+      }
+    }
+  }
+  // Not reached, a shortest path always exists.
+  return {
+    leftBefore: range.beforeEnd,
+    leftAfter: range.afterEnd,
+    blockBefore: range.beforeEnd,
+    blockAfter: range.afterEnd,
+    length: 0,
+    rightBefore: range.beforeEnd,
+    rightAfter: range.afterEnd
+  };
+}
+
+/**
+ * Adds the blocks of a range found with the Myers algorithm to the list of blocks.
+ *
+ * @param {Range} range The range to diff.
+ * @param {Array.<Block>} blocks The list of blocks to add to.
+ * @param {WorkBudget|null} budget The work budget.
+ */
+function diffRangeMyers(range: Range, blocks: Block[], budget: WorkBudget | null){
+  const suffix = trimRange(range, blocks);
+  const snake = range.beforeStart < range.beforeEnd && range.afterStart < range.afterEnd &&
+    !budget?.exhausted ? findMiddleSnake(range, budget) : null;
+  if (snake){
+    diffRangeMyers({
+      before: range.before,
+      after: range.after,
+      beforeStart: range.beforeStart,
+      beforeEnd: snake.leftBefore,
+      afterStart: range.afterStart,
+      afterEnd: snake.leftAfter
+    }, blocks, budget);
+    pushBlock(blocks, snake.blockBefore, snake.blockAfter, snake.length);
+    diffRangeMyers({
+      before: range.before,
+      after: range.after,
+      beforeStart: snake.rightBefore,
+      beforeEnd: range.beforeEnd,
+      afterStart: snake.rightAfter,
+      afterEnd: range.afterEnd
+    }, blocks, budget);
+  }
+  pushBlock(blocks, range.beforeEnd, range.afterEnd, suffix);
+}
+
+/**
+ * Finds the matching blocks between two lists of keys with the Myers O(ND) algorithm. The
+ * blocks form a longest common subsequence of the two lists, unless the budget runs out.
+ *
+ * @param {Array.<string>} before The before list of keys.
+ * @param {Array.<string>} after The after list of keys.
+ * @param {WorkBudget|null} budget (Optional) The work budget.
+ *
+ * @return {Array.<Block>} The matching blocks, in order.
+ */
+export function myersBlocks(before: string[], after: string[], budget?: WorkBudget | null): Block[] {
+  const blocks: Block[] = [];
+  diffRangeMyers({
+    before: before,
+    after: after,
+    beforeStart: 0,
+    beforeEnd: before.length,
+    afterStart: 0,
+    afterEnd: after.length
+  }, blocks, budget || null);
+  return blocks;
+}
+
+/**
+ * Finds the keys that appear exactly once in both the before and after parts of a range, and
+ * returns the longest list of them that appears in the same order in both parts.
+ *
+ * @param {Range} range The range to search.
+ *
+ * @return {Array.<Array.<number>>} The absolute before and after indexes of the anchors, in
+ *    order.
+ */
+function findUniqueAnchors(range: Range): Array<[number, number]> {
+  const counts = Object.create(null) as
+    Record<string, {before: number, after: number, beforeIndex: number, afterIndex: number}>;
+  for (let i = range.beforeStart; i < range.beforeEnd; i++){
+    const key = range.before[i] ?? '';
+    const count = counts[key] || (counts[key] = {before: 0, after: 0, beforeIndex: i, afterIndex: -1});
+    count.before++;
+  }
+  for (let j = range.afterStart; j < range.afterEnd; j++){
+    const count = counts[range.after[j] ?? ''];
+    if (count){
+      count.after++;
+      count.afterIndex = j;
+    }
+  }
+
+  // The unique keys, in the order of the before part.
+  const candidates: Array<[number, number]> = [];
+  for (let i = range.beforeStart; i < range.beforeEnd; i++){
+    const count = counts[range.before[i] ?? ''];
+    if (count && count.before === 1 && count.after === 1){
+      candidates.push([i, count.afterIndex]);
+    }
+  }
+
+  // Patience sorting: the longest increasing subsequence of the after indexes.
+  const pileTops: number[] = [];
+  const previous: number[] = [];
+  candidates.forEach(function(candidate: [number, number], index: number){
+    let low = 0;
+    let high = pileTops.length;
+    while (low < high){
+      const middle = Math.floor((low + high) / 2);
+      if ((candidates[pileTops[middle] ?? 0]?.[1] ?? 0) < candidate[1]){
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    previous[index] = low > 0 ? pileTops[low - 1] ?? -1 : -1;
+    pileTops[low] = index;
+  });
+
+  const anchors: Array<[number, number]> = [];
+  let index = pileTops.length ? pileTops[pileTops.length - 1] ?? -1 : -1;
+  while (index !== -1){
+    const candidate = candidates[index];
+    if (candidate){
+      anchors.unshift(candidate);
+    }
+    index = previous[index] ?? -1;
+  }
+  return anchors;
+}
+
+/**
+ * Adds the blocks of a range found with the patience algorithm to the list of blocks.
+ *
+ * @param {Range} range The range to diff.
+ * @param {Array.<Block>} blocks The list of blocks to add to.
+ * @param {WorkBudget|null} budget The work budget.
+ */
+function diffRangePatience(range: Range, blocks: Block[], budget: WorkBudget | null){
+  const suffix = trimRange(range, blocks);
+  if (range.beforeStart < range.beforeEnd && range.afterStart < range.afterEnd){
+    budget?.spend(range.beforeEnd - range.beforeStart + range.afterEnd - range.afterStart);
+    const anchors = findUniqueAnchors(range);
+    if (anchors.length){
+      let beforeStart = range.beforeStart;
+      let afterStart = range.afterStart;
+      anchors.concat([[range.beforeEnd, range.afterEnd]]).forEach(function(anchor: [number, number]){
+        diffRangePatience({
+          before: range.before,
+          after: range.after,
+          beforeStart: beforeStart,
+          beforeEnd: anchor[0],
+          afterStart: afterStart,
+          afterEnd: anchor[1]
+        }, blocks, budget);
+        if (anchor[0] < range.beforeEnd){
+          pushBlock(blocks, anchor[0], anchor[1], 1);
+        }
+        beforeStart = anchor[0] + 1;
+        afterStart = anchor[1] + 1;
+      });
+    } else {
+      diffRangeMyers(range, blocks, budget);
+    }
+  }
+  pushBlock(blocks, range.beforeEnd, range.afterEnd, suffix);
+}
+
+/**
+ * Finds the matching blocks between two lists of keys with the patience algorithm. Once the
+ * budget is exhausted, only the unique anchors are matched.
+ *
+ * @param {Array.<string>} before The before list of keys.
+ * @param {Array.<string>} after The after list of keys.
+ * @param {WorkBudget|null} budget (Optional) The work budget.
+ *
+ * @return {Array.<Block>} The matching blocks, in order.
+ */
+export function patienceBlocks(before: string[], after: string[], budget?: WorkBudget | null): Block[] {
+  const blocks: Block[] = [];
+  diffRangePatience({
+    before: before,
+    after: after,
+    beforeStart: 0,
+    beforeEnd: before.length,
+    afterStart: 0,
+    afterEnd: after.length
+  }, blocks, budget || null);
+  return blocks;
+}
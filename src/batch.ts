@@ -0,0 +1,175 @@
+/**
+ * Compares two directory trees of HTML files, e.g. two releases of a documentation site. The
+ * files are matched by their path relative to the root of each tree and compared one pair at a
+ * time: the diff of each pair is written to its own page as soon as it is rendered and only
+ * its change counts are kept, so large trees are never held in memory at once. Once all the
+ * files are compared, an index page lists the added, removed and changed files with their
+ * change counts and links to their diff pages.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import {DiffOptions, DiffStats, diffStructured, renderOperations, renderPage, resolveOptions} from './htmldiff.js';
+
+/**
+ * The file system used by compareDirectories, replaced in the tests.
+ */
+export type BatchFileSystem = {
+  // Lists the paths of the files in a directory and its subdirectories, relative to it and
+  // separated by '/'.
+  listFiles(directory: string): string[];
+  readFile(path: string): string;
+  // Writes a file, creating its directory when it doesn't exist.
+  writeFile(path: string, content: string): void;
+};
+
+/**
+ * Options accepted by compareDirectories, on top of the options used to compare the files.
+ */
+export type BatchOptions = DiffOptions & {
+  // The extensions of the files compared, '.html' and '.htm' by default.
+  extensions?: string[];
+  // The title of the index page, 'HTML diff' by default.
+  title?: string;
+  // Called after each file is compared, e.g. to report the progress.
+  onFile?: (file: BatchFile) => void;
+};
+
+/**
+ * A file compared by compareDirectories.
+ */
+export type BatchFile = {
+  // The path of the file relative to the compared directories, separated by '/'.
+  path: string;
+  // 'added' when the file is only in the after directory, 'removed' when it is only in the
+  // before directory.
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  // The change counts of the diff of the file.
+  stats: DiffStats;
+  // The share of matching tokens in both versions of the file, from 0 to 1.
+  similarity: number;
+  // The path of the diff page of the file relative to the output directory, null for the
+  // unchanged files, which have none.
+  report: string | null;
+};
+
+export type BatchReport = {
+  // The compared files, sorted by path.
+  files: BatchFile[];
+  added: number;
+  removed: number;
+  changed: number;
+  unchanged: number;
+};
+
+export const nodeFileSystem: BatchFileSystem = {
+  listFiles: function(directory: string): string[] {
+    return fs.readdirSync(directory).reduce(function(files: string[], name: string){
+      if (fs.statSync(path.join(directory, name)).isDirectory()){
+        return files.concat(nodeFileSystem.listFiles(path.join(directory, name)).map(file => name + '/' + file));
+      }
+      return files.concat(name);
+    }, []);
+  },
+  readFile: file => fs.readFileSync(file, 'utf8'),
+  writeFile: function(file: string, content: string){
+    fs.mkdirSync(path.dirname(file), {recursive: true});
+    fs.writeFileSync(file, content);
+  }
+};
+
+function escapeText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Renders the index page of a batch comparison.
+ *
+ * @param {BatchReport} report The compared files.
+ * @param {string} title The title of the page.
+ *
+ * @return {string} The page.
+ */
+export function renderIndex(report: BatchReport, title: string): string {
+  const rows = report.files.filter(file => file.status !== 'unchanged').map(function(file: BatchFile){
+    const name = file.report === null ? escapeText(file.path) :
+      `<a href="${escapeText(encodeURI(file.report))}">${escapeText(file.path)}</a>`;
+    return `<tr class="${file.status}"><td>${name}</td><td>${file.status}</td>` +
+      `<td>${file.stats.changes}</td><td>${file.stats.insertedWords}</td><td>${file.stats.deletedWords}</td>` +
+      `<td>${file.stats.replacedWords}</td><td>${file.stats.movedWords}</td>` +
+      `<td>${Math.round(file.similarity * 100)}%</td></tr>`;
+  });
+  return '<!DOCTYPE html>\n<html>\n<head>\n<meta charset="utf-8">\n' +
+    `<title>${escapeText(title)}</title>\n<style>\n` +
+    'table { border-collapse: collapse; }\n' +
+    'th, td { border: 1px solid #d0d7de; padding: 4px 8px; text-align: right; }\n' +
+    'th:first-child, td:first-child { text-align: left; }\n' +
+    '.added td:nth-child(2) { color: #116329; }\n' +
+    '.removed td:nth-child(2) { color: #82071e; }\n' +
+    '</style>\n</head>\n<body>\n' +
+    `<h1>${escapeText(title)}</h1>\n` +
+    `<p>${report.changed} changed, ${report.added} added, ${report.removed} removed, ` +
+    `${report.unchanged} unchanged.</p>\n` +
+    '<table>\n<tr><th>File</th><th>Status</th><th>Changes</th><th>Inserted words</th>' +
+    '<th>Deleted words</th><th>Replaced words</th><th>Moved words</th><th>Similarity</th></tr>\n' +
+    rows.join('\n') + (rows.length ? '\n' : '') + '</table>\n</body>\n</html>\n';
+}
+
+/**
+ * Compares the HTML files of two directories and writes a diff page for each added, removed
+ * or changed file and an index page, index.html, listing them to the output directory. The diff
+ * pages are written to the diff directory of the output directory, under the path of their file.
+ *
+ * @param {string} before The directory holding the files before the changes.
+ * @param {string} after The directory holding the files after the changes.
+ * @param {string} output The directory the report is written to.
+ * @param {BatchOptions} options (Optional) The options used to select and compare the files.
+ * @param {BatchFileSystem} fileSystem (Optional) The file system, the one of Node.js by default.
+ *
+ * @return {BatchReport} The compared files.
+ */
+export function compareDirectories(before: string, after: string, output: string, options?: BatchOptions | null, fileSystem?: BatchFileSystem): BatchReport {
+  const system = fileSystem || nodeFileSystem;
+  const opts: BatchOptions = options || {};
+  const config = resolveOptions(opts);
+  const extensions = (opts.extensions || ['.html', '.htm']).map(extension => extension.toLowerCase());
+  function isCompared(file: string){
+    return extensions.some(extension => file.toLowerCase().slice(-extension.length) === extension);
+  }
+  const beforeFiles = system.listFiles(before).filter(isCompared);
+  const afterFiles = system.listFiles(after).filter(isCompared);
+  const paths = beforeFiles.concat(afterFiles.filter(file => beforeFiles.indexOf(file) === -1)).sort();
+  const report: BatchReport = {files: [], added: 0, removed: 0, changed: 0, unchanged: 0};
+
+  paths.forEach(function(file: string){
+    const inBefore = beforeFiles.indexOf(file) !== -1;
+    const inAfter = afterFiles.indexOf(file) !== -1;
+    const result = diffStructured(inBefore ? system.readFile(before + '/' + file) : '',
+                                  inAfter ? system.readFile(after + '/' + file) : '', config);
+    let status: BatchFile['status'] = 'unchanged';
+    if (!inBefore){
+      status = 'added';
+    } else if (!inAfter){
+      status = 'removed';
+    } else if (result.changes.length){
+      status = 'changed';
+    }
+    report[status]++;
+    const batchFile: BatchFile = {
+      path: file,
+      status: status,
+      stats: result.stats,
+      similarity: result.similarity,
+      report: status === 'unchanged' ? null : 'diff/' + file
+    };
+    if (batchFile.report !== null){
+      const html = renderOperations(result.beforeTokens, result.afterTokens, result.operations, config);
+      system.writeFile(output + '/' + batchFile.report, renderPage(html, file, config));
+    }
+    report.files.push(batchFile);
+    if (opts.onFile){
+      opts.onFile(batchFile);
+    }
+  });
+  system.writeFile(output + '/index.html', renderIndex(report, opts.title || 'HTML diff'));
+  return report;
+}
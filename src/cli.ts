@@ -0,0 +1,258 @@
+/**
+ * The htmldiff command-line tool. It compares two HTML files and writes the diff to stdout or
+ * to a file, or two directories of HTML files and writes a report, see compareDirectories:
+ *
+ *     htmldiff [options] <before> <after>
+ *     htmldiff [options] -o <report> <before directory> <after directory>
+ *
+ * Either file may be `-` to read it from stdin. The diff options are passed as flags named
+ * after them in kebab case, e.g. `--class-name diff` or `--detect-moves`, and the boolean
+ * options are turned off with `--no-`, e.g. `--no-table-diff`. The exit code
+ * is 0 when the files are the same, 1 when they differ and 2 when they can't be compared, like
+ * the exit code of diff(1), so the tool can be used in CI checks.
+ */
+import * as fs from 'fs';
+import {BatchFile, BatchFileSystem, compareDirectories, nodeFileSystem} from './batch.js';
+import {DiffOptions, calculateOperations, htmlToTokens, renderOperations, renderPage, resolveOptions} from './htmldiff.js';
+
+/**
+ * The file system and streams used by main, replaced in the tests. Its readFile reads stdin
+ * when the path is '-'.
+ */
+export type CliIO = BatchFileSystem & {
+  isDirectory(path: string): boolean;
+  stdout(text: string): void;
+  stderr(text: string): void;
+};
+
+/**
+ * The parsed command line.
+ */
+export type CliArguments = {
+  // The paths of the before and after files, '-' for stdin.
+  files: string[];
+  options: DiffOptions;
+  // The file the diff is written to, stdout when null, or the directory the report is written
+  // to when comparing directories.
+  output: string | null;
+  // Wrap the diff in a standalone HTML page with the default styling.
+  page: boolean;
+  // The title of the standalone page or of the index page of the report.
+  title: string | null;
+  // The extensions of the files compared when comparing directories.
+  extensions: string[] | null;
+  help: boolean;
+};
+
+// The diff options that can be passed as flags, by kind of value.
+const stringOptions = [
+  'className', 'insertClassName', 'deleteClassName', 'dataPrefix', 'atomicTags', 'insertTag',
+  'deleteTag', 'operationIndexAttribute', 'diffNodeAttribute', 'oldAttributesAttribute',
+  'modifiedClassName', 'formatTags', 'formatTag', 'formatAttribute', 'formatClassName',
+  'mediaClassName', 'commentAttribute', 'wordSegmenter', 'locale', 'whitespace', 'ignoreSelectors',
+  'ignoreElementAttribute', 'ignorePatterns', 'granularity', 'algorithm', 'moveIdAttribute', 'moveClassName',
+  'insertedRowClassName', 'deletedRowClassName', 'insertedColumnClassName',
+  'deletedColumnClassName', 'insertedItemClassName', 'deletedItemClassName'
+];
+const listOptions = ['compareAttributes', 'ignoreAttributes', 'stripAttributes'];
+const booleanOptions = [
+  'detectAttributeChanges', 'detectFormatChanges', 'detectMediaChanges', 'preserveComments',
+  'preserveDeletedComments', 'compareComments', 'characterDiff', 'ignoreCase', 'ignorePunctuation',
+  'refineChangedUnits', 'semanticCleanup', 'detectMoves', 'tableDiff', 'listDiff'
+];
+const numberOptions = [
+  'characterDiffMaxLength', 'characterDiffThreshold', 'timeoutMs', 'maxWork', 'semanticCleanupMaxWords',
+  'moveMinWords', 'moveThreshold', 'structureThreshold'
+];
+
+export const usage = `Usage: htmldiff [options] <before> <after>
+
+Compares two HTML files, either of them may be - to read it from stdin, and writes the
+before content with the differences wrapped in <ins> and <del> tags. When both are
+directories, compares the HTML files they hold and writes a report with a diff page for
+each changed file and an index page, index.html, to the --output directory.
+
+Options:
+  -o, --output <path>      Write the diff to a file instead of stdout, or the report to
+                           a directory.
+  --page                   Wrap the diff in a standalone HTML page with default styling.
+  --title <title>          The title of the standalone page or of the index page.
+  --extensions <list>      The extensions of the files compared in directories, separated
+                           by commas, .html,.htm by default.
+  --attribute <name=value> Add an attribute to every <ins> and <del> tag, may be repeated.
+  --<option> <value>       Set a diff option, named in kebab case, e.g. --class-name diff.
+  --<option>               Turn a boolean diff option on, e.g. --detect-moves.
+  --no-<option>            Turn a boolean diff option off, e.g. --no-table-diff.
+  -h, --help               Show this help.
+
+Exits with 0 when the files are the same, 1 when they differ and 2 on errors.
+`;
+
+function toCamelCase(name: string): string {
+  return name.replace(/-([a-z])/g, (match, letter: string) => letter.toUpperCase());
+}
+
+/**
+ * Parses the command-line arguments.
+ *
+ * @param {Array.<string>} args The arguments, without the node executable and script.
+ *
+ * @return {CliArguments} The parsed arguments.
+ *
+ * @throws {Error} When an argument is unknown or a value is missing or invalid.
+ */
+export function parseArguments(args: string[]): CliArguments {
+  const result: CliArguments = {
+    files: [],
+    options: {},
+    output: null,
+    page: false,
+    title: null,
+    extensions: null,
+    help: false
+  };
+  const options = result.options as Record<string, unknown>;
+  // Splits the `--flag=value` arguments in two.
+  const list = args.reduce(function(split: string[], arg: string){
+    const equals = arg.indexOf('=');
+    return split.concat(/^--[^=]/.test(arg) && equals !== -1 ? [arg.slice(0, equals), arg.slice(equals + 1)] : [arg]);
+  }, []);
+  let index = 0;
+  function readValue(flag: string): string {
+    const value = list[++index];
+    if (value === undefined){
+      throw new Error(`Missing value for ${flag}`);
+    }
+    return value;
+  }
+
+  for (; index < list.length; index++){
+    const flag = list[index] ?? '';
+    if (flag === '-' || flag.charAt(0) !== '-'){
+      result.files.push(flag);
+      continue;
+    }
+    if (flag === '--'){
+      result.files = result.files.concat(list.slice(index + 1));
+      break;
+    }
+    const name = toCamelCase(flag.replace(/^--?/, ''));
+    if (flag === '-h' || flag === '--help'){
+      result.help = true;
+    } else if (flag === '-o' || flag === '--output'){
+      result.output = readValue(flag);
+    } else if (flag === '--page'){
+      result.page = true;
+    } else if (flag === '--title'){
+      result.title = readValue(flag);
+    } else if (flag === '--extensions'){
+      result.extensions = readValue(flag).split(',');
+    } else if (flag === '--attribute'){
+      const attribute = readValue(flag);
+      const separator = attribute.indexOf('=');
+      if (separator < 1){
+        throw new Error(`Invalid attribute ${attribute}, expected name=value`);
+      }
+      result.options.attributes = result.options.attributes || {};
+      result.options.attributes[attribute.slice(0, separator)] = attribute.slice(separator + 1);
+    } else if (stringOptions.indexOf(name) !== -1){
+      options[name] = readValue(flag);
+    } else if (listOptions.indexOf(name) !== -1){
+      options[name] = readValue(flag).split(',');
+    } else if (numberOptions.indexOf(name) !== -1){
+      const value = Number(readValue(flag));
+      if (isNaN(value)){
+        throw new Error(`Invalid number for ${flag}`);
+      }
+      options[name] = value;
+    } else if (booleanOptions.indexOf(name) !== -1){
+      options[name] = true;
+    } else if (/^--no-/.test(flag) && booleanOptions.indexOf(toCamelCase(flag.slice(5))) !== -1){
+      options[toCamelCase(flag.slice(5))] = false;
+    } else {
+      throw new Error(`Unknown option ${flag}`);
+    }
+  }
+  return result;
+}
+
+const nodeIO: CliIO = {
+  listFiles: nodeFileSystem.listFiles,
+  readFile: path => path === '-' ? fs.readFileSync(0, 'utf8') : nodeFileSystem.readFile(path),
+  writeFile: nodeFileSystem.writeFile,
+  isDirectory: path => path !== '-' && fs.existsSync(path) && fs.statSync(path).isDirectory(),
+  stdout: text => process.stdout.write(text),
+  stderr: text => process.stderr.write(text)
+};
+
+/**
+ * Compares two directories and writes the report, listing the added (A), removed (D) and
+ * changed (M) files to stdout.
+ *
+ * @return {number} The exit code: 0 when the directories hold the same files, 1 otherwise.
+ */
+function runBatch(parsed: CliArguments, before: string, after: string, system: CliIO): number {
+  if (parsed.output === null){
+    throw new Error('Expected an --output directory to write the report to');
+  }
+  const statusLetters = {added: 'A', removed: 'D', changed: 'M', unchanged: ''};
+  const report = compareDirectories(before, after, parsed.output, {
+    ...parsed.options,
+    extensions: parsed.extensions || undefined,
+    title: parsed.title || undefined,
+    onFile: function(file: BatchFile){
+      if (file.status !== 'unchanged'){
+        system.stdout(`${statusLetters[file.status]}\t${file.path}\n`);
+      }
+    }
+  }, system);
+  return report.added || report.removed || report.changed ? 1 : 0;
+}
+
+/**
+ * Runs the command-line tool.
+ *
+ * @param {Array.<string>} args The arguments, without the node executable and script.
+ * @param {CliIO} io (Optional) The file system and streams, those of the process by default.
+ *
+ * @return {number} The exit code: 0 when the files are the same, 1 when they differ and 2 on
+ *    errors.
+ */
+export function main(args: string[], io?: CliIO): number {
+  const system = io || nodeIO;
+  try {
+    const parsed = parseArguments(args);
+    if (parsed.help){
+      system.stdout(usage);
+      return 0;
+    }
+    if (parsed.files.length !== 2){
+      throw new Error('Expected two files to compare');
+    }
+    if (parsed.files[0] === '-' && parsed.files[1] === '-'){
+      throw new Error('Only one of the files can be read from stdin');
+    }
+    const beforePath = parsed.files[0] ?? '';
+    const afterPath = parsed.files[1] ?? '';
+    if (system.isDirectory(beforePath) && system.isDirectory(afterPath)){
+      return runBatch(parsed, beforePath, afterPath, system);
+    }
+    const config = resolveOptions(parsed.options);
+    const beforeTokens = htmlToTokens(system.readFile(beforePath), config);
+    const afterTokens = htmlToTokens(system.readFile(afterPath), config);
+    const ops = calculateOperations(beforeTokens, afterTokens, config);
+    let html = renderOperations(beforeTokens, afterTokens, ops, config);
+    if (parsed.page){
+      html = renderPage(html, parsed.title ?? `${beforePath} → ${afterPath}`, config);
+    }
+    if (parsed.output === null){
+      system.stdout(html);
+    } else {
+      system.writeFile(parsed.output, html);
+    }
+    return ops.some(op => op.action !== 'equal') ? 1 : 0;
+  } catch (error){
+    system.stderr(`htmldiff: ${(error as Error).message}\n`);
+    return 2;
+  }
+}
@@ -9,7 +9,8 @@
  *      a. Find all the matching blocks of tokens between the before and after lists of
  *         tokens with findMatchingBlocks. This is done by finding the single longest
  *         matching block with findMatch, then iteratively finding the next longest
- *         matching blocks that precede and follow the longest matching block.
+ *         matching blocks that precede and follow the longest matching block. The Myers
+ *         and patience algorithms of algorithms.ts can be used instead.
  *      b. Determine insertions, deletions, and replacements from the matching blocks.
  *         This is done in calculateOperations.
  * 3. Render the list of operations by wrapping tokens with <ins> and <del> tags where
@@ -25,100 +26,793 @@
  *   htmldiff('<p>this is some text</p>', '<p>this is some more text</p>', 'diff-class')
  *   == '<p>this is some <ins class="diff-class">more </ins>text</p>'
  */
-function isEndOfTag(char: string): boolean {
-  return char === '>';
+import {Block, WorkBudget, createWorkBudget, myersBlocks, patienceBlocks} from './algorithms.js';
+
+function isWhitespace(char: string): boolean {
+  return /^\s+$/.test(char);
 }
 
-function isStartOfTag(char: string): boolean {
-  return char === '<';
+/**
+ * Checks if a character is whitespace as far as the markup of a tag is concerned. Unlike
+ * isWhitespace, this doesn't include non-breaking spaces.
+ *
+ * @param {string} char The character to check.
+ *
+ * @return {boolean} True if the character separates the parts of a tag, false otherwise.
+ */
+function isTagWhitespace(char: string): boolean {
+  return char === ' ' || char === '\t' || char === '\n' || char === '\r' || char === '\f';
 }
 
-function isWhitespace(char: string): boolean {
-  return /^\s+$/.test(char);
+// Letters, numbers and combining marks in any script, plus the characters that have always
+// been considered part of a word.
+const wordCharRegExp = new RegExp('^[\\p{L}\\p{N}\\p{M}_#@]', 'u');
+
+// Scripts written without spaces between words. Without a word segmenter, every one of their
+// characters is a word of its own.
+const ideographRegExp = new RegExp('^[\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}]', 'u');
+
+// A grapheme cluster: a character or a pair of regional indicators (a flag), followed by any
+// combining marks, emoji modifiers, tag characters and zero-width joiner sequences.
+const graphemeRegExp = new RegExp('(?:\\p{Regional_Indicator}{2}|[\\s\\S])' +
+  '(?:[\\p{M}\\u{1F3FB}-\\u{1F3FF}\\u{E0020}-\\u{E007F}]|\\u200D(?:\\p{Regional_Indicator}{2}|[^\\s]))*', 'gu');
+
+// Punctuation in any script, left out of the keys of text by the ignorePunctuation option.
+const punctuationRegExp = new RegExp('\\p{P}', 'gu');
+
+function isWordChar(char: string): boolean {
+  return wordCharRegExp.test(char);
+}
+
+/**
+ * Splits a string into its grapheme clusters, so characters are never separated from their
+ * combining marks and emoji sequences are kept together.
+ *
+ * @param {string} str The string to split.
+ *
+ * @return {Array.<string>} The list of grapheme clusters.
+ */
+function splitGraphemes(str: string): string[] {
+  return str.match(graphemeRegExp) || [];
 }
 
+// Elements whose content is text rather than markup, they are always read as a single token.
+const rawTextTags = ['script', 'style', 'textarea', 'title', 'xmp', 'iframe', 'noembed', 'noframes', 'plaintext'];
+
+// Elements that never have an end tag.
+const voidTags = ['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr'];
+
+// Elements whose tags separate the blocks of the coarse diff used once the work budget runs out.
+const blockTags = ['address', 'article', 'aside', 'blockquote', 'dd', 'div', 'dl', 'dt', 'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'table', 'td', 'th', 'tr', 'ul'];
 
-const tagRegExp = /^\s*<([^!>][^>]*)>\s*$/;
 /**
  * Determines if the given token is a tag.
  *
  * @param {string} token The token in question.
  *
- * @return {boolean|string} False if the token is not a tag, or the tag name otherwise.
+ * @return {boolean|string} False if the token is not a tag, or the lowercased tag name
+ *    otherwise, prefixed with a '/' for end tags.
  */
 function isTag(token: string){
-  const match = tagRegExp.exec(token);
-  return !!match && match[1]?.trim().split(' ')[0];
+  const trimmed = token.trim();
+  if (!/^<\/?[a-zA-Z]/.test(trimmed) || findEndOfOpeningTag(trimmed) !== trimmed.length - 1){
+    return false;
+  }
+  return (/^<(\/?[^\t\n\f\r />]+)/.exec(trimmed)?.[1] ?? '').toLowerCase();
 }
 
 function isntTag(token: string): boolean {
   return !isTag(token);
 }
 
-function isStartOfHTMLComment(word: string): boolean {
-  return /^<!--/.test(word);
+/**
+ * Determines if the given token is a comment, including the bogus comments like processing
+ * instructions that are turned into comments by the HTML standard.
+ *
+ * @param {string} token The token in question.
+ *
+ * @return {boolean} True if the token is a comment, false otherwise.
+ */
+function isComment(token: string): boolean {
+  return /^<(!--|\?|!(?!doctype|\[CDATA\[)|\/[^a-zA-Z])/i.test(token);
+}
+
+// Added head and style (for style tags inside the body)
+export const defaultAtomicTags = ['iframe', 'object', 'math', 'svg', 'script', 'video', 'head', 'style', 'a'];
+
+// The inline tags whose addition or removal around unchanged text is reported by the
+// detectFormatChanges option.
+export const defaultFormatTags = ['a', 'b', 'code', 'em', 'i', 'mark', 's', 'small', 'strike', 'strong', 'sub', 'sup', 'u'];
+
+/**
+ * How the tokens of a media tag are compared, see the mediaTags option.
+ */
+export type MediaRule = {
+  // The attributes identifying the media. Media whose identity attributes differ are replaced,
+  // the others are the same media. The sources of a video or an audio are part of its identity.
+  identity: string[];
+  // The attributes whose changes are reported as modifications of the same media by the
+  // detectMediaChanges option.
+  attributes: string[];
+};
+
+// The media tags compared by their identity attributes instead of by their whole token.
+export const defaultMediaTags: Record<string, MediaRule> = {
+  img: {identity: ['src'], attributes: ['alt', 'width', 'height', 'srcset', 'title']},
+  video: {identity: ['src'], attributes: ['poster', 'width', 'height', 'title']},
+  audio: {identity: ['src'], attributes: ['title']},
+  iframe: {identity: ['src'], attributes: ['width', 'height', 'title']},
+  object: {identity: ['data'], attributes: ['type', 'width', 'height']},
+  embed: {identity: ['src'], attributes: ['type', 'width', 'height']}
+};
+
+/**
+ * Options accepted by diff() and the functions that make up the diff pipeline. All of them
+ * are optional, the defaults reproduce the output of the positional diff() signature.
+ */
+export type DiffOptions = {
+  // The class attribute added to both the insert and delete wrapper tags.
+  className?: string | null;
+  // The class attribute added to insert wrapper tags, replaces className for them.
+  insertClassName?: string | null;
+  // The class attribute added to delete wrapper tags, replaces className for them.
+  deleteClassName?: string | null;
+  // The data prefix used for the operation index attribute, `data-${dataPrefix-}operation-index`.
+  dataPrefix?: string | null;
+  // The tags whose content is treated as a single token, either as a list or as a comma
+  // separated string (`tag1,tag2,...`). Replaces the defaultAtomicTags list.
+  atomicTags?: string | string[] | null;
+  // The tag name used to wrap inserted content, 'ins' by default.
+  insertTag?: string;
+  // The tag name used to wrap deleted content, 'del' by default.
+  deleteTag?: string;
+  // The name of the attribute holding the operation index, derived from dataPrefix by default.
+  // An empty string omits the attribute.
+  operationIndexAttribute?: string;
+  // The name of the attribute that marks inserted and deleted tags, 'data-diff-node' by
+  // default. An empty string omits the attribute.
+  diffNodeAttribute?: string;
+  // Extra attributes added to every insert and delete wrapper tag.
+  attributes?: Record<string, string>;
+  // Report tags whose attributes changed as 'modify' operations instead of as equal.
+  detectAttributeChanges?: boolean;
+  // When given, only these attributes are compared by detectAttributeChanges.
+  compareAttributes?: string[] | null;
+  // Attributes that are never compared by detectAttributeChanges.
+  ignoreAttributes?: string[] | null;
+  // The name of the attribute holding the JSON encoded attributes of a modified tag before the
+  // change, 'data-diff-old-attrs' by default. An empty string omits the attribute.
+  oldAttributesAttribute?: string;
+  // The class added to modified tags.
+  modifiedClassName?: string | null;
+  // Report unchanged text whose inline formatting changed, e.g. a word made bold or a link
+  // added around a sentence, as 'format' operations instead of as equal.
+  detectFormatChanges?: boolean;
+  // The inline formatting tags compared by detectFormatChanges, either as a list or as a comma
+  // separated string. Replaces the defaultFormatTags list.
+  formatTags?: string | string[] | null;
+  // The tag name used to wrap the text of 'format' operations, 'span' by default.
+  formatTag?: string;
+  // The name of the attribute listing the formatting changes of a 'format' operation, e.g.
+  // '+strong -em', 'data-diff-format' by default. An empty string omits the attribute.
+  formatAttribute?: string;
+  // The class added to the tags wrapping the text of 'format' operations, 'diff-format' by
+  // default.
+  formatClassName?: string | null;
+  // How each media tag is compared, by tag name. Replaces the defaultMediaTags rules.
+  mediaTags?: Record<string, MediaRule>;
+  // Report the media whose compared attributes changed, like the alt text of an image or the
+  // poster of a video, as 'modify' operations, and render replaced media side by side in a
+  // single container.
+  detectMediaChanges?: boolean;
+  // The class added to the container of replaced media, 'diff-media' by default.
+  mediaClassName?: string | null;
+  // Keep the comments as tokens instead of removing them. Comments are never wrapped, they are
+  // rendered from the after content of equal and inserted content.
+  preserveComments?: boolean;
+  // Also render the comments of deleted content, only used with preserveComments.
+  preserveDeletedComments?: boolean;
+  // Compare the contents of the comments, so changed comments are reported as changes. Only
+  // used with preserveComments, by default all comments are considered equal.
+  compareComments?: boolean;
+  // The name of the attribute holding the changed comments found by compareComments, on the
+  // insert and delete tags marking them, 'data-diff-comment' by default. An empty string
+  // renders the changed comments unmarked.
+  commentAttribute?: string;
+  // Refine the replacements of a single word by another into character level changes.
+  characterDiff?: boolean;
+  // The maximum length of the words refined by characterDiff, 20 by default.
+  characterDiffMaxLength?: number;
+  // The minimum share of matching characters in both words, from 0 to 1, for characterDiff to
+  // refine their replacement, 0.5 by default.
+  characterDiffThreshold?: number;
+  // How words are found in text: 'unicode' groups the letters, numbers and marks of any
+  // script, 'intl' uses Intl.Segmenter when it is available, which also finds the words of
+  // scripts written without spaces like Chinese, Japanese or Thai. 'unicode' by default.
+  wordSegmenter?: 'unicode' | 'intl';
+  // The locale passed to Intl.Segmenter by the 'intl' word segmenter.
+  locale?: string | string[];
+  // How the whitespace of text is compared: 'collapse' considers any run of whitespace,
+  // including non-breaking spaces, equal to a single space, 'significant' compares it as it is
+  // and 'ignore' never reports whitespace changes. The whitespace inside <pre> and <code>
+  // elements is always significant. 'collapse' by default.
+  whitespace?: WhitespaceMode;
+  // Compare the text regardless of case.
+  ignoreCase?: boolean;
+  // Compare the text regardless of punctuation, so changes of punctuation alone are never
+  // reported.
+  ignorePunctuation?: boolean;
+  // The elements whose content is always considered equal, like ad slots or build
+  // information, as a list of selectors or a comma separated string. The selectors combine a
+  // tag name, ids, classes and attribute selectors without spaces, e.g. 'div.ad' or
+  // 'input[name="csrf"]'.
+  ignoreSelectors?: string | string[] | null;
+  // The attribute marking the elements whose content is always considered equal, like
+  // ignoreSelectors, 'data-diff-ignore' by default. An empty string turns the marker off.
+  ignoreElementAttribute?: string;
+  // The patterns of the text always considered equal, like timestamps or generated numbers.
+  // The text matching a pattern is a single token, compared regardless of its content.
+  ignorePatterns?: RegExp | string | Array<RegExp | string> | null;
+  // The attributes left out of the comparison of the tags compared with their attributes, like
+  // links, media and atomic tags, and of detectAttributeChanges, e.g. generated ids.
+  stripAttributes?: string[] | null;
+  // The units compared: 'word' compares the documents word by word, 'sentence' and 'block'
+  // group the words into sentences or into the contents of block elements before comparing
+  // them, so a changed unit is replaced as a whole. 'word' by default.
+  granularity?: Granularity;
+  // Compare the replaced sentences or blocks word by word, only used with the 'sentence' and
+  // 'block' granularities.
+  refineChangedUnits?: boolean;
+  // The algorithm finding the matching blocks of tokens: 'longest-match' repeatedly takes the
+  // longest matching block, 'myers' finds the fewest insertions and deletions, 'patience'
+  // anchors the diff on the tokens that appear once in both documents.
+  // 'longest-match' by default.
+  algorithm?: DiffAlgorithm;
+  // The maximum time in milliseconds spent calculating the operations, tokenizing and rendering
+  // aside. Once a share of it is spent finding the matching blocks of tokens, see
+  // SEARCH_TIME_SHARE, the parts of the documents left are compared block by block, see
+  // findCoarseMatches, in the time left. This comparison always completes, as it only takes a
+  // linear time, but the passes that refine the operations are skipped once all of the time is
+  // spent. No limit by default.
+  timeoutMs?: number | null;
+  // The maximum amount of work, counted in token comparisons, spent finding the matching
+  // blocks of tokens, with the same fallback as timeoutMs. Only the search is counted, the
+  // coarse matching and the passes after it aren't. No limit by default.
+  maxWork?: number | null;
+  // Merge the changes fragmented by short unchanged runs of words, like 'the' or 'a' between
+  // replaced words, into single changes, and move the edges of the insertions and deletions
+  // to the word, sentence and block boundaries.
+  semanticCleanup?: boolean;
+  // The maximum number of words of an unchanged run merged into the changes around it by
+  // semanticCleanup, 3 by default. A run is only merged when it has no more words than each
+  // of the changes around it.
+  semanticCleanupMaxWords?: number;
+  // Report the deleted and inserted runs of tokens that hold the same content as 'move'
+  // operations, linked by a shared moveId.
+  detectMoves?: boolean;
+  // The minimum number of words of a moved run, 3 by default.
+  moveMinWords?: number;
+  // The minimum share of words, from 0 to 1, that a deleted and an inserted run must have in
+  // common to be reported as a move, 0.8 by default.
+  moveThreshold?: number;
+  // The attribute holding the moveId on the origin and destination of a move,
+  // 'data-diff-move-id' by default.
+  moveIdAttribute?: string;
+  // The class name added to the tags wrapping moved content.
+  moveClassName?: string;
+  // Compare the tables row by row and cell by cell: the rows and the columns of the tables are
+  // aligned, whole inserted and deleted rows and columns are marked on their <tr> and <td>
+  // tags, and only the contents of the matched cells are compared word by word.
+  tableDiff?: boolean;
+  // Compare the lists item by item: the items of the lists are aligned, whole inserted and
+  // deleted items are marked on their <li> tags, reordered items are reported as moves and only
+  // the contents of the matched items are compared word by word.
+  listDiff?: boolean;
+  // The minimum share of words, from 0 to 1, that a deleted and an inserted table, list, row,
+  // column or item must have in common to be compared with each other instead of being reported as
+  // deleted and inserted, 0.3 by default.
+  structureThreshold?: number;
+  // Deprecated, the former name of structureThreshold.
+  tableThreshold?: number;
+  // The class added to the <tr> tags of inserted rows, 'diff-inserted-row' by default.
+  insertedRowClassName?: string | null;
+  // The class added to the <tr> tags of deleted rows, 'diff-deleted-row' by default.
+  deletedRowClassName?: string | null;
+  // The class added to the cells of inserted columns, 'diff-inserted-column' by default.
+  insertedColumnClassName?: string | null;
+  // The class added to the cells of deleted columns, 'diff-deleted-column' by default.
+  deletedColumnClassName?: string | null;
+  // The class added to the <li> tags of inserted list items, 'diff-inserted-item' by default.
+  insertedItemClassName?: string | null;
+  // The class added to the <li> tags of deleted list items, 'diff-deleted-item' by default.
+  deletedItemClassName?: string | null;
+  // The name of the attribute holding the id of a conflict on the tags wrapping each version of
+  // it in the result of merge(), 'data-diff-conflict' by default.
+  conflictAttribute?: string;
+  // The name of the attribute telling which version of a conflict, 'ours' or 'theirs', a tag
+  // wraps in the result of merge(), 'data-diff-version' by default.
+  conflictVersionAttribute?: string;
+  // The class added to the tags wrapping the versions of a conflict, 'diff-conflict' by default.
+  conflictClassName?: string | null;
+  // The number of unchanged tokens kept on each side of the changes of a patch by
+  // createPatch, to find where they apply, 4 by default.
+  patchContext?: number;
+  // The number of tokens on each side of a change of a patch that applyPatch may ignore when
+  // they don't match, 2 by default.
+  patchFuzz?: number;
+};
+
+/**
+ * The algorithms available to find the matching blocks of tokens.
+ */
+export type DiffAlgorithm = 'longest-match' | 'myers' | 'patience';
+
+const diffAlgorithms: DiffAlgorithm[] = ['longest-match', 'myers', 'patience'];
+
+/**
+ * The units compared, see the granularity option.
+ */
+export type Granularity = 'word' | 'sentence' | 'block';
+
+const granularities: Granularity[] = ['word', 'sentence', 'block'];
+
+/**
+ * How the whitespace of text is compared, see the whitespace option.
+ */
+export type WhitespaceMode = 'collapse' | 'significant' | 'ignore';
+
+const whitespaceModes: WhitespaceMode[] = ['collapse', 'significant', 'ignore'];
+
+const wordSegmenters: Array<DiffOptions['wordSegmenter']> = ['unicode', 'intl'];
+
+/**
+ * A selector of the ignoreSelectors option: an optional tag name and the attributes an element
+ * must have, with the value they must hold or contain depending on the operator.
+ */
+type Selector = {
+  tagName: string | null;
+  attributes: SelectorAttribute[];
+};
+
+type SelectorAttribute = {
+  name: string;
+  // '' when the attribute only has to be present, otherwise one of '=', '~=', '^=', '$=', '*='.
+  operator: string;
+  value: string;
+};
+
+type WordSegmenter = {
+  segment(input: string): Iterable<{segment: string, isWordLike?: boolean}>;
+};
+
+/**
+ * The options with all defaults applied, as used internally by the diff pipeline.
+ */
+export type DiffConfig = {
+  atomicTags: string[];
+  atomicTagsRegExp: RegExp;
+  insertTag: string;
+  deleteTag: string;
+  insertClassName: string;
+  deleteClassName: string;
+  operationIndexAttribute: string;
+  diffNodeAttribute: string;
+  attributes: Record<string, string>;
+  detectAttributeChanges: boolean;
+  compareAttributes: string[] | null;
+  ignoreAttributes: string[];
+  oldAttributesAttribute: string;
+  modifiedClassName: string;
+  detectFormatChanges: boolean;
+  formatTags: string[];
+  formatTag: string;
+  formatAttribute: string;
+  formatClassName: string;
+  mediaTags: Record<string, MediaRule>;
+  detectMediaChanges: boolean;
+  mediaClassName: string;
+  preserveComments: boolean;
+  preserveDeletedComments: boolean;
+  compareComments: boolean;
+  commentAttribute: string;
+  characterDiff: boolean;
+  characterDiffMaxLength: number;
+  characterDiffThreshold: number;
+  segmenter: WordSegmenter | null;
+  whitespace: WhitespaceMode;
+  ignoreCase: boolean;
+  ignorePunctuation: boolean;
+  ignoreElementSelectors: Selector[];
+  ignoreElementAttribute: string;
+  ignorePatterns: RegExp[];
+  stripAttributes: string[];
+  stripAttributesRegExp: RegExp | null;
+  granularity: Granularity;
+  refineChangedUnits: boolean;
+  algorithm: DiffAlgorithm;
+  timeoutMs: number | null;
+  maxWork: number | null;
+  semanticCleanup: boolean;
+  semanticCleanupMaxWords: number;
+  detectMoves: boolean;
+  moveMinWords: number;
+  moveThreshold: number;
+  moveIdAttribute: string;
+  moveClassName: string;
+  tableDiff: boolean;
+  listDiff: boolean;
+  structureThreshold: number;
+  insertedRowClassName: string;
+  deletedRowClassName: string;
+  insertedColumnClassName: string;
+  deletedColumnClassName: string;
+  insertedItemClassName: string;
+  deletedItemClassName: string;
+  conflictAttribute: string;
+  conflictVersionAttribute: string;
+  conflictClassName: string;
+  patchContext: number;
+  patchFuzz: number;
+};
+
+function escapeRegExp(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Escapes a string so it can be used as the value of a double quoted attribute.
+ *
+ * @param {string} value The attribute value.
+ *
+ * @return {string} The escaped value.
+ */
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
 }
 
-function isEndOfHTMLComment(word: string): boolean {
-  return /-->$/.test(word);
+function parseTagList(tags: string | string[]): string[] {
+  const list = typeof tags === 'string' ? tags.split(',') : tags;
+  return list.map(tag => tag.trim().toLowerCase()).filter(tag => !!tag);
 }
 
-// Added head and style (for style tags inside the body)
-const atomicTagsRegExp = /^<(iframe|object|math|svg|script|video|head|style|a)/;
+/**
+ * Parses the selectors of the ignoreSelectors option.
+ *
+ * @param {string|Array.<string>} selectors The selectors, either as a list or as a comma
+ *    separated string.
+ *
+ * @return {Array.<Selector>} The parsed selectors.
+ *
+ * @throws {Error} When a selector is not supported.
+ */
+function parseSelectors(selectors: string | string[]): Selector[] {
+  const list = typeof selectors === 'string' ? selectors.split(',') : selectors;
+  return list.map(selector => selector.trim()).filter(selector => !!selector).map(function(selector: string){
+    const tagName = /^([a-zA-Z][a-zA-Z0-9-]*|\*)/.exec(selector)?.[1];
+    const parsed: Selector = {tagName: tagName && tagName !== '*' ? tagName.toLowerCase() : null, attributes: []};
+    let rest = selector.slice(tagName?.length ?? 0);
+    const partRegExp = /^(?:([#.])([\w-]+)|\[\s*([^\s~^$*|=\]]+)\s*(?:([~^$*]?=)\s*(?:"([^"]*)"|'([^']*)'|([^\s\]]+))\s*)?\])/;
+    while (rest){
+      const part = partRegExp.exec(rest);
+      if (!part){
+        throw new Error(`Unsupported selector ${selector}`);
+      }
+      if (part[1]){
+        parsed.attributes.push({name: part[1] === '#' ? 'id' : 'class', operator: part[1] === '#' ? '=' : '~=', value: part[2] ?? ''});
+      } else {
+        parsed.attributes.push({name: (part[3] ?? '').toLowerCase(), operator: part[4] ?? '', value: part[5] ?? part[6] ?? part[7] ?? ''});
+      }
+      rest = rest.slice(part[0]?.length);
+    }
+    return parsed;
+  });
+}
+
+/**
+ * Checks if a start tag opens an element whose content is always considered equal, because it
+ * matches the ignoreSelectors option or has the ignoreElementAttribute attribute.
+ *
+ * @param {string} tag The token starting with the tag.
+ * @param {DiffConfig} config The resolved options holding the selectors and the attribute.
+ *
+ * @return {string|null} The lowercased tag name of the element, or null if it isn't ignored.
+ */
+function getIgnoredElement(tag: string, config: DiffConfig): string | null {
+  const tagName = /^<([a-zA-Z][^\t\n\f\r />]*)/.exec(tag)?.[1]?.toLowerCase();
+  if (!tagName){
+    return null;
+  }
+  const hasMarker = !!config.ignoreElementAttribute && tag.toLowerCase().indexOf(config.ignoreElementAttribute) !== -1;
+  if (!hasMarker && !config.ignoreElementSelectors.length){
+    return null;
+  }
+  const attributes = parseAttributes(tag);
+  if (hasMarker && attributes[config.ignoreElementAttribute] !== undefined){
+    return tagName;
+  }
+  const matches = config.ignoreElementSelectors.some(function(selector: Selector){
+    return (!selector.tagName || selector.tagName === tagName) && selector.attributes.every(function(attribute: SelectorAttribute){
+      const value = attributes[attribute.name];
+      switch (attribute.operator){
+        case '':
+          return value !== undefined;
+        case '=':
+          return value === attribute.value;
+        case '~=':
+          return (value ?? '').split(/\s+/).indexOf(attribute.value) !== -1;
+        case '^=':
+          return !!attribute.value && (value ?? '').indexOf(attribute.value) === 0;
+        case '$=':
+          return !!attribute.value && (value ?? '').slice(-attribute.value.length) === attribute.value;
+      }
+      return !!attribute.value && (value ?? '').indexOf(attribute.value) !== -1;
+    });
+  });
+  return matches ? tagName : null;
+}
+
+/**
+ * Creates an Intl.Segmenter finding words.
+ *
+ * @param {string|Array.<string>} locale (Optional) The locale of the text.
+ *
+ * @return {WordSegmenter|null} The segmenter, or null if Intl.Segmenter is not available.
+ */
+function createWordSegmenter(locale?: string | string[]): WordSegmenter | null {
+  const Segmenter = (Intl as unknown as {
+    Segmenter?: new (locale?: string | string[], options?: {granularity: string}) => WordSegmenter;
+  }).Segmenter;
+  return typeof Segmenter === 'function' ? new Segmenter(locale, {granularity: 'word'}) : null;
+}
+
+let defaultConfig: DiffConfig | undefined;
+
+/**
+ * Applies the defaults to the given options. Already resolved options are returned as they
+ * are, so the functions of the pipeline can pass the result along without resolving it again.
+ *
+ * @param {DiffOptions|DiffConfig} options (Optional) The options to resolve.
+ *
+ * @return {DiffConfig} The resolved options.
+ *
+ * @throws {Error} When the algorithm, the granularity, the whitespace mode or the word segmenter
+ *      is unknown or a selector is not supported.
+ */
+export function resolveOptions(options?: DiffOptions | DiffConfig | null): DiffConfig {
+  if (options && (options as DiffConfig).atomicTagsRegExp instanceof RegExp){
+    return options as DiffConfig;
+  }
+  if (!options && defaultConfig){
+    return defaultConfig;
+  }
+
+  const opts: DiffOptions = options || {};
+  if (opts.algorithm && diffAlgorithms.indexOf(opts.algorithm) === -1){
+    throw new Error(`Unknown algorithm ${opts.algorithm}`);
+  }
+  if (opts.granularity && granularities.indexOf(opts.granularity) === -1){
+    throw new Error(`Unknown granularity ${opts.granularity}`);
+  }
+  if (opts.whitespace && whitespaceModes.indexOf(opts.whitespace) === -1){
+    throw new Error(`Unknown whitespace mode ${opts.whitespace}`);
+  }
+  if (opts.wordSegmenter && wordSegmenters.indexOf(opts.wordSegmenter) === -1){
+    throw new Error(`Unknown word segmenter ${opts.wordSegmenter}`);
+  }
+  const atomicTags = opts.atomicTags ? parseTagList(opts.atomicTags) : defaultAtomicTags;
+  const dataPrefix = opts.dataPrefix ? opts.dataPrefix + '-' : '';
+  const stripAttributes = opts.stripAttributes ? parseTagList(opts.stripAttributes) : [];
+  const config: DiffConfig = {
+    atomicTags: atomicTags,
+    atomicTagsRegExp: new RegExp('^<(' + atomicTags.map(escapeRegExp).join('|') + ')[\\s/>]', 'i'),
+    insertTag: opts.insertTag || 'ins',
+    deleteTag: opts.deleteTag || 'del',
+    insertClassName: opts.insertClassName || opts.className || '',
+    deleteClassName: opts.deleteClassName || opts.className || '',
+    operationIndexAttribute: opts.operationIndexAttribute ?? `data-${dataPrefix}operation-index`,
+    diffNodeAttribute: opts.diffNodeAttribute ?? 'data-diff-node',
+    attributes: opts.attributes || {},
+    detectAttributeChanges: !!opts.detectAttributeChanges,
+    compareAttributes: opts.compareAttributes ? parseTagList(opts.compareAttributes) : null,
+    ignoreAttributes: opts.ignoreAttributes ? parseTagList(opts.ignoreAttributes) : [],
+    oldAttributesAttribute: opts.oldAttributesAttribute ?? 'data-diff-old-attrs',
+    modifiedClassName: opts.modifiedClassName || '',
+    detectFormatChanges: !!opts.detectFormatChanges,
+    formatTags: opts.formatTags ? parseTagList(opts.formatTags) : defaultFormatTags,
+    formatTag: opts.formatTag || 'span',
+    formatAttribute: opts.formatAttribute ?? 'data-diff-format',
+    formatClassName: opts.formatClassName ?? 'diff-format',
+    mediaTags: opts.mediaTags || defaultMediaTags,
+    detectMediaChanges: !!opts.detectMediaChanges,
+    mediaClassName: opts.mediaClassName ?? 'diff-media',
+    preserveComments: !!opts.preserveComments,
+    preserveDeletedComments: !!opts.preserveDeletedComments,
+    compareComments: !!opts.compareComments,
+    commentAttribute: opts.commentAttribute ?? 'data-diff-comment',
+    characterDiff: !!opts.characterDiff,
+    characterDiffMaxLength: opts.characterDiffMaxLength ?? 20,
+    characterDiffThreshold: opts.characterDiffThreshold ?? 0.5,
+    segmenter: opts.wordSegmenter === 'intl' ? createWordSegmenter(opts.locale) : null,
+    whitespace: opts.whitespace || 'collapse',
+    ignoreCase: !!opts.ignoreCase,
+    ignorePunctuation: !!opts.ignorePunctuation,
+    ignoreElementSelectors: opts.ignoreSelectors ? parseSelectors(opts.ignoreSelectors) : [],
+    ignoreElementAttribute: (opts.ignoreElementAttribute ?? 'data-diff-ignore').toLowerCase(),
+    ignorePatterns: ([] as Array<RegExp | string>).concat(opts.ignorePatterns || []).map(function(pattern: RegExp | string){
+      // The patterns are searched for with exec, which needs the global flag.
+      return typeof pattern === 'string' ? new RegExp(pattern, 'g') :
+        new RegExp(pattern.source, pattern.global ? pattern.flags : pattern.flags + 'g');
+    }),
+    stripAttributes: stripAttributes,
+    stripAttributesRegExp: stripAttributes.length ? new RegExp('(<[a-zA-Z][^>]*?)[\\t\\n\\f\\r ]+(?:' +
+      stripAttributes.map(escapeRegExp).join('|') + ')(?:\\s*=\\s*(?:"[^"]*"|\'[^\']*\'|[^\\s>]+))?(?=[\\s/>])', 'gi') : null,
+    granularity: opts.granularity || 'word',
+    refineChangedUnits: !!opts.refineChangedUnits,
+    algorithm: opts.algorithm || 'longest-match',
+    timeoutMs: opts.timeoutMs ?? null,
+    maxWork: opts.maxWork ?? null,
+    semanticCleanup: !!opts.semanticCleanup,
+    semanticCleanupMaxWords: opts.semanticCleanupMaxWords ?? 3,
+    detectMoves: !!opts.detectMoves,
+    moveMinWords: opts.moveMinWords ?? 3,
+    moveThreshold: opts.moveThreshold ?? 0.8,
+    moveIdAttribute: opts.moveIdAttribute ?? 'data-diff-move-id',
+    moveClassName: opts.moveClassName || '',
+    tableDiff: !!opts.tableDiff,
+    listDiff: !!opts.listDiff,
+    structureThreshold: opts.structureThreshold ?? opts.tableThreshold ?? 0.3,
+    insertedRowClassName: opts.insertedRowClassName ?? 'diff-inserted-row',
+    deletedRowClassName: opts.deletedRowClassName ?? 'diff-deleted-row',
+    insertedColumnClassName: opts.insertedColumnClassName ?? 'diff-inserted-column',
+    deletedColumnClassName: opts.deletedColumnClassName ?? 'diff-deleted-column',
+    insertedItemClassName: opts.insertedItemClassName ?? 'diff-inserted-item',
+    deletedItemClassName: opts.deletedItemClassName ?? 'diff-deleted-item',
+    conflictAttribute: opts.conflictAttribute || 'data-diff-conflict',
+    conflictVersionAttribute: opts.conflictVersionAttribute || 'data-diff-version',
+    conflictClassName: opts.conflictClassName ?? 'diff-conflict',
+    patchContext: opts.patchContext ?? 4,
+    patchFuzz: opts.patchFuzz ?? 2
+  };
+  if (!options){
+    defaultConfig = config;
+  }
+  return config;
+}
 
 /**
  * Checks if the current word is the beginning of an atomic tag. An atomic tag is one whose
  * child nodes should not be compared - the entire tag should be treated as one token. This
  * is useful for tags where it does not make sense to insert <ins> and <del> tags.
  *
- * @param {string} word The characters of the current token read so far.
+ * @param {string} word The characters of the current token read so far, including the
+ *    character that ends the tag name.
+ * @param {DiffConfig} config The resolved options holding the atomic tags.
  *
  * @return {string|null} The name of the atomic tag if the word will be an atomic tag,
  *    null otherwise
  */
-function isStartOfAtomicTag(word: string){
-  const result = atomicTagsRegExp.exec(word);
+function isStartOfAtomicTag(word: string, config: DiffConfig){
+  const result = config.atomicTagsRegExp.exec(word);
   return result && result[1];
 }
 
 /**
- * Checks if the current word is the end of an atomic tag (i.e. it has all the characters,
- * except for the end bracket of the closing tag, such as '<iframe></iframe').
+ * Finds the index of the '>' that closes the opening tag at the start of the given token,
+ * skipping over quoted attribute values.
+ *
+ * @param {string} token The token starting with a tag.
+ *
+ * @return {number} The index of the closing bracket, or -1 if the tag is not closed.
+ */
+function findEndOfOpeningTag(token: string): number {
+  const end = readTag(token, 1);
+  return token.charAt(end - 1) === '>' ? end - 1 : -1;
+}
+
+/**
+ * Parses the attributes of the opening tag at the start of the given token. Attributes
+ * without a value are given an empty string as value.
  *
- * @param {string} word The characters of the current token read so far.
- * @param {string} tag The ending tag to look for.
+ * @param {string} token The token starting with a tag.
  *
- * @return {boolean} True if the word is now a complete token (including the end tag),
- *    false otherwise.
+ * @return {Object} A mapping from lowercased attribute names to their values.
  */
-function isEndOfAtomicTag(word: string, tag: string){
-  return word.substring(word.length - tag.length - 2) === ('</' + tag);
+export function parseAttributes(token: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const end = findEndOfOpeningTag(token);
+  const tagName = /^<[^\s/>]+/.exec(token);
+  if (!tagName){
+    return attributes;
+  }
+  const attrRegExp = /^[\s/]*([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/;
+  let rest = token.slice(tagName[0]?.length, end === -1 ? token.length : end);
+  let match = attrRegExp.exec(rest);
+  while (match){
+    const name = match[1]?.toLowerCase();
+    if (name && !(name in attributes)){
+      attributes[name] = match[2] ?? match[3] ?? match[4] ?? '';
+    }
+    rest = rest.slice(match[0]?.length);
+    match = attrRegExp.exec(rest);
+  }
+  return attributes;
+}
+
+/**
+ * Adds attributes to the opening tag at the start of the given token.
+ *
+ * @param {string} token The token starting with a tag.
+ * @param {string} attrs The attributes to add, each preceded by a space.
+ *
+ * @return {string} The token with the attributes added.
+ */
+function addAttributesToTag(token: string, attrs: string): string {
+  let end = findEndOfOpeningTag(token);
+  if (end === -1){
+    return token;
+  }
+  if (token.charAt(end - 1) === '/'){
+    end--;
+  }
+  return token.slice(0, end).replace(/\s*$/, '') + attrs + token.slice(end);
+}
+
+/**
+ * Adds a class to the opening tag at the start of the given token, appending it to the value
+ * of an existing class attribute.
+ *
+ * @param {string} token The token starting with a tag.
+ * @param {string} className The class to add, nothing is added if it is empty.
+ *
+ * @return {string} The token with the class added.
+ */
+function addClassToTag(token: string, className: string): string {
+  if (!className){
+    return token;
+  }
+  const end = findEndOfOpeningTag(token);
+  const openingTag = end === -1 ? token : token.slice(0, end);
+  const classRegExp = /(\sclass\s*=\s*)(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/i;
+  if (!classRegExp.test(openingTag)){
+    return addAttributesToTag(token, renderAttributes([['class', className]]));
+  }
+  return openingTag.replace(classRegExp, function(match: string, prefix: string, dq?: string, sq?: string, uq?: string){
+    // The existing value is already escaped, apart from double quotes in single quoted values.
+    const value = (dq ?? sq ?? uq ?? '').trim().replace(/"/g, '&quot;');
+    return prefix + '"' + (value ? value + ' ' : '') + escapeAttribute(className) + '"';
+  }) + token.slice(openingTag.length);
 }
 
 /**
- * Checks if a tag is a void tag.
+ * Checks if a tag is a void tag, either because it is self-closing or because the element
+ * never has an end tag.
  *
  * @param {string} token The token to check.
  *
  * @return {boolean} True if the token is a void tag, false otherwise.
  */
 function isVoidTag(token: string){
-  return /^\s*<[^>]+\/>\s*$/.test(token);
+  const tag = isTag(token);
+  return !!tag && (/\/>\s*$/.test(token) || voidTags.indexOf(tag) !== -1);
 }
 
 /**
  * Checks if a token can be wrapped inside a tag.
  *
  * @param {string} token The token to check.
+ * @param {DiffConfig} config The resolved options holding the atomic tags.
  *
  * @return {boolean} True if the token can be wrapped inside a tag, false otherwise.
  */
-function isWrappable(token: string): boolean {
+function isWrappable(token: string, config: DiffConfig): boolean {
+  if (/^<!doctype/i.test(token) || isComment(token)){
+    return false;
+  }
   const isImg = /^<img[\s>]/.test(token);
-  return isImg || isntTag(token) || !!isStartOfAtomicTag(token) || isVoidTag(token);
+  return isImg || isntTag(token) || !!isStartOfAtomicTag(token, config) || isVoidTag(token);
 }
 
-type Token = {
+export type Token = {
   str: string;
   key: string;
 };
@@ -128,13 +822,14 @@ type Token = {
  * comparisons and the string is used to recompose the document after the diff is complete.
  *
  * @param {string} currentWord The section of the document to create a token for.
+ * @param {DiffOptions} options (Optional) The options used to create the key.
  *
  * @return {Object} A token object with a string and key property.
  */
-export function createToken(currentWord: string): Token {
+export function createToken(currentWord: string, options?: DiffOptions | null): Token {
   return {
     str: currentWord,
-    key: getKeyForToken(currentWord)
+    key: getKeyForToken(currentWord, resolveOptions(options))
   };
 }
 
@@ -163,10 +858,10 @@ function makeMatch(startInBefore: number, startInAfter: number, length: number,
   return {
     segment: segment,
     length: length,
-    startInBefore: startInBefore + segment.beforeIndex,
-    startInAfter: startInAfter + segment.afterIndex,
-    endInBefore: startInBefore + segment.beforeIndex + length - 1,
-    endInAfter: startInAfter + segment.afterIndex + length - 1,
+    startInBefore: startInBefore + segment.beforeIndex + segment.beforeOffset,
+    startInAfter: startInAfter + segment.afterIndex + segment.afterOffset,
+    endInBefore: startInBefore + segment.beforeIndex + segment.beforeOffset + length - 1,
+    endInAfter: startInAfter + segment.afterIndex + segment.afterOffset + length - 1,
     segmentStartInBefore: startInBefore,
     segmentStartInAfter: startInAfter,
     segmentEndInBefore: startInBefore + length - 1,
@@ -174,286 +869,732 @@ function makeMatch(startInBefore: number, startInAfter: number, length: number,
   };}
 
 /**
- * Tokenizes a string of HTML.
+ * Reads a start or end tag, following the tokenization rules of the HTML standard: the tag
+ * ends at the first '>' that is not part of a quoted attribute value.
  *
- * @param {string} html The string to tokenize.
+ * @param {string} html The HTML containing the tag.
+ * @param {number} nameStart The index of the first character of the tag name.
  *
- * @return {Array.<string>} The list of tokens.
+ * @return {number} The index just past the end of the tag, or the length of the HTML if the
+ *    tag is not closed.
  */
-export function htmlToTokens(html: string): Token[] {
-  let mode = 'char';
-  let currentWord = '';
-  let currentAtomicTag = '';
-  const words = [];
-
-  for (const char of html) {
-    switch (mode){
-      case 'tag': {
-        const atomicTag = isStartOfAtomicTag(currentWord);
-        if (atomicTag){
-          mode = 'atomic_tag';
-          currentAtomicTag = atomicTag;
-          currentWord += char;
-        } else if (isStartOfHTMLComment(currentWord)){
-          mode = 'html_comment';
-          currentWord += char;
-        } else if (isEndOfTag(char)){
-          currentWord += '>';
-          words.push(createToken(currentWord));
-          currentWord = '';
-          if (isWhitespace(char)){
-            mode = 'whitespace';
-          } else {
-            mode = 'char';
-          }
-        } else {
-          currentWord += char;
-        }
-        break;
+function readTag(html: string, nameStart: number): number {
+  let index = nameStart;
+  while (index < html.length && !isTagWhitespace(html.charAt(index)) && html.charAt(index) !== '/' &&
+         html.charAt(index) !== '>'){
+    index++;
+  }
+  while (index < html.length){
+    const char = html.charAt(index);
+    if (char === '>'){
+      return index + 1;
+    }
+    if (isTagWhitespace(char) || char === '/'){
+      index++;
+      continue;
+    }
+
+    // Read the attribute name, a leading '=' is part of the name.
+    index++;
+    while (index < html.length && !/[\t\n\f\r />=]/.test(html.charAt(index))){
+      index++;
+    }
+    let next = index;
+    while (isTagWhitespace(html.charAt(next))){
+      next++;
+    }
+    if (html.charAt(next) !== '='){
+      index = next;
+      continue;
+    }
+
+    // Read the attribute value.
+    index = next + 1;
+    while (isTagWhitespace(html.charAt(index))){
+      index++;
+    }
+    const quote = html.charAt(index);
+    if (quote === '"' || quote === "'"){
+      const close = html.indexOf(quote, index + 1);
+      if (close === -1){
+        return html.length;
+      }
+      index = close + 1;
+    } else {
+      while (index < html.length && !isTagWhitespace(html.charAt(index)) && html.charAt(index) !== '>'){
+        index++;
       }
-      case 'atomic_tag':
-        if (isEndOfTag(char) && isEndOfAtomicTag(currentWord, currentAtomicTag)){
-          currentWord += '>';
-          words.push(createToken(currentWord));
-          currentWord = '';
-          currentAtomicTag = '';
-          mode = 'char';
-        } else {
-          currentWord += char;
-        }
-        break;
-      case 'html_comment':
-        currentWord += char;
-        if (isEndOfHTMLComment(currentWord)){
-          currentWord = '';
-          mode = 'char';
-        }
-        break;
-      case 'char':
-        if (isStartOfTag(char)){
-          if (currentWord){
-            words.push(createToken(currentWord));
-          }
-          currentWord = '<';
-          mode = 'tag';
-        } else if (/\s/.test(char)){
-          if (currentWord){
-            words.push(createToken(currentWord));
-          }
-          currentWord = char;
-          mode = 'whitespace';
-        } else if (/[\w\d#@]/.test(char)){
-          currentWord += char;
-        } else if (/&/.test(char)){
-          if (currentWord){
-            words.push(createToken(currentWord));
-          }
-          currentWord = char;
-        } else {
-          currentWord += char;
-          words.push(createToken(currentWord));
-          currentWord = '';
-        }
-        break;
-      case 'whitespace':
-        if (isStartOfTag(char)){
-          if (currentWord){
-            words.push(createToken(currentWord));
-          }
-          currentWord = '<';
-          mode = 'tag';
-        } else if (isWhitespace(char)){
-          currentWord += char;
-        } else {
-          if (currentWord){
-            words.push(createToken(currentWord));
-          }
-          currentWord = char;
-          mode = 'char';
-        }
-        break;
-      default:
-        throw new Error('Unknown mode ' + mode);
     }
   }
-  if (currentWord){
-    words.push(createToken(currentWord));
-  }
-  return words;
+  return html.length;
 }
 
 /**
- * Creates a key that should be used to match tokens. This is useful, for example, if we want
- * to consider two open tag tokens as equal, even if they don't have the same attributes. We
- * use a key instead of overwriting the token because we may want to render the original string
- * without losing the attributes.
+ * Finds the end of the element started by the tag ending at the given index, taking nested
+ * elements into account.
  *
- * @param {string} token The token to create the key for.
+ * @param {string} html The HTML containing the element.
+ * @param {number} start The index just past the end of the start tag.
+ * @param {string} tagName The lowercased tag name of the element.
+ * @param {DiffConfig} config The resolved options holding the atomic tags.
  *
- * @return {string} The identifying key that should be used to match before and after tokens.
+ * @return {number} The index just past the end tag of the element, or the length of the HTML
+ *    if the element is not closed.
  */
-function getKeyForToken(token: string){
-  // If the token is an image element, grab it's src attribute to include in the key.
-  const img = /^<img.*src=['"]([^"']*)['"].*>$/.exec(token);
-  if (img) {
-    return `<img src="${img[1]}">`;
+function readElement(html: string, start: number, tagName: string, config: DiffConfig): number {
+  const isRawText = rawTextTags.indexOf(tagName) !== -1;
+  let index = start;
+  while (index < html.length){
+    const open = html.indexOf('<', index);
+    if (open === -1){
+      break;
+    }
+    if (html.charAt(open + 1) === '/' &&
+        html.substr(open + 2, tagName.length).toLowerCase() === tagName &&
+        /^[\t\n\f\r />]$/.test(html.charAt(open + 2 + tagName.length))){
+      return readTag(html, open + 2);
+    }
+    // The content of raw text elements isn't markup, so only their end tag is looked for.
+    const markup = isRawText ? null : readMarkup(html, open, config);
+    index = markup ? markup.end : open + 1;
   }
+  return html.length;
+}
 
-  // If the token is an object element, grab it's data attribute to include in the key.
-  const object = /^<object.*data=['"]([^"']*)['"]/.exec(token);
-  if (object) {
-    return `<object src="${object[1]}"></object>`; // is src supposed to be data here?
-  }
+type Markup = {
+  // 'tag' for start and end tags, 'element' for atomic and raw text elements read as a whole.
+  // 'ignored' for markup that is dropped entirely, like '</>'.
+  type: 'tag' | 'element' | 'comment' | 'doctype' | 'cdata' | 'ignored';
+  end: number;
+};
 
-  // Treat the entire anchor as needing to be compared
-  const anchor = /^<a.*href=['"]([^"']*)['"]/.exec(token);
-  if (anchor) {
-    return token;
-  }
+/**
+ * Reads the markup starting with the '<' at the given index, following the tokenization rules
+ * of the HTML standard.
+ *
+ * @param {string} html The HTML containing the markup.
+ * @param {number} index The index of the '<' character.
+ * @param {DiffConfig} config The resolved options holding the atomic tags.
+ *
+ * @return {Markup|null} The type and end of the markup, or null if the '<' is just text.
+ */
+function readMarkup(html: string, index: number, config: DiffConfig): Markup | null {
+  const next = html.charAt(index + 1);
 
-  // If it's a video, math or svg element, the entire token should be compared except the
-  // data-uuid.
-  if(/^<(svg|math|video)[\s>]/.test(token)) {
-    const uuid = token.indexOf('data-uuid="');
-    if (uuid !== -1) {
-      const start = token.slice(0, uuid);
-      const end = token.slice(uuid + 44);
-      return start + end;
-    } else {
-      return token;
+  if (/[a-zA-Z]/.test(next)){
+    const end = readTag(html, index + 1);
+    const tag = html.slice(index, end);
+    const tagName = (/^<([^\t\n\f\r />]+)/.exec(tag)?.[1] ?? '').toLowerCase();
+    if (rawTextTags.indexOf(tagName) !== -1 ||
+        (isStartOfAtomicTag(tag, config) && !/\/>$/.test(tag)) ||
+        (getIgnoredElement(tag, config) && !/\/>$/.test(tag) && voidTags.indexOf(tagName) === -1)){
+      return {type: 'element', end: readElement(html, end, tagName, config)};
     }
+    return {type: isStartOfAtomicTag(tag, config) ? 'element' : 'tag', end: end};
   }
 
-  // If the token is an iframe element, grab it's src attribute to include in it's key.
-  const iframe = /^<iframe.*src=['"]([^"']*)['"].*>/.exec(token);
-  if (iframe) {
-    return `<iframe src="${iframe[1]}"></iframe>`;
+  if (next === '/'){
+    const afterSlash = html.charAt(index + 2);
+    if (/[a-zA-Z]/.test(afterSlash)){
+      return {type: 'tag', end: readTag(html, index + 2)};
+    } else if (afterSlash === '>'){
+      return {type: 'ignored', end: index + 3};
+    } else if (!afterSlash){
+      return null;
+    }
+    return {type: 'comment', end: readUntil(html, index, '>')};
   }
 
-  // If the token is any other element, just grab the tag name.
-  const tagName = /<([^\s>]+)[\s>]/.exec(token);
-  if (tagName){
-    return `<${tagName[1]?.toLowerCase()}>`;
+  if (next === '!'){
+    if (html.substr(index, 4) === '<!--'){
+      if (html.charAt(index + 4) === '>'){
+        return {type: 'comment', end: index + 5};
+      } else if (html.substr(index + 4, 2) === '->'){
+        return {type: 'comment', end: index + 6};
+      }
+      const endOfComment = /--!?>/g;
+      endOfComment.lastIndex = index + 4;
+      const match = endOfComment.exec(html);
+      return {type: 'comment', end: match ? endOfComment.lastIndex : html.length};
+    }
+    if (html.substr(index, 9) === '<![CDATA['){
+      return {type: 'cdata', end: readUntil(html, index + 9, ']]>')};
+    }
+    if (html.substr(index, 9).toLowerCase() === '<!doctype'){
+      return {type: 'doctype', end: readUntil(html, index, '>')};
+    }
+    return {type: 'comment', end: readUntil(html, index, '>')};
   }
 
-  // Otherwise, the token is text, collapse the whitespace.
-  if (token) {
-    return token.replace(/(\s+|&nbsp;|&#160;)/g, ' ');
+  if (next === '?'){
+    return {type: 'comment', end: readUntil(html, index, '>')};
   }
-  return token;
+
+  return null;
+}
+
+function readUntil(html: string, index: number, search: string): number {
+  const found = html.indexOf(search, index);
+  return found === -1 ? html.length : found + search.length;
 }
 
+const characterReferenceRegExp = /^&(?:[a-zA-Z][a-zA-Z0-9]*;|#[0-9]+;|#[xX][0-9a-fA-F]+;)/;
+
 /**
- * Creates a map from token key to an array of indices of locations of the matching token in
- * the list of all tokens.
+ * Tokenizes a string of HTML. The markup is read following the tokenization rules of the
+ * HTML standard: tags end at the first '>' outside of quoted attribute values, the content of
+ * raw text elements like <textarea> and <title> is never read as markup, and doctypes, CDATA
+ * sections and character references are single tokens. Comments are removed, unless the
+ * preserveComments option is set. The whitespace and punctuation left out of the comparison by
+ * the whitespace and ignorePunctuation options join the token before them, and the elements
+ * and the text ignored by the ignoreSelectors and ignorePatterns options are single tokens.
  *
- * @param {Array.<string>} tokens The list of tokens to be mapped.
+ * @param {string} html The string to tokenize.
+ * @param {DiffOptions} options (Optional) The options holding the atomic tags.
  *
- * @return {Object} A mapping that can be used to search for tokens.
+ * @return {Array.<string>} The list of tokens.
  */
-export function createMap(tokens: Token[]): Record<string, number[]> {
-  return tokens.reduce(
-    function(map: Record<string, number[]>, token: Token, index: number) {
-      if (map[token.key]){
-        map[token.key]?.push(index);
-      } else {
-        map[token.key] = [index];
-      }
-      return map;
-    },
-    {}
-  );
+export function htmlToTokens(html: string, options?: DiffOptions | null): Token[] {
+  return readTokens(html, resolveOptions(options), 0, html.length, 0).tokens;
 }
 
 /**
- * Compares two match objects to determine if the second match object comes before or after the
- * first match object. Returns -1 if the m2 should come before m1. Returns 1 if m1 should come
- * before m2. If the two matches criss-cross each other, a null is returned.
+ * The tokens read from a part of a string of HTML, see readTokens.
+ */
+type TokenRun = {
+  tokens: Token[];
+  // The offset of each token in the HTML.
+  starts: number[];
+  // The number of <pre> and <code> elements open before each token.
+  depths: number[];
+  // The offset where the run ends, past the stop offset when a token spans it.
+  end: number;
+  // The number of <pre> and <code> elements open at the end of the run.
+  preformatted: number;
+};
+
+/**
+ * Tokenizes a part of a string of HTML, see htmlToTokens. The tokenizer has no state besides
+ * the number of open <pre> and <code> elements, so tokenizing from the start of a tag gives the
+ * same tokens as tokenizing the whole string.
  *
- * @param {Match} m1 The first match object to compare.
- * @param {Match} m2 The second match object to compare.
+ * @param {string} html The string to tokenize.
+ * @param {DiffConfig} config The resolved options.
+ * @param {number} start The offset where to start, the start of a token.
+ * @param {number} stop The offset where to stop, unless a token spans it.
+ * @param {number} preformatted The number of <pre> and <code> elements open at the start.
  *
- * @return {number} Returns -1 if the m2 should come before m1. Returns 1 if m1 should come
- *    before m2. If the two matches criss-cross each other, 0 is returned.
+ * @return {TokenRun} The tokens and their offsets.
  */
-function compareMatches(m1: Match, m2: Match): number {
-  if (m2.endInBefore < m1.startInBefore && m2.endInAfter < m1.startInAfter){
-    return -1;
-  } else if (m2.startInBefore > m1.endInBefore && m2.startInAfter > m1.endInAfter){
-    return 1;
-  } else {
-    return 0;
+function readTokens(html: string, config: DiffConfig, start: number, stop: number, preformatted: number): TokenRun {
+  const words: Token[] = [];
+  const starts: number[] = [];
+  const depths: number[] = [];
+  // The text read since the last markup or character reference, from textStart to index.
+  let textStart = start;
+  let index = start;
+  // The next '<' and '&' characters, where markup and character references may start.
+  let nextTag = start - 1;
+  let nextReference = start - 1;
+
+  function pushToken(word: string, offset: number, depth: number = preformatted){
+    const key = getKeyForToken(word, config, depth ? 'significant' : config.whitespace);
+    const last = words[words.length - 1];
+    // The whitespace and punctuation left out of the comparison join the token before them, so
+    // their changes are never reported on their own. Punctuation only joins text, to keep the
+    // tags whole.
+    if (!key && last && (isWhitespace(decodeCharacterReferences(word)) || last.str.charAt(0) !== '<')){
+      last.str += word;
+      return;
+    }
+    words.push({str: word, key: key});
+    starts.push(offset);
+    depths.push(depth);
   }
-}
 
-type TreeNode = {
-  value: Match;
-  left: TreeNode | null;
-  right: TreeNode | null;
-};
+  function pushText(){
+    let text = html.slice(textStart, index);
+    // The text matching an ignore pattern is a single token.
+    while (text){
+      const found = findIgnoredText(text, config);
+      const ignored = found?.[0] ?? '';
+      const end = found ? found.index : text.length;
+      segmentText(text.slice(0, end), config).forEach(function(word: string){
+        pushToken(word, textStart);
+        textStart += word.length;
+      });
+      if (ignored){
+        pushToken(ignored, textStart);
+        textStart += ignored.length;
+      }
+      text = found ? text.slice(end + ignored.length) : '';
+    }
+  }
 
-function addToNode(node: TreeNode | null, match: Match): TreeNode {
-  if(node){
-    const position = compareMatches(node.value, match);
-    if (position === -1){
-      return {
-        value: node.value,
-        left: addToNode(node.left, match),
-        right: node.right
-      };
-    } else if (position === 1){
-      return {
-        value: node.value,
-        left: node.left,
-        right: addToNode(node.right, match)
-      };
-    } else {
-      return node;
+  while (index < stop){
+    const char = html.charAt(index);
+
+    if (char === '<'){
+      const markup = readMarkup(html, index, config);
+      if (markup){
+        pushText();
+        const tag = isTag(html.slice(index, markup.end));
+        const depth = preformatted;
+        if (tag === '/pre' || tag === '/code'){
+          preformatted = Math.max(preformatted - 1, 0);
+        }
+        if (markup.type !== 'ignored' && (markup.type !== 'comment' || config.preserveComments)){
+          pushToken(html.slice(index, markup.end), index, depth);
+        }
+        if (tag === 'pre' || tag === 'code'){
+          preformatted++;
+        }
+        index = markup.end;
+        textStart = index;
+        continue;
+      }
+    } else if (char === '&'){
+      const reference = characterReferenceRegExp.exec(html.substr(index, 40))?.[0];
+      if (reference){
+        pushText();
+        pushToken(reference, index);
+        index += reference.length;
+        textStart = index;
+        continue;
+      }
+    }
+
+    // Everything up to the next '<' or '&' is text.
+    if (nextTag <= index){
+      nextTag = html.indexOf('<', index + 1);
+      nextTag = nextTag === -1 || nextTag > stop ? stop : nextTag;
+    }
+    if (nextReference <= index){
+      nextReference = html.indexOf('&', index + 1);
+      nextReference = nextReference === -1 || nextReference > stop ? stop : nextReference;
+    }
+    index = Math.min(nextTag, nextReference);
+  }
+  pushText();
+  return {tokens: words, starts: starts, depths: depths, end: index, preformatted: preformatted};
+}
+
+/**
+ * Finds the first text matching one of the patterns of the ignorePatterns option.
+ *
+ * @param {string} text The text to search.
+ * @param {DiffConfig} config The resolved options holding the patterns.
+ *
+ * @return {RegExpExecArray|null} The first non-empty match, or null if there is none.
+ */
+function findIgnoredText(text: string, config: DiffConfig): RegExpExecArray | null {
+  return config.ignorePatterns.reduce(function(first: RegExpExecArray | null, pattern: RegExp){
+    pattern.lastIndex = 0;
+    let match = pattern.exec(text);
+    while (match && !match[0]){
+      pattern.lastIndex++;
+      match = pattern.exec(text);
+    }
+    return match && (!first || match.index < first.index) ? match : first;
+  }, null);
+}
+
+type TextUnit = {
+  text: string;
+  isWord: boolean;
+  // A complete word is never joined with the word characters around it.
+  isComplete: boolean;
+};
+
+/**
+ * Splits text into the units it is made of: words found by Intl.Segmenter when the 'intl'
+ * word segmenter is used, and grapheme clusters otherwise.
+ *
+ * @param {string} text The text to split.
+ * @param {DiffConfig} config The resolved options holding the word segmenter.
+ *
+ * @return {Array.<TextUnit>} The list of units.
+ */
+function getTextUnits(text: string, config: DiffConfig): TextUnit[] {
+  const units: TextUnit[] = [];
+  if (config.segmenter){
+    for (const segment of config.segmenter.segment(text)){
+      if (segment.isWordLike){
+        units.push({text: segment.segment, isWord: true, isComplete: true});
+      } else {
+        splitGraphemes(segment.segment).forEach(function(grapheme: string){
+          units.push({text: grapheme, isWord: false, isComplete: false});
+        });
+      }
     }
   } else {
-    return {
-      value: match,
-      left: null,
-      right: null
-    };
+    splitGraphemes(text).forEach(function(grapheme: string){
+      const isIdeograph = ideographRegExp.test(grapheme);
+      units.push({text: grapheme, isWord: isIdeograph || isWordChar(grapheme), isComplete: isIdeograph});
+    });
+  }
+  return units;
+}
+
+/**
+ * Splits text into words and runs of whitespace. Any other character ends the word it
+ * follows, or is a word of its own.
+ *
+ * @param {string} text The text to split.
+ * @param {DiffConfig} config The resolved options holding the word segmenter.
+ *
+ * @return {Array.<string>} The list of words.
+ */
+function segmentText(text: string, config: DiffConfig): string[] {
+  const words: string[] = [];
+  let currentWord = '';
+  let isWordComplete = false;
+
+  function pushWord(){
+    if (currentWord){
+      words.push(currentWord);
+      currentWord = '';
+    }
+    isWordComplete = false;
+  }
+
+  getTextUnits(text, config).forEach(function(unit: TextUnit){
+    if (isWhitespace(unit.text)){
+      if (!isWhitespace(currentWord)){
+        pushWord();
+      }
+      currentWord += unit.text;
+    } else if (unit.isWord){
+      if (isWhitespace(currentWord) || isWordComplete || unit.isComplete){
+        pushWord();
+      }
+      currentWord += unit.text;
+      isWordComplete = unit.isComplete;
+    } else {
+      if (isWhitespace(currentWord)){
+        pushWord();
+      }
+      currentWord += unit.text;
+      pushWord();
+    }
+  });
+  pushWord();
+  return words;
+}
+
+const namedCharacterReferences: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00A0', shy: '\u00AD',
+  copy: '\u00A9', reg: '\u00AE', trade: '\u2122', hellip: '\u2026', mdash: '\u2014',
+  ndash: '\u2013', lsquo: '\u2018', rsquo: '\u2019', ldquo: '\u201C', rdquo: '\u201D',
+  laquo: '\u00AB', raquo: '\u00BB', bull: '\u2022', middot: '\u00B7', deg: '\u00B0',
+  sect: '\u00A7', para: '\u00B6', times: '\u00D7', divide: '\u00F7', euro: '\u20AC',
+  pound: '\u00A3', yen: '\u00A5', cent: '\u00A2'
+};
+
+/**
+ * Decodes the numeric character references and the most common named character references
+ * in the given text. Unknown references are left as they are.
+ *
+ * @param {string} text The text to decode.
+ *
+ * @return {string} The decoded text.
+ */
+function decodeCharacterReferences(text: string): string {
+  if (text.indexOf('&') === -1){
+    return text;
   }
+  return text.replace(/&(?:#([0-9]+)|#[xX]([0-9a-fA-F]+)|([a-zA-Z][a-zA-Z0-9]*));/g,
+    function(reference: string, dec?: string, hex?: string, name?: string){
+      if (name){
+        return namedCharacterReferences[name] ?? reference;
+      }
+      const code = dec ? parseInt(dec, 10) : parseInt(hex ?? '', 16);
+      if (!code || code > 0x10FFFF || (code >= 0xD800 && code <= 0xDFFF)){
+        return '\uFFFD';
+      }
+      if (code < 0x10000){
+        return String.fromCharCode(code);
+      }
+      return String.fromCharCode(0xD800 + Math.floor((code - 0x10000) / 0x400), 0xDC00 + (code - 0x10000) % 0x400);
+    });
+}
+
+/**
+ * Returns the media rule of a token starting with the opening tag of a media, see the mediaTags
+ * option.
+ *
+ * @param {string} token The token in question.
+ * @param {DiffConfig} config The resolved options holding the media rules.
+ *
+ * @return {Array|null} The lowercased tag name and the media rule, or null if the token isn't
+ *    a media.
+ */
+function getMediaRule(token: string, config: DiffConfig): [string, MediaRule] | null {
+  const tagName = /^<([a-zA-Z][^\t\n\f\r />]*)/.exec(token)?.[1]?.toLowerCase();
+  const rule = tagName && Object.prototype.hasOwnProperty.call(config.mediaTags, tagName) ?
+    config.mediaTags[tagName] : undefined;
+  return tagName && rule ? [tagName, rule] : null;
+}
+
+/**
+ * Creates the key of a media token from its identity attributes and, for a video or an audio,
+ * the sources it holds.
+ *
+ * @param {string} token The media token.
+ * @param {string} tagName The lowercased tag name of the media.
+ * @param {MediaRule} rule The media rule of the tag.
+ *
+ * @return {string} The key of the token.
+ */
+function getMediaKey(token: string, tagName: string, rule: MediaRule): string {
+  const attributes = parseAttributes(token);
+  const identity = rule.identity.map(function(name: string){
+    return ` ${name}="${attributes[name] ?? ''}"`;
+  }).join('');
+  const sources = token.slice(findEndOfOpeningTag(token) + 1).match(/<source[\s/>][^>]*>/gi) ?? [];
+  return `<${tagName}${identity}>` + sources.map(function(source: string){
+    return `<source src="${parseAttributes(source).src ?? ''}">`;
+  }).join('');
+}
+
+/**
+ * Returns the attributes of a media token compared by the detectMediaChanges option.
+ *
+ * @param {string} token The token to get the attributes of.
+ * @param {DiffConfig} config The resolved options holding the media rules.
+ *
+ * @return {Object|null} The compared attributes, or null if the token is not a media.
+ */
+function getMediaAttributes(token: string, config: DiffConfig): Record<string, string> | null {
+  const media = getMediaRule(token, config);
+  if (!media || getIgnoredElement(token, config)){
+    return null;
+  }
+  const attributes = parseAttributes(token);
+  return media[1].attributes.reduce(function(compared: Record<string, string>, name: string){
+    if (attributes[name] !== undefined){
+      compared[name] = attributes[name] ?? '';
+    }
+    return compared;
+  }, {});
 }
 
-function nodeToArray(node: TreeNode | null): Match[] {
-  function inOrder(n: TreeNode | null, ns: Match[]): Match[] {
-    if (n){
-      inOrder(n.left, ns);
-      ns.push(n.value);
-      inOrder(n.right, ns);
+/**
+ * Creates a key that should be used to match tokens. This is useful, for example, if we want
+ * to consider two open tag tokens as equal, even if they don't have the same attributes. We
+ * use a key instead of overwriting the token because we may want to render the original string
+ * without losing the attributes.
+ *
+ * @param {string} token The token to create the key for.
+ * @param {DiffConfig} config The resolved options holding the atomic tags and how text is
+ *    compared.
+ * @param {WhitespaceMode} whitespace (Optional) How the whitespace of text is compared, the
+ *    whitespace option by default.
+ *
+ * @return {string} The identifying key that should be used to match before and after tokens.
+ */
+function getKeyForToken(token: string, config: DiffConfig, whitespace?: WhitespaceMode): string {
+  const mode = whitespace || config.whitespace;
+  // Most tokens are text without markup, none of the rules below but the last one apply to them.
+  if (token.indexOf('<') === -1 && !config.ignorePatterns.length){
+    return getTextKey(token, config, mode);
+  }
+  // The whitespace that joined a tag is left out of its key.
+  if (mode === 'ignore' && token.charAt(0) === '<'){
+    token = token.replace(/\s+$/, '');
+  }
+
+  // Comments are all considered equal, unless their contents should be compared.
+  if (isComment(token)) {
+    return config.compareComments ? token : '<!---->';
+  }
+
+  // The elements whose content is ignored are all considered equal, by tag name.
+  const ignored = getIgnoredElement(token, config);
+  if (ignored) {
+    return `<${ignored}></${ignored}>`;
+  }
+
+  // The stripped attributes are left out of the tags, one per tag and pass.
+  if (config.stripAttributesRegExp && token.charAt(0) === '<') {
+    let stripped = token.replace(config.stripAttributesRegExp, '$1');
+    while (stripped !== token) {
+      token = stripped;
+      stripped = token.replace(config.stripAttributesRegExp, '$1');
     }
-    return ns;
   }
 
-  return inOrder(node, []);
+  // Media are compared by their identity attributes.
+  const media = getMediaRule(token, config);
+  if (media) {
+    return getMediaKey(token, media[0], media[1]);
+  }
+
+  // Treat the entire anchor as needing to be compared
+  const anchor = /^<a.*href=['"]([^"']*)['"]/.exec(token);
+  if (anchor) {
+    return token;
+  }
+
+  // If it's a math or svg element, the entire token should be compared except the data-uuid.
+  if(/^<(svg|math)[\s>]/.test(token)) {
+    return token.replace(/^(<[^\s>]+[^>]*?)\s+data-uuid=(?:"[^"]*"|'[^']*'|[^\s>]*)/, '$1');
+  }
+
+  // Any other atomic tag or raw text element is compared as a whole, except for the tags
+  // whose content is not rendered anyway.
+  const rawText = /^<([a-zA-Z]+)[\t\n\f\r />]/.exec(token);
+  if ((isStartOfAtomicTag(token, config) || (rawText && rawTextTags.indexOf(rawText[1]!.toLowerCase()) !== -1)) &&
+      !/^<(head|script|style)[\s/>]/i.test(token)) {
+    return token;
+  }
+
+  // A doctype is compared regardless of case and whitespace.
+  if (/^<!doctype/i.test(token)) {
+    return token.toLowerCase().replace(/\s+/g, ' ');
+  }
+
+  // If the token is any other element, just grab the tag name.
+  const tagName = /<([^\s>]+)[\s>]/.exec(token);
+  if (tagName){
+    return `<${tagName[1]?.toLowerCase()}>`;
+  }
+
+  // The text matching an ignore pattern is compared by pattern only.
+  const pattern: RegExp | undefined = config.ignorePatterns.filter(function(ignorePattern: RegExp){
+    ignorePattern.lastIndex = 0;
+    const match = ignorePattern.exec(token);
+    return !!match && match.index === 0 && !!match[0] && !getKeyForToken(token.slice(match[0].length), config, mode);
+  })[0];
+  if (pattern) {
+    return String(pattern);
+  }
+
+  return getTextKey(token, config, mode);
+}
+
+/**
+ * Creates the key of a text token: its character references are decoded, and its whitespace,
+ * case and punctuation are compared as the options say.
+ *
+ * @param {string} token The text token.
+ * @param {DiffConfig} config The resolved options.
+ * @param {WhitespaceMode} mode How the whitespace of the token is compared.
+ *
+ * @return {string} The key of the token.
+ */
+function getTextKey(token: string, config: DiffConfig, mode: WhitespaceMode): string {
+  let key = decodeCharacterReferences(token);
+  if (mode !== 'significant'){
+    key = key.replace(/\s+/g, mode === 'ignore' ? '' : ' ');
+  }
+  if (config.ignoreCase){
+    key = key.toLowerCase();
+  }
+  if (config.ignorePunctuation){
+    key = key.replace(punctuationRegExp, '');
+  }
+  return key;
+}
+
+/**
+ * Creates a map from token key to an array of indices of locations of the matching token in
+ * the list of all tokens.
+ *
+ * @param {Array.<string>} tokens The list of tokens to be mapped.
+ *
+ * @return {Object} A mapping that can be used to search for tokens.
+ */
+export function createMap(tokens: Token[]): Record<string, number[]> {
+  return tokens.reduce(
+    function(map: Record<string, number[]>, token: Token, index: number) {
+      if (map[token.key]){
+        map[token.key]?.push(index);
+      } else {
+        map[token.key] = [index];
+      }
+      return map;
+    },
+    // Without a prototype, so that keys like 'constructor' are not found in it.
+    Object.create(null) as Record<string, number[]>
+  );
 }
 
+/**
+ * Finds the first position in a sorted list of numbers where a value could be inserted
+ * without breaking the order.
+ *
+ * @param {Array.<number>} list The sorted list.
+ * @param {number} value The value to look for.
+ *
+ * @return {number} The index of the first number greater than or equal to the value.
+ */
+function lowerBound(list: number[], value: number): number {
+  let low = 0;
+  let high = list.length;
+  while (low < high){
+    const middle = Math.floor((low + high) / 2);
+    if ((list[middle] ?? 0) < value){
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+// The tokens that appear more than this many times in the after tokens of a segment, like
+// punctuation or common words, are too frequent to start matches.
+const POPULAR_TOKEN_COUNT = 64;
 
 /**
  * Finds and returns the best match between the before and after arrays contained in the segment
  * provided.
  *
  * @param {Segment} segment The segment in which to look for a match.
+ * @param {WorkBudget|null} budget (Optional) The work budget, the best match found so far is
+ *    returned when it runs out.
  *
  * @return {Match} The best match.
  */
-export function findBestMatch(segment: Segment): Match | undefined {
+export function findBestMatch(segment: Segment, budget?: WorkBudget | null): Match | undefined {
+  const result = searchBestMatch(segment, false, budget || null);
+  // If nothing matched but popular tokens were skipped, they may be all that the segment has
+  // in common, so search again letting them start matches.
+  if (result.match || !result.skippedPopular || budget?.exhausted){
+    return result.match;
+  }
+  return searchBestMatch(segment, true, budget || null).match;
+}
+
+/**
+ * Searches a segment for its best match, see findBestMatch.
+ *
+ * @param {Segment} segment The segment in which to look for a match.
+ * @param {boolean} tryPopular Let the popular tokens start matches, at their
+ *    POPULAR_TOKEN_COUNT locations closest to the diagonal of the segment, where the
+ *    unchanged tokens of similar documents are, instead of skipping them.
+ * @param {WorkBudget|null} budget The work budget.
+ *
+ * @return {Object} The best match, if any, and whether popular tokens were skipped.
+ */
+function searchBestMatch(segment: Segment, tryPopular: boolean, budget: WorkBudget | null): {match?: Match, skippedPopular: boolean} {
   const beforeTokens = segment.beforeTokens;
   const afterMap = segment.afterMap;
-  let lastSpace = null;
+  let skippedPopular = false;
+  let skipped = 0;
   let bestMatch: Match | undefined;
+  // reach[offset + k] is the end of the last match found on the diagonal k, the difference
+  // between its after and before indexes. The matches that start before it are part of it,
+  // so they aren't built again, which would make the search quadratic on repetitive content.
+  const reach: number[] = [];
+  const offset = segment.beforeEnd - segment.afterIndex;
 
   // Iterate through the entirety of the beforeTokens to find the best match.
-  for (let beforeIndex = 0; beforeIndex < beforeTokens.length; beforeIndex++){
-    let lookBehind = false;
-
+  for (let beforeIndex = segment.beforeIndex; beforeIndex < segment.beforeEnd; beforeIndex++){
     // If the current best match is longer than the remaining tokens, we can bail because we
     // won't find a better match.
-    const remainingTokens = beforeTokens.length - beforeIndex;
+    const remainingTokens = segment.beforeEnd - beforeIndex;
     if (bestMatch && remainingTokens < bestMatch.length){
       break;
     }
@@ -463,41 +1604,69 @@ export function findBestMatch(segment: Segment): Match | undefined {
     // documents. Instead, if the next token yields a match, we'll see if the whitespace can
     // be included in that match.
     const beforeToken = beforeTokens[beforeIndex];
-    if (beforeToken?.key === ' '){
-      lastSpace = beforeIndex;
+    if (!beforeToken || beforeToken.key === ' '){
+      skipped++;
       continue;
     }
 
-    // Check to see if we just skipped a space, if so, we'll ask getFullMatch to look behind
-    // by one token to see if it can include the whitespace.
-    if (lastSpace === beforeIndex - 1){
-      lookBehind = true;
+    // If the current token is not found in the afterTokens of the segment, it won't match and
+    // we can move on.
+    const afterTokenLocations = afterMap[beforeToken.key] || [];
+    let first = lowerBound(afterTokenLocations, segment.afterIndex);
+    let last = lowerBound(afterTokenLocations, segment.afterEnd);
+    if (first === last){
+      skipped = 0;
+      continue;
     }
 
-    // If the current token is not found in the afterTokens, it won't match and we can move
-    // on.
-    const afterTokenLocations = beforeToken && afterMap[beforeToken.key];
-    if(!afterTokenLocations){
-      continue;
+    // Popular tokens are skipped like whitespace, trying all their locations would make the
+    // search quadratic. When they are all the segment has in common, only their locations
+    // closest to the diagonal are tried.
+    if (last - first > POPULAR_TOKEN_COUNT){
+      if (!tryPopular){
+        skipped++;
+        skippedPopular = true;
+        continue;
+      }
+      const closest = lowerBound(afterTokenLocations, segment.afterIndex + beforeIndex - segment.beforeIndex);
+      first = Math.max(first, Math.min(closest - POPULAR_TOKEN_COUNT / 2, last - POPULAR_TOKEN_COUNT));
+      last = first + POPULAR_TOKEN_COUNT;
     }
 
+    // If we just skipped tokens, we'll ask getFullMatch to look behind to see if it can
+    // include them.
+    const lookBehind = skipped;
+    skipped = 0;
+
     // For each instance of the current token in afterTokens, let's see how big of a match
     // we can build.
-    afterTokenLocations.forEach(function(afterIndex: number){
+    let work = 0;
+    for (let location = first; location < last; location++){
+      const afterIndex = afterTokenLocations[location] ?? 0;
+      if (beforeIndex < (reach[offset + afterIndex - beforeIndex] ?? 0)){
+        work++;
+        continue;
+      }
       // getFullMatch will see how far the current token match will go in both
       // beforeTokens and afterTokens.
       const bestMatchLength = bestMatch ? bestMatch.length : 0;
-      const m = getFullMatch(
-        segment, beforeIndex, afterIndex, bestMatchLength, lookBehind);
+      const m = getFullMatch(segment, beforeIndex, afterIndex, bestMatchLength, lookBehind);
+      work += m ? m.length : 1;
+      if (m){
+        reach[offset + afterIndex - beforeIndex] = segment.beforeIndex + m.segmentEndInBefore + 1;
+      }
 
       // If we got a new best match, we'll save it aside.
       if (m && m.length > bestMatchLength){
         bestMatch = m;
       }
-    });
+    }
+    if (budget && !budget.spend(work)){
+      break;
+    }
   }
 
-  return bestMatch;
+  return {match: bestMatch, skippedPopular: skippedPopular};
 }
 
 /**
@@ -508,19 +1677,19 @@ export function findBestMatch(segment: Segment): Match | undefined {
  * @param {number} beforeStart The offset within beforeTokens to start looking.
  * @param {number} afterStart The offset within afterTokens to start looking.
  * @param {number} minLength The minimum length match that must be found.
- * @param {boolean} lookBehind If true, attempt to match a whitespace token just before the
- *    beforeStart and afterStart tokens.
+ * @param {number} lookBehind The number of skipped tokens just before the beforeStart token
+ *    that may be included in the match if they also precede the afterStart token.
  *
  * @return {Match} The full match.
  */
-function getFullMatch(segment: Segment, beforeStart: number, afterStart: number, minLength: number, lookBehind: boolean): Match | null {
+function getFullMatch(segment: Segment, beforeStart: number, afterStart: number, minLength: number, lookBehind: number): Match | null {
   const beforeTokens = segment.beforeTokens;
   const afterTokens = segment.afterTokens;
 
-  // If we already have a match that goes to the end of the document, no need to keep looking.
+  // If we already have a match that goes to the end of the segment, no need to keep looking.
   const minBeforeIndex = beforeStart + minLength;
   const minAfterIndex = afterStart + minLength;
-  if(minBeforeIndex >= beforeTokens.length || minAfterIndex >= afterTokens.length){
+  if(minBeforeIndex >= segment.beforeEnd || minAfterIndex >= segment.afterEnd){
     return null;
   }
 
@@ -535,14 +1704,13 @@ function getFullMatch(segment: Segment, beforeStart: number, afterStart: number,
     }
   }
 
-  // Extend the current match as far foward as it can go, without overflowing beforeTokens or
-  // afterTokens.
+  // Extend the current match as far foward as it can go, without overflowing the segment.
   let searching = true;
   let currentLength = 1;
   let beforeIndex = beforeStart + currentLength;
   let afterIndex = afterStart + currentLength;
 
-  while (searching && beforeIndex < beforeTokens.length && afterIndex < afterTokens.length){
+  while (searching && beforeIndex < segment.beforeEnd && afterIndex < segment.afterEnd){
     const beforeWord = beforeTokens[beforeIndex]?.key;
     const afterWord = afterTokens[afterIndex]?.key;
     if (beforeWord === afterWord){
@@ -555,27 +1723,33 @@ function getFullMatch(segment: Segment, beforeStart: number, afterStart: number,
   }
 
   // If we've been asked to look behind, it's because both beforeTokens and afterTokens may
-  // have a whitespace token just behind the current match that was previously ignored. If so,
-  // we'll expand the current match to include it.
-  if (lookBehind && beforeStart > 0 && afterStart > 0){
-    const prevBeforeKey = beforeTokens[beforeStart - 1]?.key;
-    const prevAfterKey = afterTokens[afterStart - 1]?.key;
-    if (prevBeforeKey === ' ' && prevAfterKey === ' '){
-      beforeStart--;
-      afterStart--;
-      currentLength++;
-    }
+  // have whitespace or popular tokens just behind the current match that were previously
+  // ignored. If so, we'll expand the current match to include them.
+  while (lookBehind > 0 && beforeStart > segment.beforeIndex && afterStart > segment.afterIndex &&
+         beforeTokens[beforeStart - 1]?.key === afterTokens[afterStart - 1]?.key){
+    beforeStart--;
+    afterStart--;
+    currentLength++;
+    lookBehind--;
   }
 
-  return makeMatch(beforeStart, afterStart, currentLength, segment);
+  return makeMatch(beforeStart - segment.beforeIndex, afterStart - segment.afterIndex, currentLength, segment);
 }
 type Segment = {
   beforeTokens: Token[];
   afterTokens: Token[];
-  beforeMap: Record<string, number[]>;
+  // Only built by createSegment, the search only looks up the after tokens.
+  beforeMap?: Record<string, number[]>;
   afterMap: Record<string, number[]>;
+  // The range of the lists of tokens covered by the segment.
   beforeIndex: number;
   afterIndex: number;
+  beforeEnd: number;
+  afterEnd: number;
+  // The positions of the lists of tokens within the documents, when they are parts of them.
+  // The matches are reported at the positions within the documents.
+  beforeOffset: number;
+  afterOffset: number;
 };
 /**
  * Creates segment objects from the original document that can be used to restrict the area that
@@ -584,18 +1758,64 @@ type Segment = {
  * @param {Array.<Token>} beforeTokens Tokens from the before document.
  * @param {Array.<Token>} afterTokens Tokens from the after document.
  * @param {number} beforeIndex The index within the before document where this segment begins.
- * @param {number} afterIndex The index within the after document where this segment behinds.
+ * @param {number} afterIndex The index within the after document where this segment begins.
  *
  * @return {Segment} The segment object.
  */
 export function createSegment(beforeTokens: Token[], afterTokens: Token[], beforeIndex: number, afterIndex: number): Segment {
+  const segment = createDocumentSegment(beforeTokens, afterTokens);
+  segment.beforeMap = createMap(beforeTokens);
+  segment.beforeOffset = beforeIndex;
+  segment.afterOffset = afterIndex;
+  return segment;
+}
+
+/**
+ * Creates a segment covering the whole before and after lists of tokens. Unlike the segments
+ * created by createSegment, its parts are ranges of the same lists, see createSubSegment, so the
+ * lists are never copied.
+ *
+ * @param {Array.<Token>} beforeTokens The before list of tokens.
+ * @param {Array.<Token>} afterTokens The after list of tokens.
+ *
+ * @return {Segment} The segment object.
+ */
+function createDocumentSegment(beforeTokens: Token[], afterTokens: Token[]): Segment {
   return {
     beforeTokens: beforeTokens,
     afterTokens: afterTokens,
-    beforeMap: createMap(beforeTokens),
     afterMap: createMap(afterTokens),
+    beforeIndex: 0,
+    afterIndex: 0,
+    beforeEnd: beforeTokens.length,
+    afterEnd: afterTokens.length,
+    beforeOffset: 0,
+    afterOffset: 0
+  };
+}
+
+/**
+ * Creates a segment for a part of another segment, sharing its lists of tokens and map.
+ *
+ * @param {Segment} segment The segment to take a part of.
+ * @param {number} beforeIndex The index within the before document where the part begins.
+ * @param {number} beforeEnd The index within the before document where the part ends, excluded.
+ * @param {number} afterIndex The index within the after document where the part begins.
+ * @param {number} afterEnd The index within the after document where the part ends, excluded.
+ *
+ * @return {Segment} The segment object.
+ */
+function createSubSegment(segment: Segment, beforeIndex: number, beforeEnd: number, afterIndex: number, afterEnd: number): Segment {
+  return {
+    beforeTokens: segment.beforeTokens,
+    afterTokens: segment.afterTokens,
+    afterMap: segment.afterMap,
     beforeIndex: beforeIndex,
-    afterIndex: afterIndex
+    afterIndex: afterIndex,
+    beforeEnd: beforeEnd,
+    afterEnd: afterEnd,
+    beforeOffset: segment.beforeOffset,
+    afterOffset: segment.afterOffset
   };
 }
 
@@ -604,399 +1824,3567 @@ export function createSegment(beforeTokens: Token[], afterTokens: Token[], befor
  * tokens.
  *
  * @param {Segment} The segment that should be searched for matching blocks.
+ * @param {WorkBudget|null} budget (Optional) The work budget. Once it runs out, the parts of
+ *    the segment not searched yet are left unmatched.
  *
  * @return {Array.<Match>} The list of matching blocks in this range.
  */
-export function findMatchingBlocks(segment: Segment): Match[] {
-  // Create a binary search tree to hold the matches we find in order.
-  let matches: TreeNode | null = null;
-  let match: Match | undefined;
-  const segments = [segment];
-  let currSegment: Segment | undefined;
+export function findMatchingBlocks(segment: Segment, budget?: WorkBudget | null): Match[] {
+  const matches: Match[] = [];
+  // The segments left to search and the matches found, in reverse order, so that the matches
+  // are popped in order, once the segments that precede them have been searched.
+  const stack: Array<Segment | Match> = [segment];
+  let item: Segment | Match | undefined;
 
   // Each time the best match is found in a segment, zero, one or two new segments may be
   // created from the parts of the original segment not included in the match. We will
   // continue to iterate until all segments have been processed.
-  while(segments.length){
-    currSegment = segments.pop();
-    if (currSegment) {
-      match = findBestMatch(currSegment);
-
-      if (match && match.length){
-        // If there's an unmatched area at the start of the segment, create a new segment
-        // from that area and throw it into the segments array to get processed.
-        if (match.segmentStartInBefore > 0 && match.segmentStartInAfter > 0){
-          const leftBeforeTokens = segment.beforeTokens.slice(
-            0, match.segmentStartInBefore);
-          const leftAfterTokens = currSegment.afterTokens.slice(0, match.segmentStartInAfter);
-
-          segments.push(createSegment(leftBeforeTokens, leftAfterTokens,
-                                      currSegment.beforeIndex, currSegment.afterIndex));
-        }
+  while ((item = stack.pop())){
+    if ('segment' in item){
+      matches.push(item);
+      continue;
+    }
+    const currSegment = item;
+    const match = budget?.exhausted ? undefined : findBestMatch(currSegment, budget);
 
-        // If there's an unmatched area at the end of the segment, create a new segment from that
-        // area and throw it into the segments array to get processed.
-        const rightBeforeTokens = currSegment.beforeTokens.slice(match.segmentEndInBefore + 1);
-        const rightAfterTokens = currSegment.afterTokens.slice(match.segmentEndInAfter + 1);
-        const rightBeforeIndex = currSegment.beforeIndex + match.segmentEndInBefore + 1;
-        const rightAfterIndex = currSegment.afterIndex + match.segmentEndInAfter + 1;
+    if (match && match.length){
+      // If there's an unmatched area at the end of the segment, create a new segment from that
+      // area and throw it onto the stack to get processed.
+      const endInBefore = currSegment.beforeIndex + match.segmentEndInBefore + 1;
+      const endInAfter = currSegment.afterIndex + match.segmentEndInAfter + 1;
+      if (endInBefore < currSegment.beforeEnd && endInAfter < currSegment.afterEnd){
+        stack.push(createSubSegment(currSegment, endInBefore, currSegment.beforeEnd,
+                                    endInAfter, currSegment.afterEnd));
+      }
 
-        if (rightBeforeTokens.length && rightAfterTokens.length){
-          segments.push(createSegment(rightBeforeTokens, rightAfterTokens,
-                                      rightBeforeIndex, rightAfterIndex));
-        }
+      stack.push(match);
 
-        matches = addToNode(matches, match);
+      // If there's an unmatched area at the start of the segment, create a new segment
+      // from that area and throw it onto the stack to get processed first.
+      if (match.segmentStartInBefore > 0 && match.segmentStartInAfter > 0){
+        stack.push(createSubSegment(currSegment, currSegment.beforeIndex,
+                                    currSegment.beforeIndex + match.segmentStartInBefore,
+                                    currSegment.afterIndex,
+                                    currSegment.afterIndex + match.segmentStartInAfter));
       }
     }
   }
 
-  return nodeToArray(matches);
+  return matches;
 }
 
-type Operation = {
-  action: 'equal' | 'insert' | 'delete' | 'replace';
-  startInBefore: number;
-  endInBefore?: number;
-  startInAfter: number;
-  endInAfter?: number;
-};
 /**
- * Gets a list of operations required to transform the before list of tokens into the
- * after list of tokens. An operation describes whether a particular list of consecutive
- * tokens are equal, replaced, inserted, or deleted.
+ * Checks if a token is the tag of a block element or a line break, where blocks of content
+ * start and end.
  *
- * @param {Array.<string>} beforeTokens The before list of tokens.
- * @param {Array.<string>} afterTokens The after list of tokens.
+ * @param {Token} token The token to check.
  *
- * @return {Array.<Object>} The list of operations to transform the before list of
- *      tokens into the after list of tokens, where each operation has the following
- *      keys:
- *      - {string} action One of {'replace', 'insert', 'delete', 'equal'}.
- *      - {number} startInBefore The beginning of the range in the list of before tokens.
- *      - {number} endInBefore The end of the range in the list of before tokens.
- *      - {number} startInAfter The beginning of the range in the list of after tokens.
- *      - {number} endInAfter The end of the range in the list of after tokens.
+ * @return {boolean} True if the token is a block boundary, false otherwise.
  */
-export function calculateOperations(beforeTokens: Token[], afterTokens: Token[]): Operation[] {
-  if (!beforeTokens) throw new Error('Missing beforeTokens');
-  if (!afterTokens) throw new Error('Missing afterTokens');
-
-  let positionInBefore = 0;
-  let positionInAfter = 0;
-  const operations: Operation[] = [];
-  const segment = createSegment(beforeTokens, afterTokens, 0, 0);
-  const matches = findMatchingBlocks(segment);
-  matches.push(makeMatch(beforeTokens.length, afterTokens.length, 0, segment));
+function isBlockBoundary(token: Token | undefined): boolean {
+  // Most tokens are words, which can't be tags.
+  if (!token || token.str.indexOf('<') === -1){
+    return false;
+  }
+  const tagName = isTag(token.str);
+  return !!tagName && (tagName === 'br' || tagName === 'hr' || blockTags.indexOf(tagName.replace('/', '')) !== -1);
+}
 
-  matches.forEach(match => {
-    let actionUpToMatchPositions: 'equal' | 'insert' | 'delete' | 'replace' | 'none'  = 'none';
-    if (positionInBefore === match.startInBefore){
-      if (positionInAfter !== match.startInAfter){
-        actionUpToMatchPositions = 'insert';
+/**
+ * Splits a range of a list of tokens into blocks: each tag of a block element or line break is
+ * a block, and so is each run of tokens between them.
+ *
+ * @param {Array.<Token>} tokens The list of tokens.
+ * @param {number} start The start of the range.
+ * @param {number} end The end of the range, excluded.
+ *
+ * @return {Array.<number>} The index of the first token of each block, followed by the end of
+ *    the range.
+ */
+function splitBlocks(tokens: Token[], start: number, end: number): number[] {
+  const starts = [start];
+  for (let index = start; index < end; index++){
+    if (isBlockBoundary(tokens[index])){
+      if (starts[starts.length - 1] !== index){
+        starts.push(index);
       }
-    } else {
-      actionUpToMatchPositions = 'delete';
-      if (positionInAfter !== match.startInAfter){
-        actionUpToMatchPositions = 'replace';
+      if (index + 1 < end){
+        starts.push(index + 1);
       }
     }
-    if (actionUpToMatchPositions !== 'none'){
-      operations.push({
-        action: actionUpToMatchPositions,
-        startInBefore: positionInBefore,
-        endInBefore: (actionUpToMatchPositions !== 'insert' ?
-          match.startInBefore - 1 : undefined),
-        startInAfter: positionInAfter,
-        endInAfter: (actionUpToMatchPositions !== 'delete' ?
-          match.startInAfter - 1 : undefined)
+  }
+  starts.push(end);
+  return starts;
+}
+
+/**
+ * Finds the matching blocks of a segment cheaply, once the work budget is exhausted: the common
+ * start and end of the segment, and the identical blocks of tokens around the blocks that appear
+ * only once in both documents, see splitBlocks.
+ *
+ * @param {Segment} segment The segment to search.
+ * @param {WorkBudget} budget The exhausted work budget.
+ *
+ * @return {Array.<Match>} The list of matching blocks in this range.
+ */
+function findCoarseMatches(segment: Segment, budget: WorkBudget): Match[] {
+  const beforeTokens = segment.beforeTokens;
+  const afterTokens = segment.afterTokens;
+  let prefix = 0;
+  while (segment.beforeIndex + prefix < segment.beforeEnd && segment.afterIndex + prefix < segment.afterEnd &&
+         beforeTokens[segment.beforeIndex + prefix]?.key === afterTokens[segment.afterIndex + prefix]?.key){
+    prefix++;
+  }
+  let suffix = 0;
+  while (segment.beforeEnd - suffix > segment.beforeIndex + prefix &&
+         segment.afterEnd - suffix > segment.afterIndex + prefix &&
+         beforeTokens[segment.beforeEnd - suffix - 1]?.key === afterTokens[segment.afterEnd - suffix - 1]?.key){
+    suffix++;
+  }
+
+  const matches: Match[] = [];
+  if (prefix){
+    matches.push(makeMatch(0, 0, prefix, segment));
+  }
+  const beforeBlocks = splitBlocks(beforeTokens, segment.beforeIndex + prefix, segment.beforeEnd - suffix);
+  const afterBlocks = splitBlocks(afterTokens, segment.afterIndex + prefix, segment.afterEnd - suffix);
+  function getBlockKeys(tokens: Token[], starts: number[]): string[] {
+    return starts.slice(1).map(function(end: number, index: number){
+      return tokens.slice(starts[index], end).map(token => token.key).join('\u0000');
+    });
+  }
+  patienceBlocks(getBlockKeys(beforeTokens, beforeBlocks), getBlockKeys(afterTokens, afterBlocks), budget)
+    .forEach(function(block: Block){
+      const beforeStart = beforeBlocks[block.startInBefore] ?? 0;
+      const afterStart = afterBlocks[block.startInAfter] ?? 0;
+      const length = (beforeBlocks[block.startInBefore + block.length] ?? 0) - beforeStart;
+      matches.push(makeMatch(beforeStart - segment.beforeIndex, afterStart - segment.afterIndex,
+                             length, segment));
+    });
+  if (suffix){
+    matches.push(makeMatch(segment.beforeEnd - suffix - segment.beforeIndex,
+                           segment.afterEnd - suffix - segment.afterIndex, suffix, segment));
+  }
+  return matches;
+}
+
+/**
+ * Completes the matching blocks found before the work budget ran out with the coarse matches
+ * of the ranges between them, see findCoarseMatches.
+ *
+ * @param {Array.<Match>} matches The matching blocks found, in order.
+ * @param {Segment} segment The segment that was searched.
+ * @param {WorkBudget} budget The exhausted work budget.
+ *
+ * @return {Array.<Match>} The completed list of matching blocks.
+ */
+function addCoarseMatches(matches: Match[], segment: Segment, budget: WorkBudget): Match[] {
+  const result: Match[] = [];
+  let beforeIndex = segment.beforeIndex;
+  let afterIndex = segment.afterIndex;
+  const end = makeMatch(segment.beforeEnd - segment.beforeIndex, segment.afterEnd - segment.afterIndex, 0, segment);
+  matches.concat([end]).forEach(function(match: Match){
+    if (match.startInBefore > beforeIndex && match.startInAfter > afterIndex){
+      const gap = createSubSegment(segment, beforeIndex, match.startInBefore, afterIndex, match.startInAfter);
+      findCoarseMatches(gap, budget).forEach(function(coarseMatch: Match){
+        result.push(coarseMatch);
       });
     }
-    if (match.length !== 0){
-      operations.push({
+    if (match.length){
+      result.push(match);
+    }
+    beforeIndex = match.endInBefore + 1;
+    afterIndex = match.endInAfter + 1;
+  });
+  return result;
+}
+
+/**
+ * Finds all the matching blocks within the given segment with the algorithm chosen by the
+ * options. If the work budget of the options runs out, the parts of the segment left are
+ * matched coarsely, see findCoarseMatches.
+ *
+ * @param {Segment} segment The segment that should be searched for matching blocks.
+ * @param {DiffConfig} config The resolved options.
+ * @param {WorkBudget} budget The work budget of the comparison, null if it is unlimited.
+ *
+ * @return {Array.<Match>} The list of matching blocks in this range.
+ */
+function findMatches(segment: Segment, config: DiffConfig, budget: WorkBudget | null): Match[] {
+  let matches: Match[];
+  if (config.algorithm === 'longest-match'){
+    matches = findMatchingBlocks(segment, budget);
+  } else {
+    const beforeKeys = segment.beforeTokens.slice(segment.beforeIndex, segment.beforeEnd).map(token => token.key);
+    const afterKeys = segment.afterTokens.slice(segment.afterIndex, segment.afterEnd).map(token => token.key);
+    const blocks = config.algorithm === 'myers' ?
+      myersBlocks(beforeKeys, afterKeys, budget) : patienceBlocks(beforeKeys, afterKeys, budget);
+    matches = blocks.map(function(block: Block){
+      return makeMatch(block.startInBefore, block.startInAfter, block.length, segment);
+    });
+  }
+  return budget && budget.exhausted ? addCoarseMatches(matches, segment, budget) : matches;
+}
+
+export type Operation = {
+  action: 'equal' | 'insert' | 'delete' | 'replace' | 'modify' | 'move' | 'format';
+  startInBefore: number;
+  endInBefore?: number;
+  startInAfter: number;
+  endInAfter?: number;
+  oldAttributes?: Record<string, string>;
+  newAttributes?: Record<string, string>;
+  // The character level changes of a 'replace' operation refined by the characterDiff option.
+  characters?: CharacterOperation[];
+  // The id shared by the origin and the destination of moved content, see the detectMoves
+  // option. The origin is the 'move' operation covering before tokens only, like a deletion,
+  // and the destination the one covering after tokens only, like an insertion.
+  moveId?: number;
+  // Set on the 'insert' and 'delete' operations covering a whole table row, a whole cell of
+  // an inserted or deleted column or a whole list item, see the tableDiff and listDiff options.
+  part?: StructurePart;
+  // Deprecated, the former name of part, only set on table rows and columns.
+  tablePart?: 'row' | 'column';
+  // The formatting changes of a 'format' operation, see the detectFormatChanges option: the
+  // names of the added formatting tags prefixed with a '+' and of the removed ones prefixed
+  // with a '-'.
+  formatChanges?: string[];
+};
+
+/**
+ * The parts of tables and lists inserted or deleted as a whole.
+ */
+export type StructurePart = 'row' | 'column' | 'item';
+
+export type CharacterOperation = {
+  action: 'equal' | 'insert' | 'delete' | 'replace';
+  before: string;
+  after: string;
+};
+
+/**
+ * Returns the attributes of a tag token that should be compared to detect attribute changes.
+ *
+ * @param {string} token The token to get the attributes of.
+ * @param {DiffConfig} config The resolved options holding the compared and ignored attributes.
+ *
+ * @return {Object|null} The compared attributes, or null if the token is not an opening tag or
+ *    opens an ignored element.
+ */
+function getComparedAttributes(token: string, config: DiffConfig): Record<string, string> | null {
+  if (!/^<[^\s/!>]/.test(token) || getIgnoredElement(token, config)){
+    return null;
+  }
+  const attributes = parseAttributes(token);
+  return Object.keys(attributes).reduce(function(compared: Record<string, string>, name: string){
+    if (config.ignoreAttributes.indexOf(name) === -1 && config.stripAttributes.indexOf(name) === -1 &&
+        (!config.compareAttributes || config.compareAttributes.indexOf(name) !== -1)){
+      compared[name] = attributes[name] ?? '';
+    }
+    return compared;
+  }, {});
+}
+
+function isSameAttributes(a: Record<string, string>, b: Record<string, string>): boolean {
+  const aNames = Object.keys(a);
+  return aNames.length === Object.keys(b).length && aNames.every(name => a[name] === b[name]);
+}
+
+/**
+ * Splits the equal operations around the tag tokens whose attributes differ between the
+ * before and after tokens, and reports those tags as 'modify' operations.
+ *
+ * @param {Array.<Operation>} operations The list of operations to check.
+ * @param {Array.<Token>} beforeTokens The before list of tokens.
+ * @param {Array.<Token>} afterTokens The after list of tokens.
+ * @param {function(string): Object} getAttributes Returns the compared attributes of a token,
+ *    or null if the token isn't compared, see getComparedAttributes and getMediaAttributes.
+ *
+ * @return {Array.<Operation>} The list of operations including the 'modify' operations.
+ */
+function findAttributeChanges(operations: Operation[], beforeTokens: Token[], afterTokens: Token[], getAttributes: (token: string) => Record<string, string> | null): Operation[] {
+  const result: Operation[] = [];
+  operations.forEach(function(op: Operation){
+    if (op.action !== 'equal' || op.endInBefore === undefined || op.endInAfter === undefined){
+      result.push(op);
+      return;
+    }
+    const offset = op.startInAfter - op.startInBefore;
+    let start = op.startInBefore;
+    for (let index = op.startInBefore; index <= op.endInBefore; index++){
+      const oldAttributes = getAttributes(beforeTokens[index]?.str ?? '');
+      const newAttributes = getAttributes(afterTokens[index + offset]?.str ?? '');
+      if (oldAttributes && newAttributes && !isSameAttributes(oldAttributes, newAttributes)){
+        if (index > start){
+          result.push({
+            action: 'equal',
+            startInBefore: start,
+            endInBefore: index - 1,
+            startInAfter: start + offset,
+            endInAfter: index - 1 + offset
+          });
+        }
+        result.push({
+          action: 'modify',
+          startInBefore: index,
+          endInBefore: index,
+          startInAfter: index + offset,
+          endInAfter: index + offset,
+          oldAttributes: oldAttributes,
+          newAttributes: newAttributes
+        });
+        start = index + 1;
+      }
+    }
+    if (start <= op.endInBefore){
+      result.push({
         action: 'equal',
-        startInBefore: match.startInBefore,
-        endInBefore: match.endInBefore,
-        startInAfter: match.startInAfter,
-        endInAfter: match.endInAfter
+        startInBefore: start,
+        endInBefore: op.endInBefore,
+        startInAfter: start + offset,
+        endInAfter: op.endInAfter
       });
     }
-    positionInBefore = match.endInBefore + 1;
-    positionInAfter = match.endInAfter + 1;
   });
+  return result;
+}
+
+/**
+ * Returns the inline formatting tags, see the formatTags option, applying to each token, e.g.
+ * ['em', 'strong'] for the words of '<strong><em>bold italic</em></strong>'. An atomic
+ * formatting element like a link is also formatted by its own tag. Tags and comments are given
+ * no formatting.
+ *
+ * @param {Array.<Token>} tokens The list of tokens.
+ * @param {DiffConfig} config The resolved options holding the formatting tags.
+ *
+ * @return {Array.<Array.<string>>} The sorted names of the formatting tags of each token.
+ */
+function getFormatting(tokens: Token[], config: DiffConfig): string[][] {
+  const open: string[] = [];
+  return tokens.map(function(token: Token){
+    const tag = isTag(token.str);
+    if (tag || isComment(token.str)){
+      const name = tag ? tag.replace(/^\//, '') : '';
+      if (config.formatTags.indexOf(name) !== -1 && !isVoidTag(token.str)){
+        if (name !== tag){
+          const index = open.lastIndexOf(name);
+          if (index !== -1){
+            open.splice(index, 1);
+          }
+        } else {
+          open.push(name);
+        }
+      }
+      return [];
+    }
+    const atomicTag = isStartOfAtomicTag(token.str, config)?.toLowerCase();
+    const names = atomicTag && config.formatTags.indexOf(atomicTag) !== -1 ? open.concat([atomicTag]) : open;
+    return names.filter((name, index) => names.indexOf(name) === index).sort();
+  });
+}
+
+/**
+ * Lists the differences between the formatting of two tokens, see getFormatting.
+ *
+ * @param {Array.<string>} before The formatting tags of the before token.
+ * @param {Array.<string>} after The formatting tags of the after token.
+ *
+ * @return {Array.<string>} The added tags prefixed with a '+', then the removed tags prefixed
+ *    with a '-'.
+ */
+function getFormatChanges(before: string[], after: string[]): string[] {
+  return after.filter(name => before.indexOf(name) === -1).map(name => '+' + name)
+    .concat(before.filter(name => after.indexOf(name) === -1).map(name => '-' + name));
+}
+
+/**
+ * Returns the text of a list of tokens with its tags left out, including the tags of the
+ * atomic elements, and its whitespace collapsed.
+ *
+ * @param {Array.<Token>} tokens The list of tokens.
+ *
+ * @return {string} The text.
+ */
+function getPlainText(tokens: Token[]): string {
+  return tokens.map(function(token: Token){
+    return isTag(token.str) || isComment(token.str) ? '' : token.str.replace(/<[^>]*>/g, '');
+  }).join('').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Checks whether a token is text or formatting, i.e. not a tag other than a formatting tag.
+ *
+ * @param {Token} token The token to check.
+ * @param {DiffConfig} config The resolved options holding the formatting tags.
+ * @param {boolean} tagsOnly Whether only formatting tags are accepted.
+ *
+ * @return {boolean} True if the token is accepted, false otherwise.
+ */
+function isFormatToken(token: Token, config: DiffConfig, tagsOnly: boolean): boolean {
+  const tag = isTag(token.str);
+  if (!tag){
+    const atomicTag = isStartOfAtomicTag(token.str, config);
+    return !tagsOnly && !isComment(token.str) &&
+      (!atomicTag || config.formatTags.indexOf(atomicTag.toLowerCase()) !== -1);
+  }
+  return config.formatTags.indexOf(tag.replace(/^\//, '')) !== -1;
+}
+
+/**
+ * Reports the unchanged text whose inline formatting changed as 'format' operations: the runs
+ * of equal words whose formatting tags differ are split out of the equal operations, the
+ * replacements that only add or remove formatting around the same text, like a link added
+ * around a sentence, are turned into 'format' operations, and the inserted and deleted
+ * formatting tags next to a 'format' operation are merged into it.
+ *
+ * @param {Array.<Operation>} operations The list of operations.
+ * @param {Array.<Token>} beforeTokens The before list of tokens.
+ * @param {Array.<Token>} afterTokens The after list of tokens.
+ * @param {DiffConfig} config The resolved options holding the formatting tags.
+ *
+ * @return {Array.<Operation>} The list of operations including the 'format' operations.
+ */
+function findFormatChanges(operations: Operation[], beforeTokens: Token[], afterTokens: Token[], config: DiffConfig): Operation[] {
+  const beforeFormatting = getFormatting(beforeTokens, config);
+  const afterFormatting = getFormatting(afterTokens, config);
+  const result: Operation[] = [];
+
+  function push(op: Operation){
+    const last = result[result.length - 1];
+    const isTagChange = function(change: Operation){
+      return (change.action === 'insert' || change.action === 'delete' || change.action === 'replace') &&
+        getOperationTokens(change, beforeTokens, 'before').every(token => isFormatToken(token, config, true)) &&
+        getOperationTokens(change, afterTokens, 'after').every(token => isFormatToken(token, config, true));
+    };
+    if (last && (last.action === 'format' && isTagChange(op) || op.action === 'format' && isTagChange(last))){
+      result[result.length - 1] = {
+        action: 'format',
+        startInBefore: last.startInBefore,
+        endInBefore: op.endInBefore ?? last.endInBefore,
+        startInAfter: last.startInAfter,
+        endInAfter: op.endInAfter ?? last.endInAfter,
+        formatChanges: last.formatChanges ?? op.formatChanges
+      };
+    } else {
+      result.push(op);
+    }
+  }
+
+  operations.forEach(function(op: Operation){
+    if (op.action === 'replace'){
+      const before = getOperationTokens(op, beforeTokens, 'before');
+      const after = getOperationTokens(op, afterTokens, 'after');
+      const text = getPlainText(before);
+      const collect = function(formatting: string[][], start: number, count: number){
+        return formatting.slice(start, start + count).reduce(function(names: string[], tokenNames: string[]){
+          return names.concat(tokenNames.filter(name => names.indexOf(name) === -1));
+        }, []).sort();
+      };
+      const changes = getFormatChanges(collect(beforeFormatting, op.startInBefore, before.length),
+                                       collect(afterFormatting, op.startInAfter, after.length));
+      if (text && changes.length && text === getPlainText(after) &&
+          before.concat(after).every(token => isFormatToken(token, config, false))){
+        push({
+          action: 'format',
+          startInBefore: op.startInBefore,
+          endInBefore: op.endInBefore,
+          startInAfter: op.startInAfter,
+          endInAfter: op.endInAfter,
+          formatChanges: changes
+        });
+        return;
+      }
+    }
+    if (op.action !== 'equal' || op.endInBefore === undefined || op.endInAfter === undefined){
+      push(op);
+      return;
+    }
+
+    // Find the runs of words with the same formatting changes, ignoring the tags and the
+    // whitespace between them.
+    const offset = op.startInAfter - op.startInBefore;
+    let start = op.startInBefore;
+    let run: {start: number, end: number, changes: string[]} | null = null;
+    const flush = function(){
+      if (!run){
+        return;
+      }
+      if (run.start > start){
+        push({
+          action: 'equal',
+          startInBefore: start,
+          endInBefore: run.start - 1,
+          startInAfter: start + offset,
+          endInAfter: run.start - 1 + offset
+        });
+      }
+      push({
+        action: 'format',
+        startInBefore: run.start,
+        endInBefore: run.end,
+        startInAfter: run.start + offset,
+        endInAfter: run.end + offset,
+        formatChanges: run.changes
+      });
+      start = run.end + 1;
+      run = null;
+    };
+    for (let index = op.startInBefore; index <= op.endInBefore; index++){
+      const token = beforeTokens[index];
+      if (!token || isTag(token.str) || isComment(token.str) || !token.str.trim()){
+        continue;
+      }
+      const changes = getFormatChanges(beforeFormatting[index] ?? [], afterFormatting[index + offset] ?? []);
+      if (run && changes.join(' ') === run.changes.join(' ')){
+        run.end = index;
+        continue;
+      }
+      flush();
+      if (changes.length){
+        run = {start: index, end: index, changes: changes};
+      }
+    }
+    flush();
+    if (start <= op.endInBefore){
+      push({
+        action: 'equal',
+        startInBefore: start,
+        endInBefore: op.endInBefore,
+        startInAfter: start + offset,
+        endInAfter: op.endInAfter
+      });
+    }
+  });
+  return result;
+}
+
+/**
+ * A table, a row or a cell found by readTable, or a list or a list item found by readList: the
+ * range of tokens from its opening tag to its closing tag. The closing tag is at contentEnd,
+ * which is end + 1 when the closing tag is omitted. The children of a table are its rows, the
+ * children of a row are its cells and the children of a list are its items.
+ */
+type StructureNode = {
+  start: number;
+  contentEnd: number;
+  end: number;
+  children: StructureNode[];
+};
+
+// The tags of the structure of a table that close its open row and cell, when their end tags
+// are omitted.
+const tableSectionTags = ['<colgroup>', '</colgroup>', '<col>', '<thead>', '</thead>', '<tbody>', '</tbody>', '<tfoot>', '</tfoot>'];
+
+// The largest number of pairs of tables, lists, rows, columns or items compared with each other by
+// alignBySimilarity. Longer lists are paired in order instead.
+const ALIGNMENT_MAX = 10000;
+
+/**
+ * Reads the rows and cells of a table. Nested tables are part of the content of their cells.
+ *
+ * @param {Array.<Token>} tokens The list of tokens.
+ * @param {number} start The index of the opening tag of the table.
+ * @param {number} end The end of the range holding the table, excluded.
+ *
+ * @return {StructureNode|null} The table, or null if it isn't closed within the range or if it
+ *    holds content outside of its cells and caption.
+ */
+function readTable(tokens: Token[], start: number, end: number): StructureNode | null {
+  const rows: StructureNode[] = [];
+  let row: StructureNode | null = null;
+  let cell: StructureNode | null = null;
+  // The depth of the nested table being skipped, and whether a caption is being skipped.
+  let depth = 0;
+  let caption = false;
+
+  function closeCell(index: number, contentEnd: number){
+    if (cell && row){
+      cell.contentEnd = contentEnd;
+      cell.end = index;
+      row.children.push(cell);
+    }
+    cell = null;
+  }
+  function closeRow(index: number, contentEnd: number){
+    closeCell(index, contentEnd);
+    if (row){
+      row.contentEnd = contentEnd;
+      row.end = index;
+      rows.push(row);
+    }
+    row = null;
+  }
+
+  for (let index = start + 1; index < end; index++){
+    const token = tokens[index];
+    const key = token?.key ?? '';
+    if (depth){
+      if (key === '<table>'){
+        depth++;
+      } else if (key === '</table>'){
+        depth--;
+      }
+      continue;
+    }
+    if (caption){
+      caption = key !== '</caption>';
+      continue;
+    }
+    switch (key){
+      case '</table>':
+        closeRow(index - 1, index);
+        return {start: start, contentEnd: index, end: index, children: rows};
+      case '<tr>':
+        closeRow(index - 1, index);
+        row = {start: index, contentEnd: index + 1, end: index, children: []};
+        break;
+      case '</tr>':
+        closeRow(index, index);
+        break;
+      case '<td>':
+      case '<th>':
+        closeCell(index - 1, index);
+        if (!row){
+          return null;
+        }
+        cell = {start: index, contentEnd: index + 1, end: index, children: []};
+        break;
+      case '</td>':
+      case '</th>':
+        closeCell(index, index);
+        break;
+      case '<caption>':
+        closeRow(index - 1, index);
+        caption = true;
+        break;
+      default:
+        if (tableSectionTags.indexOf(key) !== -1){
+          closeRow(index - 1, index);
+        } else if (cell && key === '<table>'){
+          depth = 1;
+        } else if (!cell && key.trim() && !isComment(token?.str ?? '')){
+          return null;
+        }
+    }
+  }
+  return null;
+}
+
+/**
+ * Reads the items of an ordered or unordered list. Nested lists are part of the content of
+ * their items.
+ *
+ * @param {Array.<Token>} tokens The list of tokens.
+ * @param {number} start The index of the opening tag of the list.
+ * @param {number} end The end of the range holding the list, excluded.
+ *
+ * @return {StructureNode|null} The list, or null if it isn't closed within the range or if it
+ *    holds content outside of its items.
+ */
+function readList(tokens: Token[], start: number, end: number): StructureNode | null {
+  const closingTag = tokens[start]?.key === '<ol>' ? '</ol>' : '</ul>';
+  const items: StructureNode[] = [];
+  let item: StructureNode | null = null;
+  // The depth of the nested list being skipped.
+  let depth = 0;
+
+  function closeItem(index: number, contentEnd: number){
+    if (item){
+      item.contentEnd = contentEnd;
+      item.end = index;
+      items.push(item);
+    }
+    item = null;
+  }
+
+  for (let index = start + 1; index < end; index++){
+    const token = tokens[index];
+    const key = token?.key ?? '';
+    if (depth){
+      if (key === '<ul>' || key === '<ol>'){
+        depth++;
+      } else if (key === '</ul>' || key === '</ol>'){
+        depth--;
+      }
+      continue;
+    }
+    switch (key){
+      case '</ul>':
+      case '</ol>':
+        if (key !== closingTag){
+          return null;
+        }
+        closeItem(index - 1, index);
+        return {start: start, contentEnd: index, end: index, children: items};
+      case '<li>':
+        closeItem(index - 1, index);
+        item = {start: index, contentEnd: index + 1, end: index, children: []};
+        break;
+      case '</li>':
+        closeItem(index, index);
+        break;
+      default:
+        if (item && (key === '<ul>' || key === '<ol>')){
+          depth = 1;
+        } else if (!item && key.trim() && !isComment(token?.str ?? '')){
+          return null;
+        }
+    }
+  }
+  return null;
+}
+
+/**
+ * Finds the tables and the lists of a range of tokens that aren't nested in other tables or
+ * lists, see readTable and readList. Only the tables are searched without the listDiff option
+ * and only the lists without the tableDiff option.
+ *
+ * @param {Array.<Token>} tokens The list of tokens.
+ * @param {number} start The start of the range.
+ * @param {number} end The end of the range, excluded.
+ * @param {DiffConfig} config The resolved options.
+ *
+ * @return {Array.<StructureNode>} The tables and lists, in order.
+ */
+function findStructures(tokens: Token[], start: number, end: number, config: DiffConfig): StructureNode[] {
+  const structures: StructureNode[] = [];
+  for (let index = start; index < end; index++){
+    const key = tokens[index]?.key;
+    let structure: StructureNode | null = null;
+    if (key === '<table>' && config.tableDiff){
+      structure = readTable(tokens, index, end);
+    } else if ((key === '<ul>' || key === '<ol>') && config.listDiff){
+      structure = readList(tokens, index, end);
+    }
+    if (structure){
+      structures.push(structure);
+      index = structure.end;
+    }
+  }
+  return structures;
+}
+
+type StructureNodeContent = {key: string, words: string[]};
+
+function getNodeContent(tokens: Token[], node: StructureNode): StructureNodeContent {
+  const nodeTokens = tokens.slice(node.start, node.end + 1);
+  return {
+    key: nodeTokens.map(token => token.key).join('\u0000'),
+    words: getWordKeys(nodeTokens)
+  };
+}
+
+function getNodeSimilarity(content: StructureNodeContent, otherContent: StructureNodeContent): number {
+  return content.key === otherContent.key ? 1 : getWordSimilarity(content.words, otherContent.words) || 0;
+}
+
+/**
+ * Pairs the items of two lists in order, maximizing the sum of the scores of the pairs.
+ *
+ * @param {number} beforeCount The number of items of the first list.
+ * @param {number} afterCount The number of items of the second list.
+ * @param {function(number, number): number} score Returns the score of a pair of items, or a
+ *    negative number if they can't be paired.
+ *
+ * @return {Array.<Array.<number>>} The pairs of indexes, in order.
+ */
+function alignBySimilarity(beforeCount: number, afterCount: number, score: (beforeIndex: number, afterIndex: number) => number): Array<[number, number]> {
+  const pairs: Array<[number, number]> = [];
+  if (beforeCount * afterCount > ALIGNMENT_MAX){
+    for (let index = 0; index < Math.min(beforeCount, afterCount); index++){
+      if (score(index, index) >= 0){
+        pairs.push([index, index]);
+      }
+    }
+    return pairs;
+  }
+
+  // The best total score of the items from i and j on is at totals[i * width + j].
+  const width = afterCount + 1;
+  const totals: number[] = [];
+  const scores: number[] = [];
+  for (let i = beforeCount; i >= 0; i--){
+    for (let j = afterCount; j >= 0; j--){
+      let total = 0;
+      if (i < beforeCount && j < afterCount){
+        const pairScore = score(i, j);
+        scores[i * width + j] = pairScore;
+        total = Math.max(totals[(i + 1) * width + j] ?? 0, totals[i * width + j + 1] ?? 0,
+                         pairScore >= 0 ? pairScore + (totals[(i + 1) * width + j + 1] ?? 0) : 0);
+      }
+      totals[i * width + j] = total;
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < beforeCount && j < afterCount){
+    const total = totals[i * width + j] ?? 0;
+    const pairScore = scores[i * width + j] ?? -1;
+    if (pairScore >= 0 && total === pairScore + (totals[(i + 1) * width + j + 1] ?? 0)){
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (total === (totals[(i + 1) * width + j] ?? 0)){
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Pairs the tables, lists, rows, cells or items of the before tokens with the ones of the
+ * after tokens: the identical ones are paired first, then the ones between them that have
+ * enough words in common, see the structureThreshold option. Only nodes of the same kind are
+ * paired, e.g. header cells with header cells or ordered lists with ordered lists.
+ *
+ * @param {Segment} segment The segment holding the nodes.
+ * @param {Array.<StructureNode>} before The nodes of the before tokens.
+ * @param {Array.<StructureNode>} after The nodes of the after tokens.
+ * @param {DiffConfig} config The resolved options.
+ * @param {WorkBudget} budget The work budget of the comparison, null if it is unlimited.
+ *
+ * @return {Array.<Array.<number>>} The pairs of indexes, in order.
+ */
+function alignNodes(segment: Segment, before: StructureNode[], after: StructureNode[], config: DiffConfig, budget: WorkBudget | null): Array<[number, number]> {
+  const beforeContents = before.map(node => getNodeContent(segment.beforeTokens, node));
+  const afterContents = after.map(node => getNodeContent(segment.afterTokens, node));
+  const pairs: Array<[number, number]> = [];
+  let beforeIndex = 0;
+  let afterIndex = 0;
+  const blocks = myersBlocks(beforeContents.map(content => content.key), afterContents.map(content => content.key), budget);
+  blocks.push({startInBefore: before.length, startInAfter: after.length, length: 0});
+  blocks.forEach(function(block: Block){
+    alignBySimilarity(block.startInBefore - beforeIndex, block.startInAfter - afterIndex, function(i: number, j: number){
+      const node = before[beforeIndex + i];
+      const other = after[afterIndex + j];
+      const content = beforeContents[beforeIndex + i];
+      const otherContent = afterContents[afterIndex + j];
+      if (!node || !other || !content || !otherContent ||
+          segment.beforeTokens[node.start]?.key !== segment.afterTokens[other.start]?.key){
+        return -1;
+      }
+      // Skip the nodes whose lengths alone are too different for them to be similar enough.
+      const total = content.words.length + otherContent.words.length;
+      if (2 * Math.min(content.words.length, otherContent.words.length) / total < config.structureThreshold){
+        return -1;
+      }
+      const similarity = getNodeSimilarity(content, otherContent);
+      return similarity >= config.structureThreshold ? similarity : -1;
+    }).forEach(function(pair: [number, number]){
+      pairs.push([beforeIndex + pair[0], afterIndex + pair[1]]);
+    });
+    for (let offset = 0; offset < block.length; offset++){
+      pairs.push([block.startInBefore + offset, block.startInAfter + offset]);
+    }
+    beforeIndex = block.startInBefore + block.length;
+    afterIndex = block.startInAfter + block.length;
+  });
+  return pairs;
+}
+
+/**
+ * Returns the number of columns of a table whose rows all have the same number of cells and
+ * no cells spanning several rows or columns.
+ *
+ * @param {Array.<Token>} tokens The list of tokens holding the table.
+ * @param {StructureNode} table The table.
+ *
+ * @return {number|null} The number of columns, or null if the table isn't regular.
+ */
+function getColumnCount(tokens: Token[], table: StructureNode): number | null {
+  const count = table.children[0]?.children.length;
+  const isRegular = table.children.every(function(row: StructureNode){
+    return row.children.length === count && row.children.every(function(cell: StructureNode){
+      const attributes = parseAttributes(tokens[cell.start]?.str ?? '');
+      return Number(attributes.colspan || 1) === 1 && Number(attributes.rowspan || 1) === 1;
+    });
+  });
+  return count !== undefined && isRegular ? count : null;
+}
+
+/**
+ * Pairs the columns of two regular tables with a different number of columns, by comparing
+ * the cells of their paired rows, so that the cells of inserted and deleted columns are found
+ * in every row.
+ *
+ * @param {Segment} segment The segment holding the tables.
+ * @param {StructureNode} table The table of the before tokens.
+ * @param {StructureNode} other The table of the after tokens.
+ * @param {Array.<Array.<number>>} rowPairs The pairs of rows of the tables.
+ * @param {DiffConfig} config The resolved options.
+ *
+ * @return {Array.<Array.<number>>|null} The pairs of columns, or null if the cells of each
+ *    pair of rows should be paired on their own.
+ */
+function alignColumns(segment: Segment, table: StructureNode, other: StructureNode, rowPairs: Array<[number, number]>, config: DiffConfig): Array<[number, number]> | null {
+  const width = getColumnCount(segment.beforeTokens, table);
+  const otherWidth = getColumnCount(segment.afterTokens, other);
+  if (width === null || otherWidth === null || width === otherWidth || !rowPairs.length){
+    return null;
+  }
+  // The sum of the similarities of the cells of the columns c and d is at scores[c * otherWidth + d].
+  const scores: number[] = [];
+  rowPairs.forEach(function(pair: [number, number]){
+    const cells = table.children[pair[0]]?.children ?? [];
+    const otherContents = (other.children[pair[1]]?.children ?? []).map(function(cell: StructureNode){
+      return getNodeContent(segment.afterTokens, cell);
+    });
+    cells.forEach(function(cell: StructureNode, column: number){
+      const content = getNodeContent(segment.beforeTokens, cell);
+      otherContents.forEach(function(otherContent: StructureNodeContent, otherColumn: number){
+        const index = column * otherWidth + otherColumn;
+        scores[index] = (scores[index] ?? 0) + getNodeSimilarity(content, otherContent);
+      });
+    });
+  });
+  return alignBySimilarity(width, otherWidth, function(column: number, otherColumn: number){
+    const similarity = (scores[column * otherWidth + otherColumn] ?? 0) / rowPairs.length;
+    return similarity >= config.structureThreshold ? similarity : -1;
+  });
+}
+
+/**
+ * Finds the tables and lists of a segment and pairs the ones of the before tokens with the
+ * ones of the after tokens they should be compared with, see alignNodes.
+ *
+ * @param {Segment} segment The segment to search.
+ * @param {DiffConfig} config The resolved options.
+ * @param {WorkBudget} budget The work budget of the comparison, null if it is unlimited.
+ *
+ * @return {Array.<Array.<StructureNode>>} The pairs of tables and lists, in order.
+ */
+function pairStructures(segment: Segment, config: DiffConfig, budget: WorkBudget | null): Array<[StructureNode, StructureNode]> {
+  const before = findStructures(segment.beforeTokens, segment.beforeIndex, segment.beforeEnd, config);
+  const after = before.length ? findStructures(segment.afterTokens, segment.afterIndex, segment.afterEnd, config) : [];
+  return alignNodes(segment, before, after, config, budget).map(function(pair: [number, number]): [StructureNode, StructureNode] {
+    return [before[pair[0]]!, after[pair[1]]!];
+  });
+}
+
+/**
+ * Gets the list of operations of a segment holding tables or lists, comparing each pair of
+ * tables row by row and cell by cell, and each pair of lists item by item. The rows, the cells
+ * of the columns and the items that are only in one of the tables or lists are reported as a
+ * whole by 'delete' and 'insert' operations marked with their part. The contents of the paired
+ * cells and items and the rest of the segment are compared by getOperations.
+ *
+ * @param {Segment} segment The segment to compare.
+ * @param {Array.<Array.<StructureNode>>} structures The pairs of tables and lists of the
+ *    segment, see pairStructures.
+ * @param {DiffConfig} config The resolved options.
+ * @param {WorkBudget} budget The work budget of the comparison, null if it is unlimited.
+ *
+ * @return {Array.<Operation>} The list of operations, see calculateOperations.
+ */
+function getStructureOperations(segment: Segment, structures: Array<[StructureNode, StructureNode]>, config: DiffConfig, budget: WorkBudget | null): Operation[] {
+  const operations: Operation[] = [];
+  let beforeIndex = segment.beforeIndex;
+  let afterIndex = segment.afterIndex;
+
+  function push(op: Operation){
+    const last = operations[operations.length - 1];
+    if (last && last.action === 'equal' && op.action === 'equal'){
+      last.endInBefore = op.endInBefore;
+      last.endInAfter = op.endInAfter;
+    } else {
+      operations.push(op);
+    }
+  }
+
+  // Compares the tokens up to the given positions, merging adjacent equal operations. Identical
+  // ranges are equal as a whole, even when they only hold whitespace, which the matching
+  // algorithms don't match on its own.
+  function compareTo(beforeEnd: number, afterEnd: number){
+    if (beforeEnd === beforeIndex && afterEnd === afterIndex){
+      return;
+    }
+    let length = 0;
+    while (beforeIndex + length < beforeEnd && afterIndex + length < afterEnd &&
+           segment.beforeTokens[beforeIndex + length]?.key === segment.afterTokens[afterIndex + length]?.key){
+      length++;
+    }
+    if (beforeIndex + length === beforeEnd && afterIndex + length === afterEnd){
+      push({
+        action: 'equal',
+        startInBefore: beforeIndex,
+        endInBefore: beforeEnd - 1,
+        startInAfter: afterIndex,
+        endInAfter: afterEnd - 1
+      });
+    } else {
+      getOperations(createSubSegment(segment, beforeIndex, beforeEnd, afterIndex, afterEnd), config, budget)
+        .forEach(push);
+    }
+    beforeIndex = beforeEnd;
+    afterIndex = afterEnd;
+  }
+
+  // Reports the tokens of one side up to the given position as a deleted or inserted row, cell
+  // or item.
+  function changeTo(action: 'delete' | 'insert', end: number, part: StructurePart){
+    const op: Operation = {
+      action: action,
+      startInBefore: beforeIndex,
+      endInBefore: action === 'delete' ? end - 1 : undefined,
+      startInAfter: afterIndex,
+      endInAfter: action === 'insert' ? end - 1 : undefined,
+      part: part
+    };
+    if (part !== 'item'){
+      op.tablePart = part;
+    }
+    operations.push(op);
+    if (action === 'delete'){
+      beforeIndex = end;
+    } else {
+      afterIndex = end;
+    }
+  }
+
+  // Compares two tables, lists, rows, cells or items, given the pairs of their children.
+  function compareNodes(node: StructureNode, other: StructureNode, pairs: Array<[number, number]>, part: StructurePart, compareChildren: (child: StructureNode, otherChild: StructureNode) => void){
+    compareTo(node.start, other.start);
+    compareTo(node.start + 1, other.start + 1);
+    let index = 0;
+    let otherIndex = 0;
+    const end: [number, number] = [node.children.length, other.children.length];
+    pairs.concat([end]).forEach(function(pair: [number, number]){
+      while (index < pair[0] || otherIndex < pair[1]){
+        const child = index < pair[0] ? node.children[index] : undefined;
+        const otherChild = otherIndex < pair[1] ? other.children[otherIndex] : undefined;
+        compareTo(child ? child.start : beforeIndex, otherChild ? otherChild.start : afterIndex);
+        if (child){
+          changeTo('delete', child.end + 1, part);
+          index++;
+        }
+        if (otherChild){
+          changeTo('insert', otherChild.end + 1, part);
+          otherIndex++;
+        }
+      }
+      const child = node.children[pair[0]];
+      const otherChild = other.children[pair[1]];
+      if (child && otherChild){
+        compareChildren(child, otherChild);
+        index++;
+        otherIndex++;
+      }
+    });
+    compareTo(node.contentEnd, other.contentEnd);
+    compareTo(node.end + 1, other.end + 1);
+  }
+
+  function compareContents(cell: StructureNode, otherCell: StructureNode){
+    compareNodes(cell, otherCell, [], 'column', compareContents);
+  }
+
+  structures.forEach(function(pair: [StructureNode, StructureNode]){
+    const table = pair[0];
+    const other = pair[1];
+    if (segment.beforeTokens[table.start]?.key !== '<table>'){
+      compareNodes(table, other, alignNodes(segment, table.children, other.children, config, budget), 'item', compareContents);
+      return;
+    }
+    const rowPairs = alignNodes(segment, table.children, other.children, config, budget);
+    const columnPairs = alignColumns(segment, table, other, rowPairs, config);
+    compareNodes(table, other, rowPairs, 'row', function(row: StructureNode, otherRow: StructureNode){
+      let cellPairs: Array<[number, number]>;
+      if (columnPairs){
+        cellPairs = columnPairs;
+      } else if (row.children.length === otherRow.children.length){
+        cellPairs = row.children.map((cell: StructureNode, index: number): [number, number] => [index, index]);
+      } else {
+        cellPairs = alignNodes(segment, row.children, otherRow.children, config, budget);
+      }
+      compareNodes(row, otherRow, cellPairs.filter(function(cellPair: [number, number]){
+        const cell = row.children[cellPair[0]];
+        const otherCell = otherRow.children[cellPair[1]];
+        return !!cell && !!otherCell &&
+          segment.beforeTokens[cell.start]?.key === segment.afterTokens[otherCell.start]?.key;
+      }), 'column', compareContents);
+    });
+  });
+  compareTo(segment.beforeEnd, segment.afterEnd);
+  return operations;
+}
+
+/**
+ * Gets the list of operations that transform the before tokens of a segment into its after
+ * tokens, from the matching blocks found by findMatches.
+ *
+ * The tables of the segment are compared row by row and cell by cell when the tableDiff
+ * option is set, and its lists item by item when the listDiff option is set, see
+ * getStructureOperations.
+ *
+ * @param {Segment} segment The segment to compare.
+ * @param {DiffConfig} config The resolved options.
+ * @param {WorkBudget} budget (Optional) The work budget shared by the comparisons of the parts
+ *      of a segment, created from the options by default.
+ *
+ * @return {Array.<Operation>} The list of operations, see calculateOperations.
+ */
+function getOperations(segment: Segment, config: DiffConfig, budget?: WorkBudget | null): Operation[] {
+  if (budget === undefined){
+    budget = createWorkBudget(config.maxWork, config.timeoutMs);
+  }
+  if (config.tableDiff || config.listDiff){
+    const structures = pairStructures(segment, config, budget);
+    if (structures.length){
+      return getStructureOperations(segment, structures, config, budget);
+    }
+  }
+  let positionInBefore = segment.beforeIndex;
+  let positionInAfter = segment.afterIndex;
+  const operations: Operation[] = [];
+  const matches = findMatches(segment, config, budget);
+  matches.push(makeMatch(segment.beforeEnd - segment.beforeIndex, segment.afterEnd - segment.afterIndex, 0, segment));
+
+  matches.forEach(match => {
+    let actionUpToMatchPositions: 'equal' | 'insert' | 'delete' | 'replace' | 'none'  = 'none';
+    if (positionInBefore === match.startInBefore){
+      if (positionInAfter !== match.startInAfter){
+        actionUpToMatchPositions = 'insert';
+      }
+    } else {
+      actionUpToMatchPositions = 'delete';
+      if (positionInAfter !== match.startInAfter){
+        actionUpToMatchPositions = 'replace';
+      }
+    }
+    if (actionUpToMatchPositions !== 'none'){
+      operations.push({
+        action: actionUpToMatchPositions,
+        startInBefore: positionInBefore,
+        endInBefore: (actionUpToMatchPositions !== 'insert' ?
+          match.startInBefore - 1 : undefined),
+        startInAfter: positionInAfter,
+        endInAfter: (actionUpToMatchPositions !== 'delete' ?
+          match.startInAfter - 1 : undefined)
+      });
+    }
+    if (match.length !== 0){
+      operations.push({
+        action: 'equal',
+        startInBefore: match.startInBefore,
+        endInBefore: match.endInBefore,
+        startInAfter: match.startInAfter,
+        endInAfter: match.endInAfter
+      });
+    }
+    positionInBefore = match.endInBefore + 1;
+    positionInAfter = match.endInAfter + 1;
+  });
+
+  return operations;
+}
+
+/**
+ * Splits a list of tokens into the units of the granularity option: each tag of a block
+ * element or line break is a unit, and so is each run of tokens between them for the 'block'
+ * granularity, see splitBlocks. The 'sentence' granularity further splits the runs after the
+ * ends of sentences, and the whitespace at the start of a run is a unit of its own, so the
+ * sentences are compared regardless of the whitespace between them.
+ *
+ * @param {Array.<Token>} tokens The list of tokens.
+ * @param {Granularity} granularity The granularity, either 'sentence' or 'block'.
+ *
+ * @return {Array.<number>} The index of the first token of each unit, followed by the number
+ *    of tokens.
+ */
+function splitUnits(tokens: Token[], granularity: Granularity): number[] {
+  if (!tokens.length){
+    return [0];
+  }
+  const blocks = splitBlocks(tokens, 0, tokens.length);
+  if (granularity !== 'sentence'){
+    return blocks;
+  }
+  const starts: number[] = [];
+  blocks.forEach(function(start: number, index: number){
+    const end = blocks[index + 1] ?? start;
+    starts.push(start);
+    let unitStart = start;
+    for (let i = start; i < end - 1; i++){
+      const token = tokens[i];
+      if (token && ((i === unitStart && !token.key.trim()) || (isntTag(token.str) && endsSentence(token)))){
+        starts.push(i + 1);
+        unitStart = i + 1;
+      }
+    }
+  });
+  return starts;
+}
+
+/**
+ * Joins the tokens of each unit into a single token, whose key holds the keys of its tokens.
+ * The units of a single token are that token.
+ *
+ * @param {Array.<Token>} tokens The list of tokens.
+ * @param {Array.<number>} starts The start of each unit, followed by the number of tokens, see
+ *    splitUnits.
+ *
+ * @return {Array.<Token>} The list of units.
+ */
+function joinUnits(tokens: Token[], starts: number[]): Token[] {
+  return starts.slice(0, -1).map(function(start: number, index: number){
+    const unit = tokens.slice(start, starts[index + 1]);
+    return unit.length === 1 && unit[0] ? unit[0] : {
+      str: joinTokens(unit),
+      key: unit.map(token => token.key).join('\u0000')
+    };
+  });
+}
+
+/**
+ * Gets the operations of a segment compared by sentences or blocks rather than by words, see
+ * the granularity option. The operations found between the units are mapped back to the
+ * tokens, and the replaced units are compared word by word when refineChangedUnits is set.
+ *
+ * @param {Segment} segment The segment covering the whole before and after lists of tokens.
+ * @param {DiffConfig} config The resolved options holding the granularity.
+ * @param {WorkBudget} budget (Optional) The work budget shared by the comparisons of the units
+ *      and of their tokens, created from the options by default.
+ *
+ * @return {Array.<Operation>} The list of operations between the tokens.
+ */
+function getUnitOperations(segment: Segment, config: DiffConfig, budget?: WorkBudget | null): Operation[] {
+  if (budget === undefined){
+    budget = createWorkBudget(config.maxWork, config.timeoutMs);
+  }
+  const beforeStarts = splitUnits(segment.beforeTokens, config.granularity);
+  const afterStarts = splitUnits(segment.afterTokens, config.granularity);
+  const units = createDocumentSegment(joinUnits(segment.beforeTokens, beforeStarts), joinUnits(segment.afterTokens, afterStarts));
+
+  return getOperations(units, config, budget).reduce(function(operations: Operation[], op: Operation){
+    const mapped: Operation = {
+      ...op,
+      startInBefore: beforeStarts[op.startInBefore] ?? segment.beforeEnd,
+      endInBefore: op.endInBefore === undefined ? undefined : (beforeStarts[op.endInBefore + 1] ?? segment.beforeEnd) - 1,
+      startInAfter: afterStarts[op.startInAfter] ?? segment.afterEnd,
+      endInAfter: op.endInAfter === undefined ? undefined : (afterStarts[op.endInAfter + 1] ?? segment.afterEnd) - 1
+    };
+    if (config.refineChangedUnits && mapped.action === 'replace' && mapped.endInBefore !== undefined &&
+        mapped.endInAfter !== undefined){
+      return operations.concat(getOperations(createSubSegment(segment, mapped.startInBefore, mapped.endInBefore + 1,
+                                                              mapped.startInAfter, mapped.endInAfter + 1), config, budget));
+    }
+    return operations.concat(mapped);
+  }, []);
+}
+
+/**
+ * Checks if an operation is a change that semanticCleanup may merge with the changes around it,
+ * i.e. a replacement, an insertion or a deletion that isn't a whole table or list part.
+ *
+ * @param {Operation} op The operation to check.
+ *
+ * @return {boolean} True if the operation is a mergeable change, false otherwise.
+ */
+function isMergeableChange(op: Operation | undefined): boolean {
+  return !!op && op.action !== 'equal' && !op.part;
+}
+
+/**
+ * Merges the changes fragmented by short unchanged runs of words into single changes, see the
+ * semanticCleanup option. Like the semantic cleanup of diff-match-patch, an unchanged run is
+ * merged when it has no more words than the changes on each side of it, so a sentence whose
+ * words nearly all changed is replaced as a whole instead of word by word. The runs holding
+ * tags are never merged, to keep the structure of the documents.
+ *
+ * @param {Array.<Operation>} operations The list of operations.
+ * @param {Array.<Token>} beforeTokens The before list of tokens.
+ * @param {Array.<Token>} afterTokens The after list of tokens.
+ * @param {DiffConfig} config The resolved options holding the maximum words of merged runs.
+ *
+ * @return {Array.<Operation>} The list of operations with the fragmented changes merged.
+ */
+function mergeFragmentedChanges(operations: Operation[], beforeTokens: Token[], afterTokens: Token[], config: DiffConfig): Operation[] {
+  const result: Operation[] = [];
+  let run: Operation[] = [];
+  // The number of words in the before and after tokens of the run.
+  let runWords = [0, 0];
+
+  function getWords(op: Operation): number[] {
+    return [countWords(getOperationTokens(op, beforeTokens, 'before')),
+            countWords(getOperationTokens(op, afterTokens, 'after'))];
+  }
+
+  function flush(){
+    const first = run[0];
+    const last = run[run.length - 1];
+    if (run.length === 1 && first){
+      result.push(first);
+    } else if (first && last){
+      const endInBefore = last.endInBefore ?? last.startInBefore - 1;
+      const endInAfter = last.endInAfter ?? last.startInAfter - 1;
+      const hasBefore = endInBefore >= first.startInBefore;
+      const hasAfter = endInAfter >= first.startInAfter;
+      result.push({
+        action: hasBefore && hasAfter ? 'replace' : hasBefore ? 'delete' : 'insert',
+        startInBefore: first.startInBefore,
+        endInBefore: hasBefore ? endInBefore : undefined,
+        startInAfter: first.startInAfter,
+        endInAfter: hasAfter ? endInAfter : undefined
+      });
+    }
+    run = [];
+    runWords = [0, 0];
+  }
+
+  operations.forEach(function(op: Operation, index: number){
+    const words = getWords(op);
+    if (isMergeableChange(op)){
+      run.push(op);
+      runWords = [(runWords[0] ?? 0) + (words[0] ?? 0), (runWords[1] ?? 0) + (words[1] ?? 0)];
+      return;
+    }
+    if (op.action === 'equal' && run.length && isMergeableChange(operations[index + 1]) &&
+        (words[0] ?? 0) <= config.semanticCleanupMaxWords &&
+        getOperationTokens(op, beforeTokens, 'before').every(token => isntTag(token.str) && !isComment(token.str))){
+      const nextWords = [0, 0];
+      for (let next = index + 1; isMergeableChange(operations[next]); next++){
+        const changeWords = getWords(operations[next]!);
+        nextWords[0] += changeWords[0] ?? 0;
+        nextWords[1] += changeWords[1] ?? 0;
+      }
+      const equalWords = words[0] ?? 0;
+      if (equalWords <= Math.max(...runWords) && equalWords <= Math.max(...nextWords)){
+        run.push(op);
+        runWords = [(runWords[0] ?? 0) + equalWords, (runWords[1] ?? 0) + equalWords];
+        return;
+      }
+    }
+    flush();
+    result.push(op);
+  });
+  flush();
+  return result;
+}
+
+/**
+ * Checks if a token ends a sentence, ignoring the whitespace that follows it.
+ *
+ * @param {Token} token The token to check.
+ *
+ * @return {boolean} True if the token ends with a full stop, a question mark or an
+ *    exclamation mark, possibly followed by closing quotes or brackets.
+ */
+function endsSentence(token: Token | undefined): boolean {
+  return !!token && /[.!?\u2026]['"\u2019\u201D)\]]*\s*$/.test(token.str);
+}
+
+/**
+ * Scores a boundary between two tokens as the edge of a change: the higher the score, the
+ * easier a change starting or ending there is to read. The edges of the documents and the
+ * block tags score highest, followed by the line breaks and the starts of sentences, the other
+ * tags and the ends of sentences, the starts and the ends of words.
+ *
+ * @param {Array.<Token>} tokens The list of tokens.
+ * @param {number} index The index of the token following the boundary.
+ *
+ * @return {number} The score of the boundary, from 0 to 6.
+ */
+function getBoundaryScore(tokens: Token[], index: number): number {
+  const left = tokens[index - 1];
+  const right = tokens[index];
+  if (!left || !right){
+    return 6;
+  }
+  const leftTag = isTag(left.str);
+  const rightTag = isTag(right.str);
+  if ((leftTag && blockTags.indexOf(leftTag.replace('/', '')) !== -1) ||
+      (rightTag && blockTags.indexOf(rightTag.replace('/', '')) !== -1)){
+    return 5;
+  }
+  if (/\s$/.test(left.str)){
+    if (/\n/.test(left.str) || endsSentence(left.str.trim() ? left : tokens[index - 2])){
+      return 4;
+    }
+    return leftTag || rightTag ? 3 : 2;
+  }
+  if (leftTag || rightTag || endsSentence(left)){
+    return 3;
+  }
+  return isWhitespace(right.str) ? 1 : 0;
+}
+
+/**
+ * Moves the insertions and deletions between two unchanged runs to the position with the
+ * best boundaries, see getBoundaryScore. An insertion or a deletion can move when the tokens
+ * it holds repeat the tokens around it: 'a <ins>b a </ins>c' is also 'a <ins>a b</ins> c'.
+ *
+ * @param {Array.<Operation>} operations The list of operations.
+ * @param {Array.<Token>} beforeTokens The before list of tokens.
+ * @param {Array.<Token>} afterTokens The after list of tokens.
+ *
+ * @return {Array.<Operation>} The list of operations with the insertions and deletions moved.
+ */
+function alignChanges(operations: Operation[], beforeTokens: Token[], afterTokens: Token[]): Operation[] {
+  const result = operations.map(op => ({...op}));
+  result.forEach(function(op: Operation, index: number){
+    const previous = result[index - 1];
+    const next = result[index + 1];
+    if ((op.action !== 'insert' && op.action !== 'delete') || op.part || previous?.action !== 'equal' ||
+        next?.action !== 'equal' || previous.endInBefore === undefined || next.endInBefore === undefined){
+      return;
+    }
+    const side = op.action === 'insert' ? 'after' : 'before';
+    const tokens = side === 'after' ? afterTokens : beforeTokens;
+    const start = side === 'after' ? op.startInAfter : op.startInBefore;
+    const end = (side === 'after' ? op.endInAfter : op.endInBefore) ?? start;
+    const previousStart = side === 'after' ? previous.startInAfter : previous.startInBefore;
+    const nextEnd = (side === 'after' ? next.endInAfter : next.endInBefore) ?? end;
+
+    // The unchanged runs around the change are never emptied.
+    let first = 0;
+    while (start + first - 1 > previousStart && tokens[start + first - 1]?.key === tokens[end + first]?.key){
+      first--;
+    }
+    let best = 0;
+    let bestScore = getBoundaryScore(tokens, start) + getBoundaryScore(tokens, end + 1);
+    for (let offset = first; end + offset < nextEnd; offset++){
+      if (offset > 0 && tokens[start + offset - 1]?.key !== tokens[end + offset]?.key){
+        break;
+      }
+      const score = getBoundaryScore(tokens, start + offset) + getBoundaryScore(tokens, end + offset + 1);
+      if (score > bestScore){
+        best = offset;
+        bestScore = score;
+      }
+    }
+    if (best){
+      previous.endInBefore += best;
+      previous.endInAfter = (previous.endInAfter ?? 0) + best;
+      op.startInBefore += best;
+      op.startInAfter += best;
+      if (op.endInBefore !== undefined){
+        op.endInBefore += best;
+      }
+      if (op.endInAfter !== undefined){
+        op.endInAfter += best;
+      }
+      next.startInBefore += best;
+      next.startInAfter += best;
+    }
+  });
+  return result;
+}
+
+/**
+ * Gets a list of operations required to transform the before list of tokens into the
+ * after list of tokens. An operation describes whether a particular list of consecutive
+ * tokens are equal, replaced, inserted, or deleted.
+ *
+ * @param {Array.<string>} beforeTokens The before list of tokens.
+ * @param {Array.<string>} afterTokens The after list of tokens.
+ * @param {DiffOptions} options (Optional) The options controlling the matching algorithm
+ *      and the detection of moves and attribute changes.
+ *
+ * @return {Array.<Object>} The list of operations to transform the before list of
+ *      tokens into the after list of tokens, where each operation has the following
+ *      keys:
+ *      - {string} action One of {'replace', 'insert', 'delete', 'equal', 'modify', 'move',
+ *        'format'}.
+ *      - {number} startInBefore The beginning of the range in the list of before tokens.
+ *      - {number} endInBefore The end of the range in the list of before tokens.
+ *      - {number} startInAfter The beginning of the range in the list of after tokens.
+ *      - {number} endInAfter The end of the range in the list of after tokens.
+ */
+export function calculateOperations(beforeTokens: Token[], afterTokens: Token[], options?: DiffOptions | null): Operation[] {
+  if (!beforeTokens) throw new Error('Missing beforeTokens');
+  if (!afterTokens) throw new Error('Missing afterTokens');
+
+  const config = resolveOptions(options);
+  const budget = createWorkBudget(config.maxWork, config.timeoutMs);
+  const segment = createDocumentSegment(beforeTokens, afterTokens);
+  return refineOperations(getSegmentOperations(segment, config, budget), segment, config, budget);
+}
+
+/**
+ * Gets the operations between the tokens of a segment, compared by words or by the units of
+ * the granularity option.
+ *
+ * @param {Segment} segment The segment covering the whole before and after lists of tokens.
+ * @param {DiffConfig} config The resolved options.
+ * @param {WorkBudget} budget (Optional) The work budget, created from the options by default.
+ *
+ * @return {Array.<Operation>} The list of operations, before refineOperations.
+ */
+function getSegmentOperations(segment: Segment, config: DiffConfig, budget?: WorkBudget | null): Operation[] {
+  return config.granularity === 'word' ? getOperations(segment, config, budget) : getUnitOperations(segment, config, budget);
+}
+
+/**
+ * Runs the passes of the options over the operations found between two lists of tokens: the
+ * semantic cleanup, and the detection of moves, attribute, media and format changes, and of
+ * character changes. Once the time limit of the budget is reached, the passes left are
+ * skipped.
+ *
+ * @param {Array.<Operation>} operations The operations found by getSegmentOperations.
+ * @param {Segment} segment The segment covering the whole before and after lists of tokens.
+ * @param {DiffConfig} config The resolved options.
+ * @param {WorkBudget} budget (Optional) The work budget the operations were found with.
+ *
+ * @return {Array.<Operation>} The list of operations, see calculateOperations.
+ */
+function refineOperations(operations: Operation[], segment: Segment, config: DiffConfig, budget?: WorkBudget | null): Operation[] {
+  const beforeTokens = segment.beforeTokens;
+  const afterTokens = segment.afterTokens;
+  const hasTime = () => !budget || !budget.isOverdue();
+  let result = operations;
+  if (config.semanticCleanup && hasTime()){
+    result = alignChanges(mergeFragmentedChanges(result, beforeTokens, afterTokens, config), beforeTokens, afterTokens);
+  }
+  if ((config.detectMoves || config.listDiff) && hasTime()){
+    result = detectMoves(result, segment, config, budget);
+  }
+  if (config.detectAttributeChanges && hasTime()){
+    result = findAttributeChanges(result, beforeTokens, afterTokens, token => getComparedAttributes(token, config));
+  }
+  if (config.detectMediaChanges && hasTime()){
+    result = findAttributeChanges(result, beforeTokens, afterTokens, token => getMediaAttributes(token, config));
+  }
+  if (config.detectFormatChanges && hasTime()){
+    result = findFormatChanges(result, beforeTokens, afterTokens, config);
+  }
+  if (config.characterDiff && hasTime()){
+    result = refineCharacters(result, beforeTokens, afterTokens, config);
+  }
+  return result;
+}
+
+
+/**
+ * Calculates the character level changes between two words, using the longest common
+ * subsequence of their characters.
+ *
+ * @param {string} before The word before the change.
+ * @param {string} after The word after the change.
+ *
+ * @return {Object} The list of changes and the share of matching characters in both words.
+ */
+function diffCharacters(before: string, after: string): {characters: CharacterOperation[], similarity: number} {
+  const a = splitGraphemes(before);
+  const b = splitGraphemes(after);
+
+  // The length of the longest common subsequence of a[i..] and b[j..] is stored at
+  // i * width + j, the lengths past the end of a or b are 0.
+  const width = b.length + 1;
+  const lengths: number[] = [];
+  function lcs(i: number, j: number): number {
+    return lengths[i * width + j] ?? 0;
+  }
+  for (let i = a.length - 1; i >= 0; i--){
+    for (let j = b.length - 1; j >= 0; j--){
+      lengths[i * width + j] = a[i] === b[j] ? lcs(i + 1, j + 1) + 1 : Math.max(lcs(i + 1, j), lcs(i, j + 1));
+    }
+  }
+
+  const characters: CharacterOperation[] = [];
+  function push(action: 'equal' | 'insert' | 'delete', beforeChar: string, afterChar: string){
+    const last = characters[characters.length - 1];
+    if (last && (last.action === action || (action !== 'equal' && last.action !== 'equal'))){
+      last.action = last.action === action ? action : 'replace';
+      last.before += beforeChar;
+      last.after += afterChar;
+    } else {
+      characters.push({action: action, before: beforeChar, after: afterChar});
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length){
+    const beforeChar = a[i] ?? '';
+    const afterChar = b[j] ?? '';
+    if (beforeChar && beforeChar === afterChar){
+      push('equal', beforeChar, afterChar);
+      i++;
+      j++;
+    } else if (afterChar && (!beforeChar || lcs(i, j + 1) > lcs(i + 1, j))){
+      push('insert', '', afterChar);
+      j++;
+    } else {
+      push('delete', beforeChar, '');
+      i++;
+    }
+  }
+
+  const total = a.length + b.length;
+  return {
+    characters: characters,
+    similarity: total ? 2 * lcs(0, 0) / total : 1
+  };
+}
+
+function isWordToken(token: Token | undefined, config: DiffConfig): boolean {
+  return !!token && !!token.key.trim() && isntTag(token.str) && !isComment(token.str) &&
+    token.str.length <= config.characterDiffMaxLength;
+}
+
+/**
+ * Refines the 'replace' operations of a single word by another into character level changes,
+ * if the words are similar enough.
+ *
+ * @param {Array.<Operation>} operations The list of operations to refine.
+ * @param {Array.<Token>} beforeTokens The before list of tokens.
+ * @param {Array.<Token>} afterTokens The after list of tokens.
+ * @param {DiffConfig} config The resolved options holding the maximum length and threshold.
+ *
+ * @return {Array.<Operation>} The list of operations, where the refined 'replace' operations
+ *    hold their character level changes.
+ */
+function refineCharacters(operations: Operation[], beforeTokens: Token[], afterTokens: Token[], config: DiffConfig): Operation[] {
+  return operations.map(function(op: Operation){
+    if (op.action !== 'replace' || op.endInBefore !== op.startInBefore || op.endInAfter !== op.startInAfter){
+      return op;
+    }
+    const beforeToken = beforeTokens[op.startInBefore];
+    const afterToken = afterTokens[op.startInAfter];
+    if (!isWordToken(beforeToken, config) || !isWordToken(afterToken, config)){
+      return op;
+    }
+    const refined = diffCharacters(beforeToken!.str, afterToken!.str);
+    if (refined.similarity < config.characterDiffThreshold){
+      return op;
+    }
+    return {
+      action: op.action,
+      startInBefore: op.startInBefore,
+      endInBefore: op.endInBefore,
+      startInAfter: op.startInAfter,
+      endInAfter: op.endInAfter,
+      characters: refined.characters
+    };
+  });
+}
+
+/**
+ * Returns the keys of the words of a list of tokens, leaving out whitespace, tags and comments.
+ *
+ * @param {Array.<Token>} tokens The list of tokens.
+ *
+ * @return {Array.<string>} The keys of the words.
+ */
+function getWordKeys(tokens: Token[]): string[] {
+  return tokens.filter(function(token: Token){
+    return !!token.key.trim() && isntTag(token.str) && !isComment(token.str);
+  }).map(token => token.key);
+}
+
+/**
+ * Computes the share of words two lists of words have in common, regardless of their order.
+ *
+ * @param {Array.<string>} before The first list of words.
+ * @param {Array.<string>} after The second list of words.
+ *
+ * @return {number} The number of common words in both lists over the total number of words,
+ *    from 0 to 1.
+ */
+function getWordSimilarity(before: string[], after: string[]): number {
+  const counts = Object.create(null) as Record<string, number>;
+  before.forEach(function(word: string){
+    counts[word] = (counts[word] ?? 0) + 1;
+  });
+  let common = 0;
+  after.forEach(function(word: string){
+    const count = counts[word];
+    if (count){
+      counts[word] = count - 1;
+      common++;
+    }
+  });
+  return 2 * common / (before.length + after.length);
+}
+
+/**
+ * Creates the 'move' operation that covers the same tokens as an 'insert' or 'delete'
+ * operation.
+ *
+ * @param {Operation} op The operation.
+ * @param {number} moveId The id of the move.
+ *
+ * @return {Operation} The 'move' operation.
+ */
+function toMove(op: Operation, moveId: number): Operation {
+  return {
+    action: 'move',
+    startInBefore: op.startInBefore,
+    endInBefore: op.endInBefore,
+    startInAfter: op.startInAfter,
+    endInAfter: op.endInAfter,
+    moveId: moveId
+  };
+}
+
+/**
+ * Turns the 'delete' and 'insert' operations that hold the same content into 'move'
+ * operations. The pairs of runs with the most words in common are moved first. Whole list
+ * items are considered whatever their number of words, and they are the only runs considered
+ * without the detectMoves option, see the listDiff option.
+ *
+ * When the runs are only separated by unchanged content shorter than them, like a long
+ * paragraph moved across a short one, the matching algorithm kept the wrong one in place: the
+ * short content is reported as moved instead, and the runs are compared with each other.
+ *
+ * @param {Array.<Operation>} operations The list of operations.
+ * @param {Segment} segment The segment covering the before and after lists of tokens.
+ * @param {DiffConfig} config The resolved options.
+ * @param {WorkBudget} budget (Optional) The work budget. Once its time limit is reached, the
+ *      deletions left aren't compared with the insertions.
+ *
+ * @return {Array.<Operation>} The list of operations with the moves.
+ */
+function detectMoves(operations: Operation[], segment: Segment, config: DiffConfig, budget?: WorkBudget | null): Operation[] {
+  type Run = {index: number, words: string[]};
+  const deletions: Run[] = [];
+  const insertions: Run[] = [];
+  operations.forEach(function(op: Operation, index: number){
+    if (op.action === 'delete' || op.action === 'insert'){
+      const tokens = op.action === 'delete' ?
+        getOperationTokens(op, segment.beforeTokens, 'before') :
+        getOperationTokens(op, segment.afterTokens, 'after');
+      const words = getWordKeys(tokens);
+      if (op.part === 'item' ? words.length : config.detectMoves && words.length >= config.moveMinWords){
+        (op.action === 'delete' ? deletions : insertions).push({index: index, words: words});
+      }
+    }
+  });
+
+  type Candidate = {deletion: number, insertion: number, similarity: number};
+  const candidates: Candidate[] = [];
+  deletions.every(function(deletion: Run){
+    insertions.forEach(function(insertion: Run){
+      // Skip the runs whose lengths alone are too different for them to be similar enough.
+      const total = deletion.words.length + insertion.words.length;
+      if (2 * Math.min(deletion.words.length, insertion.words.length) / total < config.moveThreshold){
+        return;
+      }
+      const similarity = getWordSimilarity(deletion.words, insertion.words);
+      if (similarity >= config.moveThreshold){
+        candidates.push({deletion: deletion.index, insertion: insertion.index, similarity: similarity});
+      }
+    });
+    return !budget || !budget.isOverdue();
+  });
+  candidates.sort(function(a: Candidate, b: Candidate){
+    return b.similarity - a.similarity || a.deletion - b.deletion || a.insertion - b.insertion;
+  });
+
+  // The other operation of the move, for both operations of each move.
+  const pairs: Record<number, number> = {};
+  candidates.forEach(function(candidate: Candidate){
+    if (pairs[candidate.deletion] === undefined && pairs[candidate.insertion] === undefined){
+      pairs[candidate.deletion] = candidate.insertion;
+      pairs[candidate.insertion] = candidate.deletion;
+    }
+  });
+
+  // Number the moves in the order of their first operation.
+  const moveIds: Record<number, number> = {};
+  let moveId = 0;
+  operations.forEach(function(op: Operation, index: number){
+    const other = pairs[index];
+    if (other !== undefined && other > index){
+      moveId++;
+      moveIds[index] = moveId;
+      moveIds[other] = moveId;
+    }
+  });
+
+  const result: Operation[] = [];
+  for (let index = 0; index < operations.length; index++){
+    const op = operations[index];
+    const other = pairs[index];
+    const id = moveIds[index];
+    if (!op){
+      continue;
+    }
+    if (other === undefined || id === undefined){
+      result.push(op);
+      continue;
+    }
+    const swapped = other === index + 2 ? swapMove(operations, index, id, segment, config) : null;
+    if (swapped){
+      swapped.forEach(swappedOp => result.push(swappedOp));
+      index = other;
+    } else {
+      result.push(toMove(op, id));
+    }
+  }
+  return result;
+}
+
+/**
+ * Returns the number of tokens of an 'insert' or 'delete' operation.
+ *
+ * @param {Operation} op The operation.
+ *
+ * @return {number} The number of tokens.
+ */
+function getRunLength(op: Operation): number {
+  return op.action === 'insert' ?
+    (op.endInAfter ?? 0) - op.startInAfter + 1 :
+    (op.endInBefore ?? 0) - op.startInBefore + 1;
+}
+
+/**
+ * Reports the unchanged content between the two runs of a move as the moved content instead,
+ * if it is shorter than them, see detectMoves.
+ *
+ * @param {Array.<Operation>} operations The list of operations.
+ * @param {number} index The index of the first run, followed by the unchanged content and the
+ *    second run.
+ * @param {number} moveId The id of the move.
+ * @param {Segment} segment The segment covering the before and after lists of tokens.
+ * @param {DiffConfig} config The resolved options.
+ *
+ * @return {Array.<Operation>|null} The operations replacing the three operations, or null if
+ *    the unchanged content is not shorter than the runs.
+ */
+function swapMove(operations: Operation[], index: number, moveId: number, segment: Segment, config: DiffConfig): Operation[] | null {
+  const first = operations[index];
+  const middle = operations[index + 1];
+  const last = operations[index + 2];
+  if (!first || !middle || !last || middle.action !== 'equal' ||
+      getRunLength(middle) >= Math.min(getRunLength(first), getRunLength(last))){
+    return null;
+  }
+  const deletion = first.action === 'delete' ? first : last;
+  const insertion = first.action === 'delete' ? last : first;
+  const origin: Operation = {
+    action: 'move',
+    startInBefore: middle.startInBefore,
+    endInBefore: middle.endInBefore,
+    startInAfter: first === deletion ? (insertion.endInAfter ?? 0) + 1 : insertion.startInAfter,
+    endInAfter: undefined,
+    moveId: moveId
+  };
+  const destination: Operation = {
+    action: 'move',
+    startInBefore: first === deletion ? deletion.startInBefore : (deletion.endInBefore ?? 0) + 1,
+    endInBefore: undefined,
+    startInAfter: middle.startInAfter,
+    endInAfter: middle.endInAfter,
+    moveId: moveId
+  };
+  const runs = getOperations(createSubSegment(segment,
+    deletion.startInBefore, (deletion.endInBefore ?? 0) + 1,
+    insertion.startInAfter, (insertion.endInAfter ?? 0) + 1), config);
+  // The unchanged content moved from after the runs to before them, or the other way around.
+  return first === deletion ?
+    [destination].concat(runs, [origin]) :
+    [origin].concat(runs, [destination]);
+}
+
+/**
+ * A TokenWrapper provides a utility for grouping segments of tokens based on whether they're
+ * wrappable or not. A tag is considered wrappable if it is closed within the given set of
+ * tokens. For example, given the following tokens:
+ *
+ *      ['</b>', 'this', ' ', 'is', ' ', 'a', ' ', '<b>', 'test', '</b>', '!']
+ *
+ * The first '</b>' is not considered wrappable since the tag is not fully contained within the
+ * array of tokens. The '<b>', 'test', and '</b>' would be a part of the same wrappable segment
+ * since the entire bold tag is within the set of tokens.
+ *
+ * TokenWrapper has a method 'combine' which allows walking over the segments to wrap them in
+ * tags.
+ */
+type TokenNotes = {
+  tokens: string[];
+  notes: Array<{
+    isWrappable: boolean;
+    // Set on the opening tags closed within the tokens.
+    insertedTag: boolean;
+    // Set on the opening and closing tags of the elements closed within the tokens.
+    isBalanced: boolean;
+  }>;
+};
+
+function TokenWrapper(tokens: string[], config: DiffConfig): TokenNotes {
+  type Data = {
+    notes: Array<{isWrappable: boolean, insertedTag: boolean, isBalanced: boolean}>;
+    tagStack: Array<{tag: string, position: number}>;
+  };
+  return {
+    tokens: tokens,
+    notes: tokens.reduce<Data>(function(data: Data, token: string, index: number) {
+      data.notes.push({
+        isWrappable: isWrappable(token, config),
+        insertedTag: false,
+        isBalanced: false
+      });
+
+      const tag = !isVoidTag(token) && isTag(token);
+      const lastEntry = data.tagStack[data.tagStack.length - 1];
+      if (tag){
+        if (lastEntry && '/' + lastEntry.tag === tag){
+          data.notes[lastEntry.position]!.insertedTag = true;
+          data.notes[lastEntry.position]!.isBalanced = true;
+          data.notes[index]!.isBalanced = true;
+          data.tagStack.pop();
+        } else {
+          data.tagStack.push({
+            tag: tag,
+            position: index
+          });
+        }
+      }
+      return data;
+    }, {notes: [], tagStack: []}).notes
+  };
+}
+
+type WrappableTokens = {isWrappable: boolean, tokens: string[]};
+
+/**
+ * Wraps the contained tokens in tags based on output given by a map function. Each segment of
+ * tokens will be visited. A segment is a continuous run of either all wrappable
+ * tokens or unwrappable tokens. The given map function will be called with each segment of
+ * tokens and the resulting strings will be combined to form the wrapped HTML.
+ *
+ * @param {function(boolean, Array.<string>)} mapFn A function called with an array of tokens
+ *      and whether those tokens are wrappable or not. The result should be a string.
+ */
+function combineTokenNotes(
+  mapFn: (e: WrappableTokens) => string,
+  tagFn: (t: string | undefined) => string,
+  tokenNotes: TokenNotes
+) {
+  const notes = tokenNotes.notes;
+  const tokens = tokenNotes.tokens.slice();
+  const segments = tokens.reduce<{
+    list: WrappableTokens[];
+    status: boolean | null;
+    lastIndex: number;
+  }>(
+    function(data: {list: WrappableTokens[], status: boolean | null, lastIndex: number}, token: string, index: number){
+      if (notes[index]?.insertedTag){
+        tokens[index] = tagFn(tokens[index]);
+      }
+      if (data.status === null){
+        data.status = notes[index]?.isWrappable ?? false;
+      }
+      const status = notes[index]?.isWrappable ?? false;
+      if (status !== data.status){
+        data.list.push({
+          isWrappable: data.status,
+          tokens: tokens.slice(data.lastIndex, index)
+        });
+        data.lastIndex = index;
+        data.status = status;
+      }
+      if (index === tokens.length - 1){
+        data.list.push({
+          isWrappable: data.status,
+          tokens: tokens.slice(data.lastIndex, index + 1)
+        });
+      }
+      return data;
+    }, {list: [], status: null, lastIndex: 0}).list;
+
+  return segments.map(mapFn).join('');
+}
+
+/**
+ * Builds the attribute string for the given attribute names and values, skipping attributes
+ * with an empty name or value.
+ *
+ * @param {Array.<Array.<string>>} attributes The list of name and value pairs.
+ *
+ * @return {string} The attributes, each preceded by a space.
+ */
+function renderAttributes(attributes: Array<[string, string]>): string {
+  return attributes.reduce(function(attrs: string, attr: [string, string]){
+    return attr[0] && attr[1] ? attrs + ` ${attr[0]}="${escapeAttribute(attr[1])}"` : attrs;
+  }, '');
+}
+
+/**
+ * Splits a list of tokens at the tags that aren't closed within them, dropping those tags. The
+ * tags of the elements closed in between are dropped too, keeping their text only: the tokens
+ * end up in another element than the one they were in, where these elements may not be
+ * allowed, like a list item in a paragraph.
+ *
+ * @param {Array.<string>} content The list of tokens.
+ * @param {DiffConfig} config The resolved options.
+ *
+ * @return {Array.<Array.<string>>} The runs of tokens between the unbalanced tags.
+ */
+function splitAtUnbalancedTags(content: string[], config: DiffConfig): string[][] {
+  const notes = TokenWrapper(content, config).notes;
+  const isUnbalanced = function(token: string, index: number): boolean {
+    return !!isTag(token) && !isVoidTag(token) && !notes[index]?.isBalanced;
+  };
+  if (!content.some(isUnbalanced)){
+    return [content];
+  }
+  const parts: string[][] = [[]];
+  content.forEach(function(token: string, index: number){
+    if (isUnbalanced(token, index)){
+      parts.push([]);
+    } else if (!isTag(token) || isVoidTag(token)){
+      parts[parts.length - 1]?.push(token);
+    }
+  });
+  return parts;
+}
+
+/**
+ * Wraps and concatenates a list of tokens with a tag. Does not wrap tag tokens,
+ * unless they are wrappable (i.e. void and atomic tags).
+ *
+ * The comments are never wrapped either, but the changed ones found by the compareComments
+ * option are marked with an empty wrapper tag after them, holding the comment in its
+ * commentAttribute. The deleted comments themselves are only kept with preserveDeletedComments.
+ *
+ * The deleted tags that aren't closed within the deleted tokens are dropped, since the
+ * rendering follows the structure of the after tokens and they would unbalance it, and the
+ * deleted tokens on each side of them are wrapped separately, see splitAtUnbalancedTags.
+ *
+ * @param {string} action The kind of change, either 'insert' or 'delete'.
+ * @param {Array.<string>} content The list of tokens to wrap.
+ * @param {number} opIndex The index of the operation the tokens belong to.
+ * @param {DiffConfig} config The resolved options holding the tag and attribute names.
+ * @param {number} moveId (Optional) The id of the move, when the tokens are moved content.
+ * @param {boolean} keepUnbalancedTags (Optional) Keep the deleted tags that aren't closed
+ *      within the deleted tokens, when the rendering follows the structure of the before tokens.
+ * @param {boolean} keepWhitespace (Optional) Wrap the tokens even when they are only whitespace,
+ *      which is otherwise left out, see isWhitespaceSignificant.
+ */
+function wrap(action: 'insert' | 'delete', content: string[], opIndex: number, config: DiffConfig, moveId?: number, keepUnbalancedTags?: boolean, keepWhitespace?: boolean): string {
+  if (action === 'delete' && !keepUnbalancedTags){
+    const parts = splitAtUnbalancedTags(content, config);
+    if (parts.length > 1){
+      return parts.map(function(part: string[]){
+        return wrap(action, part, opIndex, config, moveId, true, keepWhitespace);
+      }).join('');
+    }
+  }
+  const wrapper: TokenNotes = TokenWrapper(content, config);
+  const tag = action === 'insert' ? config.insertTag : config.deleteTag;
+  let className = action === 'insert' ? config.insertClassName : config.deleteClassName;
+  const indexAttr: [string, string] = [config.operationIndexAttribute, String(opIndex)];
+  const moveAttr: [string, string] = [config.moveIdAttribute, moveId === undefined ? '' : String(moveId)];
+  if (moveId !== undefined && config.moveClassName){
+    className = className ? className + ' ' + config.moveClassName : config.moveClassName;
+  }
+  const attrList: Array<[string, string]> = [indexAttr, moveAttr, ['class', className]];
+  Object.keys(config.attributes).forEach(function(name: string){
+    attrList.push([name, config.attributes[name] ?? '']);
+  });
+  const attrs = renderAttributes(attrList);
+
+  return combineTokenNotes(
+    function(segment: WrappableTokens){
+      if (segment.isWrappable){
+        const val = segment.tokens.join('');
+        if (val.trim() || (keepWhitespace && val)){
+          return '<' + tag + attrs + '>' + val + '</' + tag + '>';
+        }
+      } else if (config.compareComments && config.commentAttribute){
+        return segment.tokens.map(function(token: string){
+          if (!isComment(token)){
+            return token;
+          }
+          const marker = '<' + tag + attrs + renderAttributes([[config.commentAttribute, token]]) + '></' + tag + '>';
+          return action === 'insert' || config.preserveDeletedComments ? token + marker : marker;
+        }).join('');
+      } else {
+        return segment.tokens.join('');
+      }
+      return '';
+    },
+    function(openingTag?: string){
+      const dataAttrs = renderAttributes([[config.diffNodeAttribute, tag], indexAttr, moveAttr]);
+
+      return openingTag ? openingTag.replace(/>\s*$/, dataAttrs + '$&') : '';
+    },
+    wrapper
+  );
+}
+
+/**
+ * Adds the class marking a whole inserted or deleted table row or column or list item to the
+ * opening tag of the row, cell or item, the first token of the operation.
+ *
+ * @param {Array.<string>} content The tokens of the operation.
+ * @param {string} action The kind of change, either 'insert' or 'delete'.
+ * @param {Operation} op The operation.
+ * @param {DiffConfig} config The resolved options holding the class names.
+ *
+ * @return {Array.<string>} The tokens, with the class added to the first one.
+ */
+function markPart(content: string[], action: 'insert' | 'delete', op: Operation, config: DiffConfig): string[] {
+  const part = op.part ?? op.tablePart;
+  let className = '';
+  if (part === 'row'){
+    className = action === 'insert' ? config.insertedRowClassName : config.deletedRowClassName;
+  } else if (part === 'column'){
+    className = action === 'insert' ? config.insertedColumnClassName : config.deletedColumnClassName;
+  } else if (part === 'item'){
+    className = action === 'insert' ? config.insertedItemClassName : config.deletedItemClassName;
+  }
+  const first = content[0];
+  return first === undefined || !className ? content : [addClassToTag(first, className)].concat(content.slice(1));
+}
+
+/**
+ * Renders the character level changes of a 'replace' operation.
+ *
+ * @param {Array.<CharacterOperation>} characters The character level changes.
+ * @param {number} opIndex The index of the 'replace' operation.
+ * @param {DiffConfig} config The resolved options holding the wrapper tags and attributes.
+ * @param {string} side Which changes to render: 'before' renders the deletions, 'after' the
+ *      insertions and 'both' renders all of them.
+ *
+ * @return {string} The rendering of the changes.
+ */
+function renderCharacters(characters: CharacterOperation[], opIndex: number, config: DiffConfig, side: 'before' | 'after' | 'both'): string {
+  return characters.reduce(function(rendering: string, change: CharacterOperation){
+    if (change.action === 'equal'){
+      return rendering + (side === 'before' ? change.before : change.after);
+    }
+    if (change.before && side !== 'after'){
+      rendering += wrap('delete', [change.before], opIndex, config);
+    }
+    if (change.after && side !== 'before'){
+      rendering += wrap('insert', [change.after], opIndex, config);
+    }
+    return rendering;
+  }, '');
+}
+
+/**
+ * Renders the tokens of one side of a 'format' operation, with its text wrapped in the format
+ * tag listing the formatting changes, e.g. '<strong><span data-diff-format="+strong">bold
+ * </span></strong>'.
+ *
+ * @param {Array.<Token>} tokens The tokens to render.
+ * @param {Operation} op The 'format' operation.
+ * @param {number} opIndex The index of the operation.
+ * @param {DiffConfig} config The resolved options holding the format tag and attributes.
+ *
+ * @return {string} The rendering of the tokens.
+ */
+function renderFormat(tokens: Token[], op: Operation, opIndex: number, config: DiffConfig): string {
+  const tag = config.formatTag;
+  const attrs = renderAttributes([
+    [config.operationIndexAttribute, String(opIndex)],
+    [config.formatAttribute, (op.formatChanges ?? []).join(' ')],
+    ['class', config.formatClassName]
+  ]);
+  return combineTokenNotes(
+    function(segment: WrappableTokens){
+      const val = segment.tokens.join('');
+      return segment.isWrappable && val.trim() ? '<' + tag + attrs + '>' + val + '</' + tag + '>' : val;
+    },
+    function(openingTag?: string){
+      return openingTag ?? '';
+    },
+    TokenWrapper(tokens.map(token => token.str), config)
+  );
+}
+
+/**
+ * Renders the before tokens of an operation as deleted content.
+ *
+ * @param {Operation} op The operation.
+ * @param {Array.<Token>} beforeTokens The before list of tokens.
+ * @param {number} opIndex The index of the operation.
+ * @param {DiffConfig} config The resolved options holding the wrapper tags and attributes.
+ * @param {boolean} keepUnbalancedTags Keep the tags that aren't closed within the deleted
+ *      tokens, when the rendering follows the structure of the before tokens, see wrap.
+ *
+ * @return {string} The rendering of the deleted content.
+ */
+function renderDeletion(op: Operation, beforeTokens: Token[], opIndex: number, config: DiffConfig, keepUnbalancedTags: boolean): string {
+  const tokens = op.endInBefore ?
+    beforeTokens.slice(op.startInBefore, op.endInBefore + 1) :
+    beforeTokens.slice(op.startInBefore, 1);
+  const val = tokens.filter(function(token: Token){
+    // The changed comments are marked even when they aren't kept, see wrap.
+    return config.preserveDeletedComments || (config.compareComments && !!config.commentAttribute) || !isComment(token.str);
+  }).map(function(token: Token){
+    return token.str;
+  });
+  return wrap('delete', markPart(val, 'delete', op, config), opIndex, config, op.moveId, keepUnbalancedTags,
+              tokens.some(token => !token.str.trim()) && isWhitespaceSignificant(beforeTokens, op.startInBefore, config));
+}
+
+/**
+ * Checks if the whitespace at the given position is significant, either because of the
+ * whitespace option or because it is inside a <pre> or a <code> element. The changes of
+ * significant whitespace are rendered even when they hold nothing else.
+ *
+ * @param {Array.<Token>} tokens The list of tokens.
+ * @param {number} index The position in the list of tokens.
+ * @param {DiffConfig} config The resolved options holding the whitespace mode.
+ *
+ * @return {boolean} True if the whitespace at that position is significant, false otherwise.
+ */
+function isWhitespaceSignificant(tokens: Token[], index: number, config: DiffConfig): boolean {
+  if (config.whitespace === 'significant'){
+    return true;
+  }
+  // Neither element holds blocks, so the search stops at the first block tag outside of them.
+  let depth = 0;
+  for (let i = index - 1; i >= 0; i--){
+    const tag = isTag(tokens[i]?.str ?? '');
+    if (tag === '/pre' || tag === '/code'){
+      depth++;
+    } else if (tag === 'pre' || tag === 'code'){
+      if (!depth){
+        return true;
+      }
+      depth--;
+    } else if (tag && !depth && blockTags.indexOf(tag.replace('/', '')) !== -1){
+      return false;
+    }
+  }
+  return false;
+}
+
+/**
+ * Checks whether a 'replace' operation replaces media by other media, i.e. whether both of its
+ * sides only hold media and whitespace.
+ *
+ * @param {Operation} op The 'replace' operation.
+ * @param {Array.<Token>} beforeTokens The before list of tokens.
+ * @param {Array.<Token>} afterTokens The after list of tokens.
+ * @param {DiffConfig} config The resolved options holding the media rules.
+ *
+ * @return {boolean} True if the operation replaces media, false otherwise.
+ */
+function isMediaReplacement(op: Operation, beforeTokens: Token[], afterTokens: Token[], config: DiffConfig): boolean {
+  return [getOperationTokens(op, beforeTokens, 'before'), getOperationTokens(op, afterTokens, 'after')].every(function(tokens: Token[]){
+    return tokens.some(token => !!getMediaRule(token.str, config)) &&
+      tokens.every(token => !token.str.trim() || !!getMediaRule(token.str, config));
+  });
+}
+
+/**
+ * OPS.equal/insert/delete/replace/modify/move/format are functions that render an operation
+ * into HTML content. The origin of a move is rendered like a deletion and its destination like
+ * an insertion, both with the move id attribute.
+ *
+ * @param {Object} op The operation that applies to a prticular list of tokens. Has the
+ *      following keys:
+ *      - {string} action One of ['replace', 'insert', 'delete', 'equal'].
+ *      - {number} startInBefore The beginning of the range in the list of before tokens.
+ *      - {number} endInBefore The end of the range in the list of before tokens.
+ *      - {number} startInAfter The beginning of the range in the list of after tokens.
+ *      - {number} endInAfter The end of the range in the list of after tokens.
+ * @param {Array.<string>} beforeTokens The before list of tokens.
+ * @param {Array.<string>} afterTokens The after list of tokens.
+ * @param {number} opIndex The index into the list of operations that identifies the change to
+ *      be rendered. This is used to mark wrapped HTML as part of the same operation.
+ * @param {DiffConfig} config The resolved options holding the wrapper tags and attributes.
+ *
+ * @return {string} The rendering of that operation.
+ */
+const OPS: {
+  [K in Operation['action']] : (op: Operation, beforeTokens: Token[], afterTokens: Token[], opIndex: number, config: DiffConfig) => string
+} = {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  'equal': function(op: Operation, beforeTokens: Token[], afterTokens: Token[], opIndex: number, config: DiffConfig){
+    const tokens = op.endInAfter ?
+      afterTokens.slice(op.startInAfter, op.endInAfter + 1) :
+      afterTokens.slice(op.startInAfter, 1);
+    return tokens.reduce(function(prev: string, curr: Token){
+      return prev + curr.str;
+    }, '');
+  },
+  'insert': function(op: Operation, beforeTokens: Token[], afterTokens: Token[], opIndex: number, config: DiffConfig){
+    const tokens = op.endInAfter ?
+      afterTokens.slice(op.startInAfter, op.endInAfter + 1) :
+      afterTokens.slice(op.startInAfter, 1);
+    const val = tokens.map(function(token: Token){
+      return token.str;
+    });
+    return wrap('insert', markPart(val, 'insert', op, config), opIndex, config, op.moveId, false,
+                tokens.some(token => !token.str.trim()) && isWhitespaceSignificant(afterTokens, op.startInAfter, config));
+  },
+  'delete': function(op: Operation, beforeTokens: Token[], afterTokens: Token[], opIndex: number, config: DiffConfig){
+    return renderDeletion(op, beforeTokens, opIndex, config, false);
+  },
+  'replace': function(op: Operation, beforeTokens: Token[], afterTokens: Token[], opIndex: number, config: DiffConfig){
+    if (op.characters){
+      return renderCharacters(op.characters, opIndex, config, 'both');
+    }
+    const rendering = OPS.delete(op, beforeTokens, afterTokens, opIndex, config)
+      + OPS.insert(op, beforeTokens, afterTokens, opIndex, config);
+    if (config.detectMediaChanges && isMediaReplacement(op, beforeTokens, afterTokens, config)){
+      const attrs = renderAttributes([
+        [config.operationIndexAttribute, String(opIndex)],
+        ['class', config.mediaClassName]
+      ]);
+      return '<span' + attrs + '>' + rendering + '</span>';
+    }
+    return rendering;
+  },
+  'modify': function(op: Operation, beforeTokens: Token[], afterTokens: Token[], opIndex: number, config: DiffConfig){
+    const token = afterTokens[op.startInAfter]?.str ?? '';
+    const oldAttributes = op.oldAttributes ?? parseAttributes(beforeTokens[op.startInBefore]?.str ?? '');
+    const attrs = renderAttributes([
+      [config.oldAttributesAttribute, JSON.stringify(oldAttributes)],
+      [config.operationIndexAttribute, String(opIndex)]
+    ]);
+    return addAttributesToTag(addClassToTag(token, config.modifiedClassName), attrs);
+  },
+  'move': function(op: Operation, beforeTokens: Token[], afterTokens: Token[], opIndex: number, config: DiffConfig){
+    return op.endInAfter === undefined ?
+      OPS.delete(op, beforeTokens, afterTokens, opIndex, config) :
+      OPS.insert(op, beforeTokens, afterTokens, opIndex, config);
+  },
+  'format': function(op: Operation, beforeTokens: Token[], afterTokens: Token[], opIndex: number, config: DiffConfig){
+    return renderFormat(getOperationTokens(op, afterTokens, 'after'), op, opIndex, config);
+  }
+};
+
+/**
+ * Returns the start tags that implicitly close an open element whose end tag may be omitted.
+ *
+ * @param {string} tagName The lowercased tag name of the open element.
+ *
+ * @return {Array.<string>|null} The tag names of the start tags, or null if the end tag of the
+ *    element may not be omitted.
+ */
+function getImpliedEndTags(tagName: string): string[] | null {
+  switch (tagName){
+    case 'p':
+      return blockTags;
+    case 'li':
+      return ['li'];
+    case 'dt':
+    case 'dd':
+      return ['dt', 'dd'];
+    case 'td':
+    case 'th':
+      return ['td', 'th', 'tr', 'thead', 'tbody', 'tfoot'];
+    case 'tr':
+      return ['tr', 'thead', 'tbody', 'tfoot'];
+    case 'thead':
+    case 'tbody':
+    case 'tfoot':
+      return ['thead', 'tbody', 'tfoot'];
+    case 'colgroup':
+    case 'caption':
+      return ['colgroup', 'caption', 'thead', 'tbody', 'tfoot', 'tr'];
+    case 'option':
+      return ['option', 'optgroup'];
+    case 'optgroup':
+      return ['optgroup'];
+    case 'rt':
+    case 'rp':
+      return ['rt', 'rp'];
+    case 'html':
+    case 'head':
+    case 'body':
+      return [];
+  }
+  return null;
+}
+
+/**
+ * Updates the stack of open elements with a start tag, closing the open elements it closes
+ * implicitly, like an open list item closed by the next one.
+ *
+ * @param {Array.<string>} openElements The tag names of the open elements, innermost last.
+ * @param {string} tag The start tag.
+ * @param {string} tagName The lowercased tag name of the start tag.
+ *
+ * @return {boolean} True if the element was opened, false if it is a void element.
+ */
+function openElement(openElements: string[], tag: string, tagName: string): boolean {
+  let last = openElements[openElements.length - 1];
+  while (last && (getImpliedEndTags(last) ?? []).indexOf(tagName) !== -1){
+    openElements.pop();
+    last = openElements[openElements.length - 1];
+  }
+  if (voidTags.indexOf(tagName) !== -1 || /\/>$/.test(tag)){
+    return false;
+  }
+  openElements.push(tagName);
+  return true;
+}
+
+/**
+ * Updates the stack of open elements with an end tag, closing the open elements whose end tag
+ * may be omitted on the way.
+ *
+ * @param {Array.<string>} openElements The tag names of the open elements, innermost last.
+ * @param {string} tagName The lowercased tag name of the end tag.
+ *
+ * @return {boolean} False if the end tag doesn't match an open element, true otherwise.
+ */
+function closeElement(openElements: string[], tagName: string): boolean {
+  for (let index = openElements.length - 1; index >= 0; index--){
+    const openTagName = openElements[index] ?? '';
+    if (openTagName === tagName){
+      openElements.length = index;
+      return true;
+    }
+    if (getImpliedEndTags(openTagName) === null){
+      return false;
+    }
+  }
+  return false;
+}
+
+// Elements that can only hold other elements, so neither inserted nor deleted text.
+const textlessTags = ['colgroup', 'dl', 'ol', 'optgroup', 'select', 'table', 'tbody', 'tfoot', 'thead', 'tr', 'ul'];
+
+/**
+ * Moves the insert and delete tags rendered where their content isn't allowed, e.g. deleted
+ * text rendered between two table cells, to the next position where it is, e.g. into the
+ * next cell or after the table.
+ *
+ * @param {string} html The rendered HTML.
+ * @param {DiffConfig} config The resolved options holding the wrapper tags.
+ *
+ * @return {string} The HTML with the insert and delete tags moved.
+ */
+function placeWrappers(html: string, config: DiffConfig): string {
+  if (!/<(table|ul|ol|dl|select)[\s/>]/i.test(html)){
+    return html;
+  }
+  const wrapperTags = [config.insertTag.toLowerCase(), config.deleteTag.toLowerCase()];
+  const openElements: string[] = [];
+  let result = '';
+  let pending = '';
+  let start = 0;
+  let index = html.indexOf('<');
+  while (index !== -1){
+    const markup = readMarkup(html, index, config);
+    if (!markup || markup.type !== 'tag'){
+      index = html.indexOf('<', markup ? markup.end : index + 1);
+      continue;
+    }
+    const tag = html.slice(index, markup.end);
+    const tagName = (/^<\/?([^\t\n\f\r />]+)/.exec(tag)?.[1] ?? '').toLowerCase();
+    const parent = openElements[openElements.length - 1];
+    let end = markup.end;
+    if (tag.charAt(1) === '/'){
+      closeElement(openElements, tagName);
+    } else if (wrapperTags.indexOf(tagName) !== -1 && parent && textlessTags.indexOf(parent) !== -1){
+      end = readElement(html, markup.end, tagName, config);
+      result += html.slice(start, index);
+      pending += html.slice(index, end);
+      start = end;
+    } else {
+      openElement(openElements, tag, tagName);
+    }
+    const last = openElements[openElements.length - 1];
+    if (pending && start < end && (!last || textlessTags.indexOf(last) === -1)){
+      result += html.slice(start, end) + pending;
+      pending = '';
+      start = end;
+    }
+    index = html.indexOf('<', end);
+  }
+  return result + html.slice(start) + pending;
+}
+
+/**
+ * A problem found in HTML by validate.
+ */
+export type ValidationError = {
+  // 'unexpected-end-tag' for an end tag that doesn't match an open element, 'unclosed-element'
+  // for an element whose end tag is missing and may not be omitted, and 'misplaced-wrapper' for
+  // an insert or delete tag where its content isn't allowed, e.g. directly in a table row.
+  type: 'unexpected-end-tag' | 'unclosed-element' | 'misplaced-wrapper';
+  // The lowercased name of the tag.
+  tagName: string;
+  // The index of the tag in the HTML, the start tag for the unclosed elements.
+  index: number;
+};
+
+/**
+ * Checks that HTML, e.g. the result of diff(), is well-formed: every end tag closes an open
+ * element, every element is closed unless its end tag may be omitted, and the insert and delete
+ * tags are only where their content is allowed. The content of the atomic elements is checked
+ * like any other content.
+ *
+ * @param {string} html The HTML to check.
+ * @param {DiffOptions} options (Optional) The options holding the insert and delete tags.
+ *
+ * @return {Array.<ValidationError>} The problems found, in order, empty if the HTML is
+ *    well-formed.
+ */
+export function validate(html: string, options?: DiffOptions | null): ValidationError[] {
+  const config = resolveOptions(options);
+  const scanConfig = resolveOptions({atomicTags: []});
+  const wrapperTags = [config.insertTag.toLowerCase(), config.deleteTag.toLowerCase()];
+  const openElements: string[] = [];
+  const positions: number[] = [];
+  const errors: ValidationError[] = [];
+  let index = html.indexOf('<');
+  while (index !== -1){
+    const markup = readMarkup(html, index, scanConfig);
+    if (!markup || markup.type !== 'tag'){
+      index = html.indexOf('<', markup ? markup.end : index + 1);
+      continue;
+    }
+    const tag = html.slice(index, markup.end);
+    const tagName = (/^<\/?([^\t\n\f\r />]+)/.exec(tag)?.[1] ?? '').toLowerCase();
+    if (tag.charAt(1) === '/'){
+      if (closeElement(openElements, tagName)){
+        positions.length = openElements.length;
+      } else if (voidTags.indexOf(tagName) === -1){
+        errors.push({type: 'unexpected-end-tag', tagName: tagName, index: index});
+      }
+    } else {
+      const parent = openElements[openElements.length - 1];
+      if (wrapperTags.indexOf(tagName) !== -1 && parent && textlessTags.indexOf(parent) !== -1){
+        errors.push({type: 'misplaced-wrapper', tagName: tagName, index: index});
+      }
+      const opened = openElement(openElements, tag, tagName);
+      positions.length = openElements.length - (opened ? 1 : 0);
+      if (opened){
+        positions.push(index);
+      }
+    }
+    index = html.indexOf('<', markup.end);
+  }
+  openElements.forEach(function(tagName: string, position: number){
+    if (getImpliedEndTags(tagName) === null){
+      errors.push({type: 'unclosed-element', tagName: tagName, index: positions[position] ?? 0});
+    }
+  });
+  return errors;
+}
+
+/**
+ * Merges the positional className and dataPrefix arguments of the old signatures into an
+ * options object. When an options object is given instead, it is returned unchanged.
+ *
+ * @param {string|DiffOptions} classNameOrOptions The className or the options object.
+ * @param {string} dataPrefix (Optional) The data prefix, only used with a className.
+ * @param {string} atomicTags (Optional) The atomic tags, only used with a className.
+ *
+ * @return {DiffOptions} The options object.
+ */
+function toOptions(classNameOrOptions?: string | DiffOptions | null, dataPrefix?: string | null, atomicTags?: string | null): DiffOptions {
+  if (classNameOrOptions && typeof classNameOrOptions === 'object'){
+    return classNameOrOptions;
+  }
+  return {
+    className: classNameOrOptions,
+    dataPrefix: dataPrefix,
+    atomicTags: atomicTags
+  };
+}
+
+/**
+ * Renders a list of operations into HTML content. The result is the combined version
+ * of the before and after tokens with the differences wrapped in tags.
+ *
+ * The result follows the structure of the after tokens, so it is well-formed when they are:
+ * the deleted tags that would unbalance it are dropped, see wrap, and the insert and delete
+ * tags are moved where their content is allowed, see placeWrappers.
+ *
+ * @param {Array.<string>} beforeTokens The before list of tokens.
+ * @param {Array.<string>} afterTokens The after list of tokens.
+ * @param {Array.<Object>} operations The list of operations to transform the before
+ *      list of tokens into the after list of tokens, where each operation has the
+ *      following keys:
+ *      - {string} action One of {'replace', 'insert', 'delete', 'equal'}.
+ *      - {number} startInBefore The beginning of the range in the list of before tokens.
+ *      - {number} endInBefore The end of the range in the list of before tokens.
+ *      - {number} startInAfter The beginning of the range in the list of after tokens.
+ *      - {number} endInAfter The end of the range in the list of after tokens.
+ * @param {string|DiffOptions} dataPrefix (Optional) The prefix to use in data attributes, or
+ *      an options object.
+ * @param {string} className (Optional) The class name to include in the wrapper tag.
+ *
+ * @return {string} The rendering of the list of operations.
+ */
+export function renderOperations(beforeTokens: Token[], afterTokens: Token[], operations: Operation[], dataPrefix?: string | DiffOptions | null, className?: string | null){
+  const config = resolveOptions(dataPrefix && typeof dataPrefix === 'object' ?
+    dataPrefix : toOptions(className, dataPrefix));
+  return placeWrappers(operations.reduce(function(rendering: string, op: Operation, index: number){
+    return rendering + OPS[op.action](
+      op, beforeTokens, afterTokens, index, config);
+  }, ''), config);
+}
+
+export type SideBySide = {
+  before: string;
+  after: string;
+};
+
+/**
+ * Renders an empty element marking the position of a change on the side of the document that
+ * doesn't hold any of its tokens, so both sides have an anchor for every change.
+ *
+ * @param {number} opIndex The index of the operation.
+ * @param {DiffConfig} config The resolved options holding the operation index attribute name.
+ *
+ * @return {string} The placeholder element, or an empty string if no operation index
+ *    attribute is rendered.
+ */
+function renderPlaceholder(opIndex: number, config: DiffConfig): string {
+  if (!config.operationIndexAttribute){
+    return '';
+  }
+  return '<span' + renderAttributes([[config.operationIndexAttribute, String(opIndex)]]) + '></span>';
+}
+
+/**
+ * Renders a list of operations into two HTML documents: the before document with the
+ * deletions wrapped in tags and the after document with the insertions wrapped in tags. Both
+ * documents carry the same operation index attributes, insertions are marked by an empty
+ * placeholder in the before document and deletions in the after document. Like renderOperations,
+ * both documents are well-formed when the tokens are.
+ *
+ * @param {Array.<Token>} beforeTokens The before list of tokens.
+ * @param {Array.<Token>} afterTokens The after list of tokens.
+ * @param {Array.<Operation>} operations The list of operations to transform the before
+ *      list of tokens into the after list of tokens.
+ * @param {DiffOptions} options (Optional) The options holding the wrapper tags and attributes.
+ *
+ * @return {SideBySide} The rendered before and after documents.
+ */
+export function renderSideBySide(beforeTokens: Token[], afterTokens: Token[], operations: Operation[], options?: DiffOptions | null): SideBySide {
+  const config = resolveOptions(options);
+  const panes = operations.reduce(function(rendering: SideBySide, op: Operation, index: number){
+    switch (op.action){
+      case 'equal':
+        rendering.before += joinTokens(getOperationTokens(op, beforeTokens, 'before'));
+        rendering.after += OPS.equal(op, beforeTokens, afterTokens, index, config);
+        break;
+      case 'insert':
+        rendering.before += renderPlaceholder(index, config);
+        rendering.after += OPS.insert(op, beforeTokens, afterTokens, index, config);
+        break;
+      case 'delete':
+        rendering.before += renderDeletion(op, beforeTokens, index, config, true);
+        rendering.after += renderPlaceholder(index, config);
+        break;
+      case 'replace':
+        if (op.characters){
+          rendering.before += renderCharacters(op.characters, index, config, 'before');
+          rendering.after += renderCharacters(op.characters, index, config, 'after');
+        } else {
+          rendering.before += renderDeletion(op, beforeTokens, index, config, true);
+          rendering.after += OPS.insert(op, beforeTokens, afterTokens, index, config);
+        }
+        break;
+      case 'move':
+        if (op.endInAfter === undefined){
+          rendering.before += renderDeletion(op, beforeTokens, index, config, true);
+          rendering.after += renderPlaceholder(index, config);
+        } else {
+          rendering.before += renderPlaceholder(index, config);
+          rendering.after += OPS.insert(op, beforeTokens, afterTokens, index, config);
+        }
+        break;
+      case 'modify': {
+        const beforeToken = beforeTokens[op.startInBefore]?.str ?? '';
+        rendering.before += addAttributesToTag(addClassToTag(beforeToken, config.modifiedClassName),
+          renderAttributes([[config.operationIndexAttribute, String(index)]]));
+        rendering.after += OPS.modify(op, beforeTokens, afterTokens, index, config);
+        break;
+      }
+      case 'format':
+        rendering.before += renderFormat(getOperationTokens(op, beforeTokens, 'before'), op, index, config);
+        rendering.after += OPS.format(op, beforeTokens, afterTokens, index, config);
+        break;
+    }
+    return rendering;
+  }, {before: '', after: ''});
+  return {before: placeWrappers(panes.before, config), after: placeWrappers(panes.after, config)};
+}
+
+/**
+ * Compares two pieces of HTML content and returns the before content with the deletions
+ * wrapped in <del> tags and the after content with the insertions wrapped in <ins> tags.
+ *
+ * @param {string} before The HTML content before the changes.
+ * @param {string} after The HTML content after the changes.
+ * @param {DiffOptions} options (Optional) The options used to compare and render the content.
+ *
+ * @return {SideBySide} The rendered before and after documents.
+ */
+export function diffSideBySide(before: string, after: string, options?: DiffOptions | null): SideBySide {
+  const config = resolveOptions(options);
+  const beforeTokens = htmlToTokens(before, config);
+  const afterTokens = htmlToTokens(after, config);
+  const ops = calculateOperations(beforeTokens, afterTokens, config);
+  return renderSideBySide(beforeTokens, afterTokens, ops, config);
+}
+
+/**
+ * Wraps a diff in a standalone HTML page, with the inserted and deleted content highlighted.
+ * When the diff is already a whole document, the styles are added to its head instead.
+ *
+ * @param {string} html The diff.
+ * @param {string} title The title of the page, unused when the diff is a whole document.
+ * @param {DiffOptions} options (Optional) The options holding the insert and delete tags.
+ *
+ * @return {string} The page.
+ */
+export function renderPage(html: string, title: string, options?: DiffOptions | null): string {
+  const config = resolveOptions(options);
+  const styles = '<style>\n' +
+    `${config.insertTag} { background: #e6ffec; color: #116329; text-decoration: none; }\n` +
+    `${config.deleteTag} { background: #ffebe9; color: #82071e; text-decoration: line-through; }\n` +
+    '</style>\n';
+  const headEnd = html.search(/<\/head\s*>/i);
+  if (headEnd !== -1){
+    return html.slice(0, headEnd) + styles + html.slice(headEnd);
+  }
+  return '<!DOCTYPE html>\n<html>\n<head>\n<meta charset="utf-8">\n' +
+    `<title>${escapeAttribute(title)}</title>\n` + styles + '</head>\n<body>\n' + html + '\n</body>\n</html>\n';
+}
+
+/**
+ * Compares two pieces of HTML content and returns the combined content with differences
+ * wrapped in <ins> and <del> tags.
+ *
+ * @param {string} before The HTML content before the changes.
+ * @param {string} after The HTML content after the changes.
+ * @param {string|DiffOptions} className (Optional) The class attribute to include in <ins>
+ *      and <del> tags, or an options object. The remaining parameters are ignored when an
+ *      options object is given.
+ * @param {string} dataPrefix (Optional) The data prefix to use for data attributes. The
+ *      operation index data attribute will be named `data-${dataPrefix-}operation-index`.
+ * @param {string} atomicTags (Optional) Comma separated list of atomic tag names. The
+ *     list has to be in the form `tag1,tag2,...` e. g. `head,script,style`. If not used,
+ *     the default list `iframe,object,math,svg,script,video,head,style,a` will be used.
+ *
+ * @return {string} The combined HTML content with differences wrapped in <ins> and <del> tags.
+ */
+export default function diff(before: string, after: string, className?: string | DiffOptions | null, dataPrefix?: string | null, atomicTags?: string | null){
+  if (before === after) return before;
+
+  const config = resolveOptions(toOptions(className, dataPrefix, atomicTags));
+  const beforeTokens = htmlToTokens(before, config);
+  const afterTokens = htmlToTokens(after, config);
+  const ops = calculateOperations(beforeTokens, afterTokens, config);
+  return renderOperations(beforeTokens, afterTokens, ops, config);
+}
+
+/**
+ * An operation together with the text of the tokens it covers.
+ */
+export type StructuredOperation = Operation & {
+  // The index of the operation, the value of the operation index attribute when rendered.
+  index: number;
+  // The text of the before tokens covered by the operation.
+  before: string;
+  // The text of the after tokens covered by the operation.
+  after: string;
+};
+
+export type DiffStats = {
+  // The number of operations that are not 'equal'.
+  changes: number;
+  // The number of words in 'insert' operations.
+  insertedWords: number;
+  // The number of words in 'delete' operations.
+  deletedWords: number;
+  // The number of before words in 'replace' operations.
+  replacedWords: number;
+  // The number of 'modify' operations.
+  modifiedTags: number;
+  // The number of words in the destinations of 'move' operations.
+  movedWords: number;
+  // The number of after words in 'format' operations.
+  formattedWords: number;
+};
+
+export type DiffResult = {
+  beforeTokens: Token[];
+  afterTokens: Token[];
+  // All operations, including the 'equal' ones.
+  operations: StructuredOperation[];
+  // The operations that are not 'equal', i.e. the change hunks.
+  changes: StructuredOperation[];
+  stats: DiffStats;
+  // The share of matching tokens in both documents, from 0 to 1. Moved tokens count as matching.
+  similarity: number;
+};
+
+/**
+ * Returns the tokens of one side of an operation.
+ *
+ * @param {Operation} op The operation.
+ * @param {Array.<Token>} tokens The before or after list of tokens.
+ * @param {string} side Either 'before' or 'after'.
+ *
+ * @return {Array.<Token>} The tokens covered by the operation, empty if the side is not
+ *    covered by the operation.
+ */
+function getOperationTokens(op: Operation, tokens: Token[], side: 'before' | 'after'): Token[] {
+  const start = side === 'before' ? op.startInBefore : op.startInAfter;
+  const end = side === 'before' ? op.endInBefore : op.endInAfter;
+  return end === undefined ? [] : tokens.slice(start, end + 1);
+}
+
+function countWords(tokens: Token[]): number {
+  return getWordKeys(tokens).length;
+}
+
+function joinTokens(tokens: Token[]): string {
+  return tokens.map(token => token.str).join('');
+}
+
+/**
+ * Summarizes a list of operations into structured operations, change counts and a similarity
+ * ratio.
+ *
+ * @param {Array.<Token>} beforeTokens The before list of tokens.
+ * @param {Array.<Token>} afterTokens The after list of tokens.
+ * @param {Array.<Operation>} operations The list of operations to transform the before
+ *      list of tokens into the after list of tokens.
+ *
+ * @return {DiffResult} The structured result.
+ */
+export function summarizeOperations(beforeTokens: Token[], afterTokens: Token[], operations: Operation[]): DiffResult {
+  const stats: DiffStats = {
+    changes: 0,
+    insertedWords: 0,
+    deletedWords: 0,
+    replacedWords: 0,
+    modifiedTags: 0,
+    movedWords: 0,
+    formattedWords: 0
+  };
+  let matchedTokens = 0;
+
+  const structured = operations.map(function(op: Operation, index: number): StructuredOperation {
+    const before = getOperationTokens(op, beforeTokens, 'before');
+    const after = getOperationTokens(op, afterTokens, 'after');
+    switch (op.action){
+      case 'equal':
+        matchedTokens += before.length + after.length;
+        break;
+      case 'modify':
+        matchedTokens += before.length + after.length;
+        stats.modifiedTags++;
+        break;
+      case 'insert':
+        stats.insertedWords += countWords(after);
+        break;
+      case 'delete':
+        stats.deletedWords += countWords(before);
+        break;
+      case 'replace':
+        stats.replacedWords += countWords(before);
+        break;
+      case 'move':
+        matchedTokens += before.length + after.length;
+        stats.movedWords += countWords(after);
+        break;
+      case 'format':
+        matchedTokens += before.length + after.length;
+        stats.formattedWords += countWords(after);
+        break;
+    }
+    if (op.action !== 'equal'){
+      stats.changes++;
+    }
+    const result: StructuredOperation = {
+      index: index,
+      before: joinTokens(before),
+      after: joinTokens(after),
+      action: op.action,
+      startInBefore: op.startInBefore,
+      endInBefore: op.endInBefore,
+      startInAfter: op.startInAfter,
+      endInAfter: op.endInAfter
+    };
+    if (op.characters){
+      result.characters = op.characters;
+    }
+    if (op.oldAttributes || op.newAttributes){
+      result.oldAttributes = op.oldAttributes;
+      result.newAttributes = op.newAttributes;
+    }
+    if (op.moveId !== undefined){
+      result.moveId = op.moveId;
+    }
+    if (op.part){
+      result.part = op.part;
+    }
+    if (op.tablePart){
+      result.tablePart = op.tablePart;
+    }
+    if (op.formatChanges){
+      result.formatChanges = op.formatChanges;
+    }
+    return result;
+  });
+
+  const totalTokens = beforeTokens.length + afterTokens.length;
+  return {
+    beforeTokens: beforeTokens,
+    afterTokens: afterTokens,
+    operations: structured,
+    changes: structured.filter(op => op.action !== 'equal'),
+    stats: stats,
+    similarity: totalTokens ? matchedTokens / totalTokens : 1
+  };
+}
+
+/**
+ * Compares two pieces of HTML content and returns the differences as data instead of as
+ * rendered HTML.
+ *
+ * @param {string} before The HTML content before the changes.
+ * @param {string} after The HTML content after the changes.
+ * @param {DiffOptions} options (Optional) The options used to tokenize and compare the content.
+ *
+ * @return {DiffResult} The operations with the text they cover, the change counts and the
+ *    similarity ratio of the two pieces of content.
+ */
+export function diffStructured(before: string, after: string, options?: DiffOptions | null): DiffResult {
+  const config = resolveOptions(options);
+  const beforeTokens = htmlToTokens(before, config);
+  const afterTokens = htmlToTokens(after, config);
+  const ops = calculateOperations(beforeTokens, afterTokens, config);
+  return summarizeOperations(beforeTokens, afterTokens, ops);
+}
+
+/**
+ * A change made to the same part of the base document in both merged versions, with
+ * different results.
+ */
+export type MergeConflict = {
+  // The id of the conflict, the value of the conflict attribute in the merged HTML.
+  id: number;
+  // The tokens covered by the conflict in each document, the end is undefined when the
+  // conflict covers no token of a document, e.g. content inserted in one of the versions only.
+  startInBase: number;
+  endInBase?: number;
+  startInOurs: number;
+  endInOurs?: number;
+  startInTheirs: number;
+  endInTheirs?: number;
+  // The HTML covered by the conflict in each document.
+  base: string;
+  ours: string;
+  theirs: string;
+};
+
+export type MergeResult = {
+  // The merged HTML, holding both versions of each conflict.
+  html: string;
+  // The conflicts, in the order of the document.
+  conflicts: MergeConflict[];
+};
+
+/**
+ * A run of base tokens changed by one of the versions, from start to end, excluded.
+ */
+type MergeHunk = {
+  version: 'ours' | 'theirs';
+  start: number;
+  end: number;
+};
+
+/**
+ * Maps each position between the base tokens, from 0 to their number, to the positions between
+ * the tokens of a version: `starts` to the first matching position, before the tokens inserted
+ * there, and `ends` to the last one, after them.
+ *
+ * @param {Array.<Operation>} operations The operations from the base tokens to the tokens of
+ *      the version.
+ *
+ * @return {Object} The `starts` and `ends` positions in the version.
+ */
+function mapBasePositions(operations: Operation[]): {starts: number[], ends: number[]} {
+  const starts: number[] = [];
+  const ends: number[] = [];
+  operations.forEach(function(op: Operation){
+    const endInBefore = op.endInBefore === undefined ? op.startInBefore : op.endInBefore + 1;
+    const endInAfter = op.endInAfter === undefined ? op.startInAfter : op.endInAfter + 1;
+    for (let position = op.startInBefore; position <= endInBefore; position++){
+      if (op.action === 'equal'){
+        starts[position] = starts[position] ?? op.startInAfter + position - op.startInBefore;
+        ends[position] = op.startInAfter + position - op.startInBefore;
+      } else {
+        starts[position] = starts[position] ?? (position === op.startInBefore ? op.startInAfter : endInAfter);
+        ends[position] = position === endInBefore ? endInAfter : op.startInAfter;
+      }
+    }
+  });
+  return {starts: starts, ends: ends};
+}
+
+/**
+ * Checks if the changes of two hunks can't be applied together. Changes of the same tokens
+ * overlap, and so do insertions at the same position or at the edge of changed tokens, since
+ * their order is unknown.
+ */
+function hunksOverlap(a: MergeHunk, b: MergeHunk): boolean {
+  if (a.start === a.end || b.start === b.end){
+    return a.start <= b.end && b.start <= a.end;
+  }
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Renders one version of a conflict, with its content wrapped in tags holding the conflict id
+ * and the version. Our version is rendered with all of its tags and the structure of the
+ * merged HTML follows it, so the tags of their version that aren't closed within the conflict
+ * are dropped, the same way the deleted tags are by renderOperations. When the version has no
+ * content to wrap, e.g. it deleted the conflicting content, an empty tag marks its place.
+ *
+ * @param {Array.<Token>} tokens The tokens of the version covered by the conflict.
+ * @param {number} id The id of the conflict.
+ * @param {string} version Either 'ours' or 'theirs'.
+ * @param {DiffConfig} config The resolved options holding the conflict attributes.
+ *
+ * @return {string} The rendered version.
+ */
+function renderConflictVersion(tokens: Token[], id: number, version: 'ours' | 'theirs', config: DiffConfig): string {
+  const content = tokens.map(token => token.str);
+  const parts = version === 'ours' ? [content] : splitAtUnbalancedTags(content, config);
+  const open = '<span' + renderAttributes([
+    [config.conflictAttribute, String(id)],
+    [config.conflictVersionAttribute, version],
+    ['class', config.conflictClassName]
+  ]) + '>';
+  let isMarked = false;
+  const html = parts.map(function(part: string[]){
+    return combineTokenNotes(
+      function(segment: WrappableTokens){
+        const val = segment.tokens.join('');
+        if (segment.isWrappable && val.trim()){
+          isMarked = true;
+          return open + val + '</span>';
+        }
+        return val;
+      },
+      openingTag => openingTag || '',
+      TokenWrapper(part, config)
+    );
+  }).join('');
+  return isMarked ? html : html + open + '</span>';
+}
+
+/**
+ * Merges two versions of a document made from the same base document. The changes each
+ * version made to the base document are found with calculateOperations: the changes made by
+ * one version only are applied, and so are the changes made the same way by both, while the
+ * changes of the same content made differently are conflicts. Both versions of each conflict
+ * are kept in the merged HTML, each wrapped in tags holding the id of the conflict and the
+ * version, e.g. `<span data-diff-conflict="1" data-diff-version="ours">`. The content that is
+ * equal in both versions is taken from the version that changed its markup, e.g. the
+ * attributes of a tag, ours when both did.
+ *
+ * @param {string} base The HTML content both versions were made from.
+ * @param {string} ours Our version of the HTML content.
+ * @param {string} theirs Their version of the HTML content.
+ * @param {DiffOptions} options (Optional) The options used to compare the content and to
+ *      render the conflicts.
+ *
+ * @return {MergeResult} The merged HTML and the conflicts.
+ */
+export function merge(base: string, ours: string, theirs: string, options?: DiffOptions | null): MergeResult {
+  const config = resolveOptions(options);
+  const baseTokens = htmlToTokens(base, config);
+  const versions = {
+    ours: htmlToTokens(ours, config),
+    theirs: htmlToTokens(theirs, config)
+  };
+  const operations = {
+    ours: calculateOperations(baseTokens, versions.ours, config),
+    theirs: calculateOperations(baseTokens, versions.theirs, config)
+  };
+  const positions = {
+    ours: mapBasePositions(operations.ours),
+    theirs: mapBasePositions(operations.theirs)
+  };
+
+  const hunks: MergeHunk[] = [];
+  (['ours', 'theirs'] as const).forEach(function(version: 'ours' | 'theirs'){
+    operations[version].forEach(function(op: Operation){
+      if (op.action !== 'equal'){
+        const end = op.endInBefore === undefined ? op.startInBefore : op.endInBefore + 1;
+        hunks.push({version: version, start: op.startInBefore, end: end});
+      }
+    });
+  });
+  hunks.sort((a, b) => a.start - b.start || a.end - b.end);
+
+  // Groups the overlapping hunks of both versions.
+  const groups = hunks.reduce(function(list: MergeHunk[][], hunk: MergeHunk){
+    const group = list[list.length - 1];
+    if (group && group.some(other => hunksOverlap(other, hunk))){
+      group.push(hunk);
+    } else {
+      list.push([hunk]);
+    }
+    return list;
+  }, []);
 
-  const postProcessed: Operation[] = [];
-  let lastOp = {action: 'none'};
+  function getVersionTokens(version: 'ours' | 'theirs', start: number, end: number): Token[] {
+    return versions[version].slice(positions[version].starts[start] ?? 0, positions[version].ends[end] ?? 0);
+  }
 
-  function isSingleWhitespace(op: Operation){
-    if (op.action !== 'equal'){
-      return false;
-    } else if (!op.endInBefore) {
-      return false;
-    } else if (op.endInBefore - op.startInBefore !== 0){
-      return false;
+  // The base tokens outside of the hunks are equal in both versions, at the positions after the
+  // tokens inserted before them.
+  function renderEqual(start: number, end: number): string {
+    let html = '';
+    for (let index = start; index < end; index++){
+      const baseToken = baseTokens[index]?.str;
+      const oursToken = versions.ours[positions.ours.ends[index] ?? 0]?.str;
+      const theirsToken = versions.theirs[positions.theirs.ends[index] ?? 0]?.str;
+      html += (oursToken !== baseToken ? oursToken : theirsToken) ?? '';
     }
-    return /^\s$/.test(beforeTokens.slice(op.startInBefore, op.endInBefore + 1).toString());
+    return html;
   }
 
-  operations.forEach(op => {
-    if ((isSingleWhitespace(op) && lastOp.action === 'replace') ||
-      (op.action === 'replace' && lastOp.action === 'replace')){
-      // lastOp.endInBefore = op.endInBefore;
-      // lastOp.endInAfter = op.endInAfter;
+  const result: MergeResult = {html: '', conflicts: []};
+  let position = 0;
+  groups.forEach(function(group: MergeHunk[]){
+    const start = group[0]?.start ?? position;
+    const end = Math.max.apply(null, group.map(hunk => hunk.end));
+    const oursTokens = getVersionTokens('ours', start, end);
+    const theirsTokens = getVersionTokens('theirs', start, end);
+    result.html += renderEqual(position, start);
+    position = end;
+    if (group.every(hunk => hunk.version === 'ours')){
+      result.html += joinTokens(oursTokens);
+    } else if (group.every(hunk => hunk.version === 'theirs')){
+      result.html += joinTokens(theirsTokens);
+    } else if (oursTokens.map(token => token.key).join('\0') === theirsTokens.map(token => token.key).join('\0')){
+      result.html += joinTokens(oursTokens);
     } else {
-      postProcessed.push(op);
-      lastOp = op;
+      const id = result.conflicts.length + 1;
+      const startInOurs = positions.ours.starts[start] ?? 0;
+      const startInTheirs = positions.theirs.starts[start] ?? 0;
+      result.conflicts.push({
+        id: id,
+        startInBase: start,
+        endInBase: end > start ? end - 1 : undefined,
+        startInOurs: startInOurs,
+        endInOurs: oursTokens.length ? startInOurs + oursTokens.length - 1 : undefined,
+        startInTheirs: startInTheirs,
+        endInTheirs: theirsTokens.length ? startInTheirs + theirsTokens.length - 1 : undefined,
+        base: joinTokens(baseTokens.slice(start, end)),
+        ours: joinTokens(oursTokens),
+        theirs: joinTokens(theirsTokens)
+      });
+      result.html += renderConflictVersion(oursTokens, id, 'ours', config) +
+        renderConflictVersion(theirsTokens, id, 'theirs', config);
     }
   });
-  return postProcessed;
+  result.html += renderEqual(position, baseTokens.length);
+  return result;
 }
 
 /**
- * A TokenWrapper provides a utility for grouping segments of tokens based on whether they're
- * wrappable or not. A tag is considered wrappable if it is closed within the given set of
- * tokens. For example, given the following tokens:
- *
- *      ['</b>', 'this', ' ', 'is', ' ', 'a', ' ', '<b>', 'test', '</b>', '!']
- *
- * The first '</b>' is not considered wrappable since the tag is not fully contained within the
- * array of tokens. The '<b>', 'test', and '</b>' would be a part of the same wrappable segment
- * since the entire bold tag is within the set of tokens.
- *
- * TokenWrapper has a method 'combine' which allows walking over the segments to wrap them in
- * tags.
+ * A change of a patch: the tokens deleted and inserted at a position of the document, with
+ * the unchanged tokens around them.
  */
-type TokenNotes = {
-  tokens: string[];
-  notes: Array<{
-    isWrappable: boolean;
-    insertedTag: boolean;
-  }>;
+export type PatchHunk = {
+  // The index of the first deleted token, or of the token the insertion precedes, in the
+  // document before and after the change.
+  startInBefore: number;
+  startInAfter: number;
+  // The unchanged tokens before and after the change.
+  contextBefore: string[];
+  contextAfter: string[];
+  deleted: string[];
+  inserted: string[];
 };
 
-function TokenWrapper(tokens: string[]): TokenNotes {
-  type Data = {
-    notes: Array<{isWrappable: boolean, insertedTag: boolean}>;
-    tagStack: Array<{tag: string, position: number}>;
-  };
-  return {
-    tokens: tokens,
-    notes: tokens.reduce<Data>(function(data: Data, token: string, index: number) {
-      data.notes.push({
-        isWrappable: isWrappable(token),
-        insertedTag: false
-      });
+/**
+ * The changes between two documents, as plain data that can be serialized to JSON, stored and
+ * applied later with applyPatch.
+ */
+export type Patch = {
+  version: 1;
+  hunks: PatchHunk[];
+};
 
-      const tag = !isVoidTag(token) && isTag(token);
-      const lastEntry = data.tagStack[data.tagStack.length - 1];
-      if (tag){
-        if (lastEntry && '/' + lastEntry.tag === tag){
-          data.notes[lastEntry.position]!.insertedTag = true;
-          data.tagStack.pop();
-        } else {
-          data.tagStack.push({
-            tag: tag,
-            position: index
-          });
-        }
+/**
+ * Creates a patch holding the changes between two documents, the deleted and inserted tokens
+ * with some unchanged tokens around them, see the patchContext option. Applying it to the
+ * before document gives the after document back exactly, including the changes that diff()
+ * ignores, e.g. changed attributes.
+ *
+ * @param {string} before The HTML content before the changes.
+ * @param {string} after The HTML content after the changes.
+ * @param {DiffOptions} options (Optional) The options used to tokenize and compare the
+ *      content, and the patchContext.
+ *
+ * @return {Patch} The patch.
+ */
+export function createPatch(before: string, after: string, options?: DiffOptions | null): Patch {
+  // The comments are kept so the documents are rebuilt exactly.
+  const config = resolveOptions({...resolveOptions(options), preserveComments: true});
+  const beforeTokens = htmlToTokens(before, config);
+  const afterTokens = htmlToTokens(after, config);
+  type Change = {startInBefore: number, endInBefore: number, startInAfter: number, endInAfter: number};
+  const changes: Change[] = [];
+  function addChange(startInBefore: number, endInBefore: number, startInAfter: number, endInAfter: number){
+    const last = changes[changes.length - 1];
+    if (last && last.endInBefore === startInBefore && last.endInAfter === startInAfter){
+      last.endInBefore = endInBefore;
+      last.endInAfter = endInAfter;
+    } else {
+      changes.push({startInBefore: startInBefore, endInBefore: endInBefore, startInAfter: startInAfter, endInAfter: endInAfter});
+    }
+  }
+
+  calculateOperations(beforeTokens, afterTokens, config).forEach(function(op: Operation){
+    const endInBefore = op.endInBefore === undefined ? op.startInBefore : op.endInBefore + 1;
+    const endInAfter = op.endInAfter === undefined ? op.startInAfter : op.endInAfter + 1;
+    if (op.action !== 'equal'){
+      addChange(op.startInBefore, endInBefore, op.startInAfter, endInAfter);
+      return;
+    }
+    // The equal tokens only have the same key, their markup may still differ.
+    for (let index = 0; index < endInBefore - op.startInBefore; index++){
+      if (beforeTokens[op.startInBefore + index]?.str !== afterTokens[op.startInAfter + index]?.str){
+        addChange(op.startInBefore + index, op.startInBefore + index + 1,
+                  op.startInAfter + index, op.startInAfter + index + 1);
       }
-      return data;
-    }, {notes: [], tagStack: []}).notes
+    }
+  });
+
+  const strings = beforeTokens.map(token => token.str);
+  return {
+    version: 1,
+    hunks: changes.map(function(change: Change, index: number){
+      const previousEnd = changes[index - 1]?.endInBefore ?? 0;
+      const nextStart = changes[index + 1]?.startInBefore ?? beforeTokens.length;
+      return {
+        startInBefore: change.startInBefore,
+        startInAfter: change.startInAfter,
+        contextBefore: strings.slice(Math.max(previousEnd, change.startInBefore - config.patchContext), change.startInBefore),
+        contextAfter: strings.slice(change.endInBefore, Math.min(nextStart, change.endInBefore + config.patchContext)),
+        deleted: strings.slice(change.startInBefore, change.endInBefore),
+        inserted: afterTokens.slice(change.startInAfter, change.endInAfter).map(token => token.str)
+      };
+    })
   };
 }
 
-type WrappableTokens = {isWrappable: boolean, tokens: string[]};
-
 /**
- * Wraps the contained tokens in tags based on output given by a map function. Each segment of
- * tokens will be visited. A segment is a continuous run of either all wrappable
- * tokens or unwrappable tokens. The given map function will be called with each segment of
- * tokens and the resulting strings will be combined to form the wrapped HTML.
+ * Applies a patch created by createPatch. Each change is looked for at its position in the
+ * document the patch was created from, shifted by the changes already applied, then further
+ * and further away from it. The deleted tokens and the tokens around them are compared by
+ * their keys, so differences of whitespace or of attributes are ignored, and up to patchFuzz
+ * tokens on each side of the change may not match at all.
  *
- * @param {function(boolean, Array.<string>)} mapFn A function called with an array of tokens
- *      and whether those tokens are wrappable or not. The result should be a string.
+ * @param {string} html The HTML content to apply the patch to.
+ * @param {Patch} patch The patch.
+ * @param {DiffOptions} options (Optional) The options used to tokenize the content, the ones
+ *      the patch was created with, and the patchFuzz.
+ *
+ * @return {string} The patched HTML content.
+ *
+ * @throws {Error} When a change of the patch can't be found in the content.
  */
-function combineTokenNotes(
-  mapFn: (e: WrappableTokens) => string,
-  tagFn: (t: string | undefined) => string,
-  tokenNotes: TokenNotes
-) {
-  const notes = tokenNotes.notes;
-  const tokens = tokenNotes.tokens.slice();
-  const segments = tokens.reduce<{
-    list: WrappableTokens[];
-    status: boolean | null;
-    lastIndex: number;
-  }>(
-    function(data: {list: WrappableTokens[], status: boolean | null, lastIndex: number}, token: string, index: number){
-      if (notes[index]?.insertedTag){
-        tokens[index] = tagFn(tokens[index]);
-      }
-      if (data.status === null){
-        data.status = notes[index]?.isWrappable ?? false;
-      }
-      const status = notes[index]?.isWrappable ?? false;
-      if (status !== data.status){
-        data.list.push({
-          isWrappable: data.status,
-          tokens: tokens.slice(data.lastIndex, index)
-        });
-        data.lastIndex = index;
-        data.status = status;
-      }
-      if (index === tokens.length - 1){
-        data.list.push({
-          isWrappable: data.status,
-          tokens: tokens.slice(data.lastIndex, index + 1)
+export function applyPatch(html: string, patch: Patch, options?: DiffOptions | null): string {
+  const config = resolveOptions({...resolveOptions(options), preserveComments: true});
+  if (!patch || patch.version !== 1 || !Array.isArray(patch.hunks)){
+    throw new Error('Unsupported patch format');
+  }
+  const tokens = htmlToTokens(html, config);
+  const getKey = (str: string) => getKeyForToken(str, config);
+  function matches(keys: string[], start: number){
+    return start >= 0 && start + keys.length <= tokens.length &&
+      keys.every((key, index) => tokens[start + index]?.key === key);
+  }
+
+  let result = '';
+  let position = 0;
+  let shift = 0;
+  patch.hunks.forEach(function(hunk: PatchHunk, hunkIndex: number){
+    const deleted = hunk.deleted.map(getKey);
+    const contextBefore = hunk.contextBefore.map(getKey);
+    const contextAfter = hunk.contextAfter.map(getKey);
+    const expected = hunk.startInBefore + shift;
+    const maxFuzz = Math.min(config.patchFuzz, Math.max(contextBefore.length, contextAfter.length));
+    let found = -1;
+    for (let fuzz = 0; fuzz <= maxFuzz && found === -1; fuzz++){
+      const before = contextBefore.slice(Math.min(fuzz, contextBefore.length));
+      const after = contextAfter.slice(0, Math.max(contextAfter.length - fuzz, 0));
+      for (let distance = 0; found === -1 && (expected - distance >= position || expected + distance <= tokens.length); distance++){
+        [expected - distance, expected + distance].some(function(start: number){
+          if (start - before.length >= position && matches(before, start - before.length) &&
+              matches(deleted, start) && matches(after, start + deleted.length)){
+            found = start;
+          }
+          return found !== -1;
         });
       }
-      return data;
-    }, {list: [], status: null, lastIndex: 0}).list;
-
-  return segments.map(mapFn).join('');
+    }
+    if (found === -1){
+      throw new Error(`Hunk ${hunkIndex + 1} of the patch doesn't apply`);
+    }
+    result += joinTokens(tokens.slice(position, found)) + hunk.inserted.join('');
+    position = found + deleted.length;
+    shift = found - hunk.startInBefore;
+  });
+  return result + joinTokens(tokens.slice(position));
 }
 
 /**
- * Wraps and concatenates a list of tokens with a tag. Does not wrap tag tokens,
- * unless they are wrappable (i.e. void and atomic tags).
+ * Reverses a patch, so applying it undoes the changes of the original patch.
  *
- * @param {sting} tag The tag name of the wrapper tags.
- * @param {Array.<string>} content The list of tokens to wrap.
- * @param {string} dataPrefix (Optional) The prefix to use in data attributes.
- * @param {string} className (Optional) The class name to include in the wrapper tag.
+ * @param {Patch} patch The patch.
+ *
+ * @return {Patch} The reversed patch.
  */
-function wrap(tag: string, content: string[], opIndex: number, dataPrefix: string, className: string){
-  const wrapper: TokenNotes = TokenWrapper(content);
-  dataPrefix = dataPrefix ? dataPrefix + '-' : '';
-  let attrs = ` data-${dataPrefix}operation-index="${opIndex}"`;
-  if (className){
-    attrs += ' class="' + className + '"';
-  }
+export function reversePatch(patch: Patch): Patch {
+  return {
+    version: 1,
+    hunks: patch.hunks.map(function(hunk: PatchHunk){
+      return {
+        startInBefore: hunk.startInAfter,
+        startInAfter: hunk.startInBefore,
+        contextBefore: hunk.contextBefore,
+        contextAfter: hunk.contextAfter,
+        deleted: hunk.inserted,
+        inserted: hunk.deleted
+      };
+    })
+  };
+}
 
-  return combineTokenNotes(
-    function(segment: WrappableTokens){
-      if (segment.isWrappable){
-        const val = segment.tokens.join('');
-        if (val.trim()){
-          return '<' + tag + attrs + '>' + val + '</' + tag + '>';
-        }
-      } else {
-        return segment.tokens.join('');
-      }
-      return '';
-    },
-    function(openingTag?: string){
-      let dataAttrs = ' data-diff-node="' + tag + '"';
-      dataAttrs += ` data-${dataPrefix}operation-index="${opIndex}"`;
+/**
+ * An edit of the after document of a diff session: the text replacing a range of characters.
+ */
+export type DiffEdit = {
+  // The offset of the first character replaced, and of the character after the range.
+  start: number;
+  end: number;
+  text: string;
+};
 
-      return openingTag ? openingTag.replace(/>\s*$/, dataAttrs + '$&') : '';
-    },
-    wrapper
-  );
+/**
+ * A diff between a document and a version of it being edited, updated as the edits come, see
+ * createDiffSession.
+ */
+export type DiffSession = {
+  before: string;
+  // The after document, with the edits applied.
+  after: string;
+  beforeTokens: Token[];
+  afterTokens: Token[];
+  // The operations between the tokens, see calculateOperations.
+  operations: Operation[];
+  // The rendering of the operations, see diff.
+  html: string;
+  // Applies edits to the after document and updates the diff. The edits are applied in order,
+  // each to the document left by the ones before it.
+  edit: (edits: DiffEdit | DiffEdit[]) => DiffSession;
+  // Replaces the after document and updates the diff, comparing only the part that changed.
+  update: (after: string) => DiffSession;
+};
+
+/**
+ * Moves the ranges of an operation.
+ *
+ * @param {Operation} op The operation to move.
+ * @param {number} beforeShift The number of tokens to move the before range by.
+ * @param {number} afterShift The number of tokens to move the after range by.
+ *
+ * @return {Operation} The moved operation.
+ */
+function shiftOperation(op: Operation, beforeShift: number, afterShift: number): Operation {
+  return {
+    ...op,
+    startInBefore: op.startInBefore + beforeShift,
+    endInBefore: op.endInBefore === undefined ? undefined : op.endInBefore + beforeShift,
+    startInAfter: op.startInAfter + afterShift,
+    endInAfter: op.endInAfter === undefined ? undefined : op.endInAfter + afterShift
+  };
 }
 
 /**
- * OPS.equal/insert/delete/replace are functions that render an operation into
- * HTML content.
+ * Appends a list of operations to another, joining the equal operations that meet.
  *
- * @param {Object} op The operation that applies to a prticular list of tokens. Has the
- *      following keys:
- *      - {string} action One of ['replace', 'insert', 'delete', 'equal'].
- *      - {number} startInBefore The beginning of the range in the list of before tokens.
- *      - {number} endInBefore The end of the range in the list of before tokens.
- *      - {number} startInAfter The beginning of the range in the list of after tokens.
- *      - {number} endInAfter The end of the range in the list of after tokens.
- * @param {Array.<string>} beforeTokens The before list of tokens.
- * @param {Array.<string>} afterTokens The after list of tokens.
- * @param {number} opIndex The index into the list of operations that identifies the change to
- *      be rendered. This is used to mark wrapped HTML as part of the same operation.
- * @param {string} dataPrefix (Optional) The prefix to use in data attributes.
- * @param {string} className (Optional) The class name to include in the wrapper tag.
+ * @param {Array.<Operation>} operations The first list of operations.
+ * @param {Array.<Operation>} next The operations following them.
  *
- * @return {string} The rendering of that operation.
+ * @return {Array.<Operation>} The joined list of operations.
  */
-const OPS: {
-  [K in 'equal' | 'insert' | 'delete' | 'replace'] : (op: Operation, beforeTokens: Token[], afterTokens: Token[], opIndex: number, dataPrefix: string, className: string) => string
-} = {
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  'equal': function(op: Operation, beforeTokens: Token[], afterTokens: Token[], opIndex: number, dataPrefix: string, className: string){
-    const tokens = op.endInAfter ?
-      afterTokens.slice(op.startInAfter, op.endInAfter + 1) :
-      afterTokens.slice(op.startInAfter, 1);
-    return tokens.reduce(function(prev: string, curr: Token){
-      return prev + curr.str;
-    }, '');
-  },
-  'insert': function(op: Operation, beforeTokens: Token[], afterTokens: Token[], opIndex: number, dataPrefix: string, className: string){
-    const tokens = op.endInAfter ?
-      afterTokens.slice(op.startInAfter, op.endInAfter + 1) :
-      afterTokens.slice(op.startInAfter, 1);
-    const val = tokens.map(function(token: Token){
-      return token.str;
-    });
-    return wrap('ins', val, opIndex, dataPrefix, className);
-  },
-  'delete': function(op: Operation, beforeTokens: Token[], afterTokens: Token[], opIndex: number, dataPrefix: string, className: string){
-    const tokens = op.endInBefore ?
-      beforeTokens.slice(op.startInBefore, op.endInBefore + 1) :
-      beforeTokens.slice(op.startInBefore, 1);
-    const val = tokens.map(function(token: Token){
-      return token.str;
-    });
-    return wrap('del', val, opIndex, dataPrefix, className);
-  },
-  'replace': function(op: Operation, beforeTokens: Token[], afterTokens: Token[], opIndex: number, dataPrefix: string, className: string){
-    return OPS.delete.apply(null, [op, beforeTokens, afterTokens, opIndex, dataPrefix, className])
-      + OPS.insert.apply(null, [op, beforeTokens, afterTokens, opIndex, dataPrefix, className]);
+function concatOperations(operations: Operation[], next: Operation[]): Operation[] {
+  const last = operations[operations.length - 1];
+  const first = next[0];
+  if (last?.action === 'equal' && first?.action === 'equal'){
+    return operations.slice(0, -1).concat({...last, endInBefore: first.endInBefore, endInAfter: first.endInAfter}, next.slice(1));
   }
-};
+  return operations.concat(next);
+}
 
 /**
- * Renders a list of operations into HTML content. The result is the combined version
- * of the before and after tokens with the differences wrapped in tags.
+ * Updates the operations between two lists of tokens after a range of the after tokens was
+ * replaced. The operations outside of the range are kept, the equal operations overlapping it
+ * are cut at its ends, and only the tokens left between the kept operations are compared.
  *
- * @param {Array.<string>} beforeTokens The before list of tokens.
- * @param {Array.<string>} afterTokens The after list of tokens.
- * @param {Array.<Object>} operations The list of operations to transform the before
- *      list of tokens into the after list of tokens, where each operation has the
- *      following keys:
- *      - {string} action One of {'replace', 'insert', 'delete', 'equal'}.
- *      - {number} startInBefore The beginning of the range in the list of before tokens.
- *      - {number} endInBefore The end of the range in the list of before tokens.
- *      - {number} startInAfter The beginning of the range in the list of after tokens.
- *      - {number} endInAfter The end of the range in the list of after tokens.
- * @param {string} dataPrefix (Optional) The prefix to use in data attributes.
- * @param {string} className (Optional) The class name to include in the wrapper tag.
+ * @param {Array.<Operation>} operations The operations found by getSegmentOperations before
+ *      the replacement.
+ * @param {Array.<Token>} beforeTokens The before list of tokens.
+ * @param {Array.<Token>} afterTokens The after list of tokens, with the range replaced.
+ * @param {number} start The start of the replaced range.
+ * @param {number} end The end of the replaced range in the previous list, excluded.
+ * @param {number} count The number of tokens replacing the range.
+ * @param {DiffConfig} config The resolved options.
  *
- * @return {string} The rendering of the list of operations.
+ * @return {Array.<Operation>} The operations between the lists of tokens.
  */
-export function renderOperations(beforeTokens: Token[], afterTokens: Token[], operations: Operation[], dataPrefix: string, className: string){
-  return operations.reduce(function(rendering: string, op: Operation, index: number){
-    return rendering + OPS[op.action](
-      op, beforeTokens, afterTokens, index, dataPrefix, className);
-  }, '');
+function spliceOperations(operations: Operation[], beforeTokens: Token[], afterTokens: Token[], start: number, end: number, count: number, config: DiffConfig): Operation[] {
+  const shift = count - (end - start);
+  const head: Operation[] = [];
+  const tail: Operation[] = [];
+  operations.forEach(function(op: Operation){
+    const endInAfter = op.endInAfter === undefined ? op.startInAfter : op.endInAfter + 1;
+    if (op.startInAfter < start && endInAfter <= start){
+      head.push(op);
+    } else if (op.startInAfter > end || (op.startInAfter === end && op.endInAfter !== undefined)){
+      tail.push(shiftOperation(op, 0, shift));
+    } else if (op.action === 'equal' && op.endInBefore !== undefined && op.endInAfter !== undefined){
+      if (op.startInAfter < start){
+        head.push({...op, endInBefore: op.startInBefore + start - op.startInAfter - 1, endInAfter: start - 1});
+      }
+      if (endInAfter > end){
+        tail.push({...op, startInBefore: op.startInBefore + end - op.startInAfter, startInAfter: end + shift,
+                   endInAfter: op.endInAfter + shift});
+      }
+    }
+  });
+
+  const last = head[head.length - 1];
+  const beforeStart = last ? (last.endInBefore ?? last.startInBefore - 1) + 1 : 0;
+  const afterStart = last ? (last.endInAfter ?? last.startInAfter - 1) + 1 : 0;
+  const beforeEnd = tail[0]?.startInBefore ?? beforeTokens.length;
+  const afterEnd = tail[0]?.startInAfter ?? afterTokens.length;
+  const segment = createDocumentSegment(beforeTokens.slice(beforeStart, beforeEnd), afterTokens.slice(afterStart, afterEnd));
+  const middle = getSegmentOperations(segment, config).map(op => shiftOperation(op, beforeStart, afterStart));
+  return concatOperations(concatOperations(head, middle), tail);
 }
 
 /**
- * Compares two pieces of HTML content and returns the combined content with differences
- * wrapped in <ins> and <del> tags.
+ * Finds the closest block boundary to a token, see isBlockBoundary.
+ *
+ * @param {Array.<Token>} tokens The list of tokens.
+ * @param {number} index The index of the token to start from.
+ * @param {number} step The direction to look in, -1 or 1.
+ *
+ * @return {number} The index of the block boundary, or -1 or the number of tokens when there is
+ *      none.
+ */
+function findBlockBoundary(tokens: Token[], index: number, step: number): number {
+  while (index >= 0 && index < tokens.length && !isBlockBoundary(tokens[index])){
+    index += step;
+  }
+  return index;
+}
+
+/**
+ * Creates a diff session comparing a document with a version of it being edited, e.g. the
+ * content of an editor with a live preview of its changes. The before document is tokenized
+ * once, and each edit of the after document only tokenizes again the blocks it touches, from
+ * the block boundary before it to the one after it, and only compares them with the tokens
+ * they replaced, so the work done by an edit hardly depends on the length of the documents.
+ *
+ * As the rest of the documents isn't compared again, the operations may differ from the ones
+ * diff() finds, e.g. when some content is moved from one end of the documents to the other one.
+ * A new session compares the whole documents again.
  *
  * @param {string} before The HTML content before the changes.
  * @param {string} after The HTML content after the changes.
- * @param {string} className (Optional) The class attribute to include in <ins> and <del> tags.
- * @param {string} dataPrefix (Optional) The data prefix to use for data attributes. The
- *      operation index data attribute will be named `data-${dataPrefix-}operation-index`.
- * @param {string} atomicTags (Optional) Comma separated list of atomic tag names. The
- *     list has to be in the form `tag1,tag2,...` e. g. `head,script,style`. If not used,
- *     the default list `iframe,object,math,svg,script,video,head,style` will be used.
+ * @param {DiffOptions} options (Optional) The options, see diff.
  *
- * @return {string} The combined HTML content with differences wrapped in <ins> and <del> tags.
+ * @return {DiffSession} The session, holding the diff of the documents.
+ *
+ * @throws {Error} When the range of an edit is out of the after document.
  */
-export default function diff(before: string, after: string, className: string, dataPrefix: string){
-  if (before === after) return before;
+export function createDiffSession(before: string, after: string, options?: DiffOptions | null): DiffSession {
+  const config = resolveOptions(options);
+  const beforeTokens = htmlToTokens(before, config);
+  let run = readTokens(after, config, 0, after.length, 0);
+  // The operations found between the tokens, before refineOperations.
+  let operations = getSegmentOperations(createDocumentSegment(beforeTokens, run.tokens), config);
 
-  const beforeTokens = htmlToTokens(before);
-  const afterTokens = htmlToTokens(after);
-  const ops = calculateOperations(beforeTokens, afterTokens);
-  return renderOperations(beforeTokens, afterTokens, ops, dataPrefix, className);
+  function refresh(){
+    session.afterTokens = run.tokens;
+    session.operations = refineOperations(operations, createDocumentSegment(beforeTokens, run.tokens), config);
+    session.html = session.after === before ? before :
+      renderOperations(beforeTokens, run.tokens, session.operations, config);
+    return session;
+  }
+
+  function applyEdit(edit: DiffEdit){
+    const html = session.after;
+    if (!(edit.start >= 0 && edit.start <= edit.end && edit.end <= html.length)){
+      throw new Error(`Edit range ${edit.start}-${edit.end} is out of the document`);
+    }
+    const next = html.slice(0, edit.start) + edit.text + html.slice(edit.end);
+    const shift = next.length - html.length;
+    // The tokens are read again from the block boundary before the edit to the one after it,
+    // or further when the edit changes the tokens after it, e.g. by opening a comment. The
+    // token the edit starts in may stop being a tag, so the boundary is looked for before it.
+    const first = findBlockBoundary(run.tokens, lowerBound(run.starts, edit.start) - 2, -1);
+    const offset = first === -1 ? 0 : run.starts[first] ?? 0;
+    const preformatted = first === -1 ? 0 : run.depths[first] ?? 0;
+    let stop = findBlockBoundary(run.tokens, lowerBound(run.starts, edit.end), 1);
+    let part: TokenRun;
+    for (;;){
+      const stopOffset = stop < run.tokens.length ? (run.starts[stop] ?? 0) + shift : next.length;
+      part = readTokens(next, config, offset, stopOffset, preformatted);
+      if (stop === run.tokens.length || (part.end === stopOffset && part.preformatted === run.depths[stop])){
+        break;
+      }
+      stop = findBlockBoundary(run.tokens, Math.max(stop + 1, lowerBound(run.starts, part.end - shift)), 1);
+    }
+
+    const start = Math.max(first, 0);
+    const tokens = run.tokens.slice(0, start).concat(part.tokens, run.tokens.slice(stop));
+    // The block boundary after the tokens read again is compared with them, so the content at
+    // the end of the edited block matches the same content followed by the boundary.
+    const end = Math.min(stop + 1, run.tokens.length);
+    operations = spliceOperations(operations, beforeTokens, tokens, start, end, part.tokens.length + end - stop, config);
+    run = {
+      tokens: tokens,
+      starts: run.starts.slice(0, start).concat(part.starts, run.starts.slice(stop).map(value => value + shift)),
+      depths: run.depths.slice(0, start).concat(part.depths, run.depths.slice(stop)),
+      end: next.length,
+      preformatted: part.preformatted
+    };
+    session.after = next;
+  }
+
+  const session: DiffSession = {
+    before: before,
+    after: after,
+    beforeTokens: beforeTokens,
+    afterTokens: run.tokens,
+    operations: [],
+    html: '',
+    edit: function(edits: DiffEdit | DiffEdit[]){
+      (Array.isArray(edits) ? edits : [edits]).forEach(applyEdit);
+      return refresh();
+    },
+    update: function(html: string){
+      const current = session.after;
+      let start = 0;
+      while (start < current.length && current.charAt(start) === html.charAt(start)){
+        start++;
+      }
+      let end = 0;
+      while (end < Math.min(current.length, html.length) - start &&
+             current.charAt(current.length - end - 1) === html.charAt(html.length - end - 1)){
+        end++;
+      }
+      return session.edit({start: start, end: current.length - end, text: html.slice(start, html.length - end)});
+    }
+  };
+  return refresh();
 }
@@ -0,0 +1,157 @@
+import diff, {calculateOperations, htmlToTokens} from "../dist/htmldiff.js";
+
+var algorithms = ['longest-match', 'myers', 'patience'];
+
+// A small deterministic random generator, so failures can be reproduced.
+function random(seed){
+  return function(){
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647;
+  };
+}
+
+function randomDocument(next, length){
+  var words = ['the', 'a', 'cat', 'dog', 'sat', 'on', 'mat', 'and', 'ran'];
+  var html = '';
+  for (var i = 0; i < length; i++){
+    var word = words[Math.floor(next() * words.length)];
+    html += next() < 0.1 ? '<b>' + word + '</b> ' : next() < 0.1 ? '<p>' + word + '</p>' : word + ' ';
+  }
+  return html;
+}
+
+function editDocument(next, html){
+  return html.split(' ').filter(function(){
+    return next() > 0.2;
+  }).map(function(word){
+    return next() < 0.1 ? word + ' new' : word;
+  }).join(' ');
+}
+
+function checkOperations(before, after, ops){
+  var positionInBefore = 0;
+  var positionInAfter = 0;
+  ops.forEach(function(op){
+    expect(op.startInBefore).to.equal(positionInBefore);
+    expect(op.startInAfter).to.equal(positionInAfter);
+    if (op.action !== 'insert'){
+      positionInBefore = op.endInBefore + 1;
+    }
+    if (op.action !== 'delete'){
+      positionInAfter = op.endInAfter + 1;
+    }
+    if (op.action === 'equal'){
+      expect(op.endInBefore - op.startInBefore).to.equal(op.endInAfter - op.startInAfter);
+      for (var i = 0; i <= op.endInBefore - op.startInBefore; i++){
+        expect(before[op.startInBefore + i].key).to.equal(after[op.startInAfter + i].key);
+      }
+    }
+  });
+  expect(positionInBefore).to.equal(before.length);
+  expect(positionInAfter).to.equal(after.length);
+}
+
+function countChangedTokens(ops){
+  return ops.reduce(function(count, op){
+    if (op.action === 'equal'){
+      return count;
+    }
+    return count +
+      (op.action !== 'insert' ? op.endInBefore - op.startInBefore + 1 : 0) +
+      (op.action !== 'delete' ? op.endInAfter - op.startInAfter + 1 : 0);
+  }, 0);
+}
+
+describe('Diff algorithms', function(){
+  algorithms.forEach(function(algorithm){
+    describe(algorithm, function(){
+      it('should return no changes for identical documents', function(){
+        var tokens = htmlToTokens('<p>a b c</p>');
+        expect(calculateOperations(tokens, tokens, {algorithm: algorithm})).to.eql([{
+          action: 'equal',
+          startInBefore: 0,
+          endInBefore: 6,
+          startInAfter: 0,
+          endInAfter: 6
+        }]);
+      });
+
+      it('should handle empty documents', function(){
+        var tokens = htmlToTokens('a b');
+        expect(calculateOperations([], tokens, {algorithm: algorithm})).to.eql([{
+          action: 'insert',
+          startInBefore: 0,
+          endInBefore: undefined,
+          startInAfter: 0,
+          endInAfter: 2
+        }]);
+        expect(calculateOperations(tokens, [], {algorithm: algorithm})).to.eql([{
+          action: 'delete',
+          startInBefore: 0,
+          endInBefore: 2,
+          startInAfter: 0,
+          endInAfter: undefined
+        }]);
+      });
+
+      it('should render a simple insertion like longest-match', function(){
+        expect(diff('<p>this is some text</p>', '<p>this is some more text</p>', {algorithm: algorithm}))
+          .to.equal('<p>this is some <ins data-operation-index="1">more </ins>text</p>');
+      });
+
+      it('should return operations covering both documents', function(){
+        var next = random(42);
+        for (var i = 0; i < 30; i++){
+          var beforeHtml = randomDocument(next, 40);
+          var before = htmlToTokens(beforeHtml);
+          var after = htmlToTokens(editDocument(next, beforeHtml));
+          checkOperations(before, after, calculateOperations(before, after, {algorithm: algorithm}));
+        }
+      });
+    });
+  });
+
+  it('should throw on an unknown algorithm', function(){
+    expect(function(){ diff('a', 'b', {algorithm: 'meyers'}); }).to.throw('Unknown algorithm meyers');
+  });
+
+  it('should never change more tokens with myers than with the other algorithms', function(){
+    var next = random(7);
+    for (var i = 0; i < 30; i++){
+      var beforeHtml = randomDocument(next, 40);
+      var before = htmlToTokens(beforeHtml);
+      var after = htmlToTokens(editDocument(next, beforeHtml));
+      var myers = countChangedTokens(calculateOperations(before, after, {algorithm: 'myers'}));
+      expect(myers).to.be.at.most(
+        countChangedTokens(calculateOperations(before, after, {algorithm: 'longest-match'})));
+      expect(myers).to.be.at.most(
+        countChangedTokens(calculateOperations(before, after, {algorithm: 'patience'})));
+    }
+  });
+
+  it('should keep the tags of an inserted paragraph with myers', function(){
+    expect(diff('<p>a</p><p>b</p>', '<p>x</p><p>a</p><p>b</p>', {algorithm: 'myers'})).to.equal(
+      '<p><ins data-operation-index="1">x</ins></p><p>a</p><p>b</p>');
+    expect(diff('<p>a</p><p>b</p>', '<p>x</p><p>a</p><p>b</p>')).to.equal(
+      '<p data-diff-node="ins" data-operation-index="0"><ins data-operation-index="0">x</ins></p>' +
+      '<p>a</p><p>b</p>');
+  });
+
+  it('should anchor the diff on unique tokens with patience', function(){
+    var before = 'one two one two three';
+    var after = 'one three two one two';
+    expect(diff(before, after, {algorithm: 'myers'})).to.equal(
+      'one <ins data-operation-index="1">three </ins>two one two' +
+      '<del data-operation-index="3"> three</del>');
+    expect(diff(before, after, {algorithm: 'patience'})).to.equal(
+      'one <del data-operation-index="1">two one two </del>three' +
+      '<ins data-operation-index="3"> two one two</ins>');
+  });
+
+  it('should fall back to myers when patience finds no unique tokens', function(){
+    var before = htmlToTokens('a a b b a');
+    var after = htmlToTokens('a b a b a a');
+    expect(calculateOperations(before, after, {algorithm: 'patience'})).to.eql(
+      calculateOperations(before, after, {algorithm: 'myers'}));
+  });
+});
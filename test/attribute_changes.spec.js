@@ -0,0 +1,106 @@
+import diff, {calculateOperations, htmlToTokens, parseAttributes} from "../dist/htmldiff.js";
+
+describe('Attribute changes', function(){
+  var options = {detectAttributeChanges: true};
+
+  describe('parseAttributes', function(){
+    it('should parse quoted, unquoted and empty attributes', function(){
+      expect(parseAttributes('<input TYPE="text" value=\'a > b\' size=3 disabled>')).to.eql({
+        type: 'text',
+        value: 'a > b',
+        size: '3',
+        disabled: ''
+      });
+    });
+
+    it('should return no attributes for text', function(){
+      expect(parseAttributes('text')).to.eql({});
+    });
+  });
+
+  describe('calculateOperations', function(){
+    it('should report a tag with a changed attribute as modified', function(){
+      var before = htmlToTokens('<p class="a">text</p>');
+      var after = htmlToTokens('<p class="b">text</p>');
+      var ops = calculateOperations(before, after, options);
+      expect(ops).to.eql([{
+        action: 'modify',
+        startInBefore: 0,
+        endInBefore: 0,
+        startInAfter: 0,
+        endInAfter: 0,
+        oldAttributes: {'class': 'a'},
+        newAttributes: {'class': 'b'}
+      }, {
+        action: 'equal',
+        startInBefore: 1,
+        endInBefore: 2,
+        startInAfter: 1,
+        endInAfter: 2
+      }]);
+    });
+
+    it('should not report attribute changes unless enabled', function(){
+      var before = htmlToTokens('<p class="a">text</p>');
+      var after = htmlToTokens('<p class="b">text</p>');
+      expect(calculateOperations(before, after).length).to.equal(1);
+    });
+
+    it('should ignore the order of attributes', function(){
+      var before = htmlToTokens('<p id="1" class="a">text</p>');
+      var after = htmlToTokens('<p class="a" id="1">text</p>');
+      expect(calculateOperations(before, after, options).length).to.equal(1);
+    });
+
+    it('should skip ignored attributes', function(){
+      var before = htmlToTokens('<p id="1" class="a">text</p>');
+      var after = htmlToTokens('<p id="2" class="a">text</p>');
+      expect(calculateOperations(before, after, {
+        detectAttributeChanges: true,
+        ignoreAttributes: ['id']
+      }).length).to.equal(1);
+    });
+
+    it('should only compare allowed attributes', function(){
+      var before = htmlToTokens('<p id="1" class="a">text</p>');
+      var after = htmlToTokens('<p id="2" class="b">text</p>');
+      var ops = calculateOperations(before, after, {
+        detectAttributeChanges: true,
+        compareAttributes: ['class']
+      });
+      expect(ops[0].oldAttributes).to.eql({'class': 'a'});
+      expect(ops[0].newAttributes).to.eql({'class': 'b'});
+    });
+  });
+
+  describe('diff', function(){
+    it('should render the old attributes on the modified tag', function(){
+      expect(diff('<p class="a">text</p>', '<p class="b">text</p>', options)).to.equal(
+        '<p class="b" data-diff-old-attrs="{&quot;class&quot;:&quot;a&quot;}" ' +
+        'data-operation-index="0">text</p>');
+    });
+
+    it('should render changed images', function(){
+      expect(diff('<img src="a.jpg" alt="a">', '<img src="a.jpg" alt="b" />', {
+        detectAttributeChanges: true,
+        oldAttributesAttribute: 'data-old'
+      })).to.equal(
+        '<img src="a.jpg" alt="b" data-old="{&quot;src&quot;:&quot;a.jpg&quot;,&quot;alt&quot;:&quot;a&quot;}" ' +
+        'data-operation-index="0"/>');
+    });
+
+    it('should add the modified class', function(){
+      var opts = {detectAttributeChanges: true, modifiedClassName: 'changed', oldAttributesAttribute: ''};
+      expect(diff('<p class="a">x</p>', '<p class=b>x</p>', opts)).to.equal(
+        '<p class="b changed" data-operation-index="0">x</p>');
+      expect(diff('<p>x</p>', '<p id="x">x</p>', opts)).to.equal(
+        '<p id="x" class="changed" data-operation-index="0">x</p>');
+    });
+
+    it('should keep the operation index of following changes in order', function(){
+      expect(diff('<a href="1">1</a> <b>x</b>', '<a href="1">1</a> <b title="t">y</b>', options)).to.equal(
+        '<a href="1">1</a> <b title="t" data-diff-old-attrs="{}" data-operation-index="1">' +
+        '<del data-operation-index="2">x</del><ins data-operation-index="2">y</ins></b>');
+    });
+  });
+});
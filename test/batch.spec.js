@@ -0,0 +1,101 @@
+import {compareDirectories, renderIndex} from "../dist/batch.js";
+
+function createFileSystem(files){
+  return {
+    files: files,
+    listFiles: function(directory){
+      return Object.keys(files).filter(function(file){
+        return file.indexOf(directory + '/') === 0;
+      }).map(function(file){
+        return file.slice(directory.length + 1);
+      });
+    },
+    readFile: function(path){
+      return files[path];
+    },
+    writeFile: function(path, content){
+      files[path] = content;
+    }
+  };
+}
+
+describe('Batch comparison', function(){
+  var fileSystem;
+
+  beforeEach(function(){
+    fileSystem = createFileSystem({
+      'before/index.html': '<p>This is some text</p>',
+      'before/guide/old.html': '<p>Old page</p>',
+      'before/same.html': '<p>Same</p>',
+      'before/notes.txt': 'a',
+      'after/index.html': '<p>That is some text</p>',
+      'after/guide/new.html': '<p>New page here</p>',
+      'after/same.html': '<p>Same</p>',
+      'after/notes.txt': 'b'
+    });
+  });
+
+  describe('compareDirectories', function(){
+    it('should report the added, removed, changed and unchanged files', function(){
+      var report = compareDirectories('before', 'after', 'out', null, fileSystem);
+      expect(report.files.map(function(file){
+        return [file.path, file.status, file.report];
+      })).to.eql([
+        ['guide/new.html', 'added', 'diff/guide/new.html'],
+        ['guide/old.html', 'removed', 'diff/guide/old.html'],
+        ['index.html', 'changed', 'diff/index.html'],
+        ['same.html', 'unchanged', null]
+      ]);
+      expect([report.added, report.removed, report.changed, report.unchanged]).to.eql([1, 1, 1, 1]);
+      expect(report.files[0].stats.insertedWords).to.equal(3);
+      expect(report.files[2].stats.replacedWords).to.equal(1);
+    });
+
+    it('should write a diff page for each changed file', function(){
+      compareDirectories('before', 'after', 'out', {className: 'diff'}, fileSystem);
+      expect(fileSystem.files['out/diff/index.html']).to.contain(
+        '<p><del data-operation-index="1" class="diff">This</del>' +
+        '<ins data-operation-index="1" class="diff">That</ins> is some text</p>');
+      expect(fileSystem.files['out/diff/guide/new.html']).to.contain(
+        '<p data-diff-node="ins" data-operation-index="0"><ins data-operation-index="0" class="diff">New page here</ins></p>');
+      expect(fileSystem.files).to.not.have.property('out/diff/same.html');
+    });
+
+    it('should write an index page linking to the diff pages', function(){
+      compareDirectories('before', 'after', 'out', {title: 'Release 2'}, fileSystem);
+      var index = fileSystem.files['out/index.html'];
+      expect(index).to.contain('<title>Release 2</title>');
+      expect(index).to.contain('<p>1 changed, 1 added, 1 removed, 1 unchanged.</p>');
+      expect(index).to.contain('<tr class="changed"><td><a href="diff/index.html">index.html</a></td>' +
+        '<td>changed</td><td>1</td><td>0</td><td>0</td><td>1</td><td>0</td><td>89%</td></tr>');
+      expect(index).to.not.contain('same.html');
+    });
+
+    it('should only compare the files with the given extensions', function(){
+      var report = compareDirectories('before', 'after', 'out', {extensions: ['.txt']}, fileSystem);
+      expect(report.files.map(function(file){ return file.path; })).to.eql(['notes.txt']);
+    });
+
+    it('should report each file as soon as it is compared', function(){
+      var paths = [];
+      compareDirectories('before', 'after', 'out', {
+        onFile: function(file){
+          paths.push(file.path);
+          expect(fileSystem.files).to.not.have.property('out/index.html');
+        }
+      }, fileSystem);
+      expect(paths).to.eql(['guide/new.html', 'guide/old.html', 'index.html', 'same.html']);
+    });
+  });
+
+  describe('renderIndex', function(){
+    it('should escape the paths and encode the links', function(){
+      var stats = {changes: 1, insertedWords: 1, deletedWords: 0, replacedWords: 0, modifiedTags: 0,
+                   movedWords: 0, formattedWords: 0};
+      expect(renderIndex({
+        files: [{path: 'a b&c.html', status: 'added', stats: stats, similarity: 0, report: 'diff/a b&c.html'}],
+        added: 1, removed: 0, changed: 0, unchanged: 0
+      }, 'Diff')).to.contain('<a href="diff/a%20b&amp;c.html">a b&amp;c.html</a>');
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import diff, {calculateOperations, diffSideBySide, htmlToTokens} from "../dist/htmldiff.js";
+
+describe('Character diff', function(){
+  var options = {characterDiff: true};
+
+  it('should refine a typo fix into character changes', function(){
+    expect(diff('I recieve it', 'I receive it', options)).to.equal(
+      'I rec<del data-operation-index="1">i</del>e<ins data-operation-index="1">i</ins>ve it');
+  });
+
+  it('should refine a changed number', function(){
+    expect(diff('1,250', '1,260', options)).to.equal(
+      '1,2<del data-operation-index="1">5</del><ins data-operation-index="1">6</ins>0');
+  });
+
+  it('should hold the character changes in the operation', function(){
+    var before = htmlToTokens('colour');
+    var after = htmlToTokens('color');
+    expect(calculateOperations(before, after, options)).to.eql([{
+      action: 'replace',
+      startInBefore: 0,
+      endInBefore: 0,
+      startInAfter: 0,
+      endInAfter: 0,
+      characters: [
+        {action: 'equal', before: 'colo', after: 'colo'},
+        {action: 'delete', before: 'u', after: ''},
+        {action: 'equal', before: 'r', after: 'r'}
+      ]
+    }]);
+  });
+
+  it('should not refine words that are too different', function(){
+    expect(diff('cat', 'dog', options)).to.equal(
+      '<del data-operation-index="0">cat</del><ins data-operation-index="0">dog</ins>');
+  });
+
+  it('should use the threshold', function(){
+    expect(diff('cat', 'cut', {characterDiff: true, characterDiffThreshold: 0.9})).to.equal(
+      '<del data-operation-index="0">cat</del><ins data-operation-index="0">cut</ins>');
+  });
+
+  it('should not refine words longer than the maximum length', function(){
+    expect(diff('abcdef', 'abcdeg', {characterDiff: true, characterDiffMaxLength: 5})).to.equal(
+      '<del data-operation-index="0">abcdef</del><ins data-operation-index="0">abcdeg</ins>');
+  });
+
+  it('should not refine the replacement of several words', function(){
+    expect(diff('a bc d', 'a bd e', options)).to.equal(
+      'a <del data-operation-index="1">bc d</del><ins data-operation-index="1">bd e</ins>');
+  });
+
+  it('should render the character changes side by side', function(){
+    expect(diffSideBySide('recieve', 'receive', options)).to.eql({
+      before: 'rec<del data-operation-index="0">i</del>eve',
+      after: 'rece<ins data-operation-index="0">i</ins>ve'
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import {renderPage} from "../dist/htmldiff.js";
+import {main, parseArguments} from "../dist/cli.js";
+
+function createIO(files){
+  var io = {
+    files: files,
+    out: '',
+    err: '',
+    readFile: function(path){
+      if (!(path in io.files)){
+        throw new Error('ENOENT: no such file, open \'' + path + '\'');
+      }
+      return io.files[path];
+    },
+    writeFile: function(path, content){
+      io.files[path] = content;
+    },
+    listFiles: function(directory){
+      return Object.keys(io.files).filter(function(file){
+        return file.indexOf(directory + '/') === 0;
+      }).map(function(file){
+        return file.slice(directory.length + 1);
+      });
+    },
+    isDirectory: function(path){
+      return io.listFiles(path).length > 0;
+    },
+    stdout: function(text){
+      io.out += text;
+    },
+    stderr: function(text){
+      io.err += text;
+    }
+  };
+  return io;
+}
+
+describe('Command line', function(){
+  var files = {'before.html': '<p>This is some text</p>', 'after.html': '<p>That is some text</p>'};
+
+  describe('parseArguments', function(){
+    it('should map the flags onto the diff options', function(){
+      expect(parseArguments([
+        '--class-name', 'diff', '--data-prefix=x', '--detect-moves', '--no-table-diff',
+        '--move-min-words', '5', '--ignore-attributes', 'id,style', '--attribute', 'title=changed',
+        'a.html', 'b.html'
+      ])).to.eql({
+        files: ['a.html', 'b.html'],
+        options: {
+          className: 'diff',
+          dataPrefix: 'x',
+          detectMoves: true,
+          tableDiff: false,
+          moveMinWords: 5,
+          ignoreAttributes: ['id', 'style'],
+          attributes: {title: 'changed'}
+        },
+        output: null,
+        page: false,
+        title: null,
+        extensions: null,
+        help: false
+      });
+    });
+
+    it('should read stdin and files starting with a dash as files', function(){
+      expect(parseArguments(['-', '--', '-after.html']).files).to.eql(['-', '-after.html']);
+    });
+
+    it('should reject unknown flags and missing values', function(){
+      expect(function(){ parseArguments(['--colour']); }).to.throw('Unknown option --colour');
+      expect(function(){ parseArguments(['a.html', '--output']); }).to.throw('Missing value for --output');
+      expect(function(){ parseArguments(['--max-work', 'lots']); }).to.throw('Invalid number for --max-work');
+    });
+  });
+
+  describe('main', function(){
+    it('should write the diff to stdout and exit with 1 when the files differ', function(){
+      var io = createIO(files);
+      expect(main(['before.html', 'after.html', '--class-name', 'diff'], io)).to.equal(1);
+      expect(io.out).to.equal('<p><del data-operation-index="1" class="diff">This</del>' +
+        '<ins data-operation-index="1" class="diff">That</ins> is some text</p>');
+    });
+
+    it('should exit with 0 when the files are the same', function(){
+      var io = createIO(files);
+      expect(main(['before.html', 'before.html'], io)).to.equal(0);
+      expect(io.out).to.equal(files['before.html']);
+    });
+
+    it('should read one of the files from stdin', function(){
+      var io = createIO({'-': '<p>This is text</p>', 'after.html': '<p>This is text</p>'});
+      expect(main(['-', 'after.html'], io)).to.equal(0);
+      expect(main(['-', '-'], io)).to.equal(2);
+      expect(io.err).to.equal('htmldiff: Only one of the files can be read from stdin\n');
+    });
+
+    it('should write the diff to the output file', function(){
+      var io = createIO(files);
+      expect(main(['-o', 'diff.html', 'before.html', 'after.html'], io)).to.equal(1);
+      expect(io.out).to.equal('');
+      expect(io.files['diff.html']).to.contain('<ins data-operation-index="1">That</ins>');
+    });
+
+    it('should exit with 2 on errors', function(){
+      var io = createIO(files);
+      expect(main(['before.html'], io)).to.equal(2);
+      expect(main(['before.html', 'missing.html'], io)).to.equal(2);
+      expect(io.err).to.equal('htmldiff: Expected two files to compare\n' +
+        'htmldiff: ENOENT: no such file, open \'missing.html\'\n');
+    });
+
+    it('should exit with 2 on unknown option values', function(){
+      var io = createIO(files);
+      expect(main(['--granularity', 'sentense', 'before.html', 'after.html'], io)).to.equal(2);
+      expect(main(['--whitespace=preserve', 'before.html', 'after.html'], io)).to.equal(2);
+      expect(main(['--word-segmenter', 'icu', 'before.html', 'after.html'], io)).to.equal(2);
+      expect(io.out).to.equal('');
+      expect(io.err).to.equal('htmldiff: Unknown granularity sentense\n' +
+        'htmldiff: Unknown whitespace mode preserve\n' +
+        'htmldiff: Unknown word segmenter icu\n');
+    });
+
+    it('should print the usage', function(){
+      var io = createIO(files);
+      expect(main(['--help'], io)).to.equal(0);
+      expect(io.out).to.contain('Usage: htmldiff [options] <before> <after>');
+    });
+  });
+
+  describe('Directories', function(){
+    var directories = {
+      'v1/a.html': '<p>one</p>',
+      'v1/b.html': '<p>two</p>',
+      'v2/a.html': '<p>one</p>',
+      'v2/c/d.html': '<p>three</p>'
+    };
+
+    it('should write a report and list the changed files', function(){
+      var io = createIO(Object.assign({}, directories));
+      expect(main(['v1', 'v2', '-o', 'report', '--title', 'Docs'], io)).to.equal(1);
+      expect(io.out).to.equal('D\tb.html\nA\tc/d.html\n');
+      expect(io.files['report/index.html']).to.contain('<h1>Docs</h1>');
+      expect(io.files['report/diff/c/d.html']).to.contain('three');
+    });
+
+    it('should exit with 0 when the directories hold the same files', function(){
+      var io = createIO(Object.assign({'v3/a.html': '<p>one</p>', 'v3/c/d.html': '<p>three</p>'}, directories));
+      expect(main(['v2', 'v3', '-o', 'report', '--extensions', '.html'], io)).to.equal(0);
+    });
+
+    it('should require an output directory', function(){
+      var io = createIO(Object.assign({}, directories));
+      expect(main(['v1', 'v2'], io)).to.equal(2);
+      expect(io.err).to.equal('htmldiff: Expected an --output directory to write the report to\n');
+    });
+  });
+
+  describe('renderPage', function(){
+    it('should wrap the diff in a standalone page', function(){
+      var io = createIO(files);
+      main(['before.html', 'after.html', '--page', '--title', 'Changes & fixes'], io);
+      expect(io.out).to.match(/^<!DOCTYPE html>/);
+      expect(io.out).to.contain('<title>Changes &amp; fixes</title>');
+      expect(io.out).to.contain('ins { background');
+      expect(io.out).to.contain('<body>\n<p><del data-operation-index="1">This</del>');
+    });
+
+    it('should add the styles to the head of whole documents', function(){
+      expect(renderPage('<html><head><title>a</title></head><body>b</body></html>', 'c', {insertTag: 'mark'}))
+        .to.match(/^<html><head><title>a<\/title><style>\nmark \{[^]*<\/style>\n<\/head><body>b<\/body><\/html>$/);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import diff, {calculateOperations, diffStructured, htmlToTokens} from "../dist/htmldiff.js";
+
+describe('Comments', function(){
+  var options = {preserveComments: true};
+
+  it('should be removed by default', function(){
+    expect(diff('<p>a</p>', '<p>a <!-- ko if: b -->b<!-- /ko --></p>')).to.equal(
+      '<p>a<ins data-operation-index="1"> b</ins></p>');
+  });
+
+  it('should be kept as tokens', function(){
+    expect(htmlToTokens('a<!-- x -->b<?xml?>', options).map(function(token){
+      return token.str;
+    })).to.eql(['a', '<!-- x -->', 'b', '<?xml?>']);
+  });
+
+  it('should be rendered from equal content', function(){
+    expect(diff('<!-- block:1 --><p>a</p>', '<!-- block:1 --><p>b</p>', options)).to.equal(
+      '<!-- block:1 --><p><del data-operation-index="1">a</del>' +
+      '<ins data-operation-index="1">b</ins></p>');
+  });
+
+  it('should not be wrapped when inserted', function(){
+    expect(diff('<p>a</p>', '<p>a <!-- ko if: b -->b<!-- /ko --></p>', options)).to.equal(
+      '<p>a<!-- ko if: b -->' +
+      '<ins data-operation-index="1">b</ins><!-- /ko --></p>');
+  });
+
+  it('should not be rendered when deleted', function(){
+    expect(diff('<p>a <!--[if IE]>b<![endif]--></p>', '<p>a</p>', options)).to.equal(
+      '<p>a</p>');
+  });
+
+  it('should be rendered when deleted if enabled', function(){
+    expect(diff('<p>a <!--[if IE]>b<![endif]--></p>', '<p>a</p>', {
+      preserveComments: true,
+      preserveDeletedComments: true
+    })).to.equal('<p>a<!--[if IE]>b<![endif]--></p>');
+  });
+
+  it('should be considered equal regardless of their contents', function(){
+    var before = htmlToTokens('a<!-- 1 -->', options);
+    var after = htmlToTokens('a<!-- 2 -->', options);
+    expect(calculateOperations(before, after).length).to.equal(1);
+    expect(diff('a<!-- 1 -->', 'a<!-- 2 -->', options)).to.equal('a<!-- 2 -->');
+  });
+
+  it('should be reported as changes if their contents are compared', function(){
+    var res = diffStructured('a<!-- 1 -->', 'a<!-- 2 -->', {
+      preserveComments: true,
+      compareComments: true
+    });
+    expect(res.changes.length).to.equal(1);
+    expect(res.changes[0].before).to.equal('<!-- 1 -->');
+    expect(res.changes[0].after).to.equal('<!-- 2 -->');
+    expect(res.stats.replacedWords).to.equal(0);
+  });
+
+  describe('When their contents are compared', function(){
+    var compared = {preserveComments: true, compareComments: true};
+
+    it('should mark the changed comments in the rendered diff', function(){
+      expect(diff('a<!-- 1 -->', 'a<!-- 2 -->', compared)).to.equal('a' +
+        '<del data-operation-index="1" data-diff-comment="&lt;!-- 1 -->"></del>' +
+        '<!-- 2 --><ins data-operation-index="1" data-diff-comment="&lt;!-- 2 -->"></ins>');
+    });
+
+    it('should keep the deleted comments with preserveDeletedComments', function(){
+      expect(diff('a<!-- 1 -->', 'a', {
+        preserveComments: true,
+        preserveDeletedComments: true,
+        compareComments: true
+      })).to.equal('a<!-- 1 --><del data-operation-index="1" data-diff-comment="&lt;!-- 1 -->"></del>');
+    });
+
+    it('should not mark the unchanged comments', function(){
+      expect(diff('a<!-- 1 -->', 'a b<!-- 1 -->', compared)).to.equal(
+        'a<ins data-operation-index="1"> b</ins><!-- 1 -->');
+    });
+
+    it('should render the changed comments unmarked without a commentAttribute', function(){
+      expect(diff('a<!-- 1 -->', 'a<!-- 2 -->', {
+        preserveComments: true,
+        compareComments: true,
+        commentAttribute: ''
+      })).to.equal('a<!-- 2 -->');
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import diff, {diffStructured, htmlToTokens} from "../dist/htmldiff.js";
+
+describe('Comparison modes', function(){
+  function keys(html, options){
+    return htmlToTokens(html, options).map(function(token){
+      return token.key;
+    });
+  }
+
+  describe('whitespace', function(){
+    it('should collapse the whitespace and non-breaking spaces by default', function(){
+      expect(keys('a \n b&nbsp;c')).to.eql(['a', ' ', 'b', ' ', 'c']);
+      expect(diff('<p>a  b&nbsp;c</p>', '<p>a b c</p>')).to.equal('<p>a b c</p>');
+    });
+
+    it('should compare the whitespace as it is when it is significant', function(){
+      var options = {whitespace: 'significant'};
+      expect(keys('a \n b&nbsp;c', options)).to.eql(['a', ' \n ', 'b', ' ', 'c']);
+      expect(diff('<p>a  b</p>', '<p>a b</p>', options)).to.equal(
+        '<p>a<del data-operation-index="1">  </del><ins data-operation-index="1"> </ins>b</p>');
+    });
+
+    it('should render the whitespace only insertions and deletions when it is significant', function(){
+      var options = {whitespace: 'significant'};
+      expect(diff('<p>a<b>b</b></p>', '<p>a <b>b</b></p>', options)).to.equal(
+        '<p>a<ins data-operation-index="1"> </ins><b>b</b></p>');
+      expect(diff('<p>a <b>b</b></p>', '<p>a<b>b</b></p>', options)).to.equal(
+        '<p>a<del data-operation-index="1"> </del><b>b</b></p>');
+      // Insignificant whitespace changes are left out.
+      expect(diff('<p>a<b>b</b></p>', '<p>a <b>b</b></p>')).to.equal('<p>a<b>b</b></p>');
+    });
+
+    it('should never report whitespace changes when it is ignored', function(){
+      var options = {whitespace: 'ignore'};
+      var before = '<ul>\n  <li>a, b</li>\n  <li>c</li>\n</ul>';
+      var after = '<ul><li>a,b</li><li>c</li></ul>';
+      expect(htmlToTokens(before, options).slice(0, 3)).to.eql([
+        {str: '<ul>\n  ', key: '<ul>'},
+        {str: '<li>', key: '<li>'},
+        {str: 'a, ', key: 'a,'}
+      ]);
+      expect(diff(before, after, options)).to.equal(after);
+      expect(diffStructured(before, after, options).changes).to.eql([]);
+    });
+
+    it('should keep the whitespace of <pre> and <code> elements significant', function(){
+      expect(keys('<pre>a  b</pre> <code>c\td</code>', {whitespace: 'ignore'})).to.eql(
+        ['<pre>', 'a', '  ', 'b', '</pre>', '<code>', 'c', '\t', 'd', '</code>']);
+      expect(diff('<pre>if (a)\n  b();</pre>', '<pre>if (a)\n    b();</pre>')).to.equal(
+        '<pre>if (a)<del data-operation-index="1">\n  </del><ins data-operation-index="1">\n    </ins>b();</pre>');
+      expect(diff('<p>a <code>x  y</code></p>', '<p>a  <code>xy</code></p>')).to.equal(
+        '<p>a  <code><del data-operation-index="1">x  y</del><ins data-operation-index="1">xy</ins></code></p>');
+    });
+
+    it('should throw on an unknown whitespace mode', function(){
+      expect(function(){ diff('a', 'b', {whitespace: 'preserve'}); }).to.throw('Unknown whitespace mode preserve');
+    });
+  });
+
+  describe('ignoreCase', function(){
+    it('should compare the text regardless of case', function(){
+      expect(keys('The Fox', {ignoreCase: true})).to.eql(['the', ' ', 'fox']);
+      expect(diff('<p>The Fox</p>', '<p>the fox</p>', {ignoreCase: true})).to.equal('<p>the fox</p>');
+      expect(diff('<p>The Fox</p>', '<p>the fox</p>')).to.not.equal('<p>the fox</p>');
+    });
+  });
+
+  describe('ignorePunctuation', function(){
+    it('should leave the punctuation out of the keys of words', function(){
+      expect(htmlToTokens('Hello, world!', {ignorePunctuation: true})).to.eql([
+        {str: 'Hello,', key: 'Hello'},
+        {str: ' ', key: ' '},
+        {str: 'world!', key: 'world'}
+      ]);
+    });
+
+    it('should not report changes of punctuation alone', function(){
+      var options = {ignorePunctuation: true};
+      expect(diff('<p>Hello, world.</p>', '<p>Hello world!</p>', options)).to.equal('<p>Hello world!</p>');
+      expect(diff('<p>Hello, world.</p>', '<p>Goodbye world!</p>', options)).to.equal(
+        '<p><del data-operation-index="1">Hello,</del><ins data-operation-index="1">Goodbye</ins> world!</p>');
+    });
+
+    it('should combine with the other modes', function(){
+      expect(diffStructured('<p>Hello,  World.</p>', '<p>hello world</p>', {
+        whitespace: 'ignore',
+        ignoreCase: true,
+        ignorePunctuation: true
+      }).changes).to.eql([]);
+    });
+  });
+});
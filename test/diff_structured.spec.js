@@ -0,0 +1,73 @@
+import {diffStructured} from "../dist/htmldiff.js";
+
+describe('diffStructured', function(){
+  var res;
+
+  describe('When text is changed', function(){
+    beforeEach(function(){
+      res = diffStructured('<p>a word is here</p>', '<p>a nother word is there</p>');
+    });
+
+    it('should return all operations with their text', function(){
+      expect(res.operations.map(function(op){
+        return [op.index, op.action, op.before, op.after];
+      })).to.eql([
+        [0, 'equal', '<p>a', '<p>a'],
+        [1, 'insert', '', ' nother'],
+        [2, 'equal', ' word is ', ' word is '],
+        [3, 'replace', 'here', 'there'],
+        [4, 'equal', '</p>', '</p>']
+      ]);
+    });
+
+    it('should list the changes', function(){
+      expect(res.changes.map(function(op){ return op.index; })).to.eql([1, 3]);
+      expect(res.changes[1]).to.eql({
+        index: 3,
+        action: 'replace',
+        before: 'here',
+        after: 'there',
+        startInBefore: 7,
+        endInBefore: 7,
+        startInAfter: 9,
+        endInAfter: 9
+      });
+    });
+
+    it('should count the changed words', function(){
+      expect(res.stats).to.eql({
+        changes: 2,
+        insertedWords: 1,
+        deletedWords: 0,
+        replacedWords: 1,
+        modifiedTags: 0,
+        movedWords: 0,
+        formattedWords: 0
+      });
+    });
+
+    it('should compute the similarity', function(){
+      // 8 of 9 before tokens and 8 of 11 after tokens are matched.
+      expect(res.similarity).to.equal(16 / 20);
+    });
+  });
+
+  it('should count deleted words and ignore tags', function(){
+    res = diffStructured('one <b>two</b> three', 'one three');
+    expect(res.stats.deletedWords).to.equal(1);
+  });
+
+  it('should report identical content as fully similar', function(){
+    res = diffStructured('same', 'same');
+    expect(res.changes).to.eql([]);
+    expect(res.similarity).to.equal(1);
+    expect(diffStructured('', '').similarity).to.equal(1);
+  });
+
+  it('should include attribute changes', function(){
+    res = diffStructured('<p class="a">x</p>', '<p class="b">x</p>', {detectAttributeChanges: true});
+    expect(res.stats.modifiedTags).to.equal(1);
+    expect(res.changes[0].oldAttributes).to.eql({'class': 'a'});
+    expect(res.similarity).to.equal(1);
+  });
+});
@@ -162,5 +162,20 @@ describe('findMatchingBlocks', function(){
                 expect(res[2].length).eql(1);
             });
         });
+
+        describe('When called with parts of the documents', function(){
+            beforeEach(function(){
+                var before = htmlToTokens('x y the dog bit a man');
+                var after = htmlToTokens('z the large brown dog bit a tall man');
+                segment = createSegment(before.slice(4), after.slice(2), 4, 2);
+                res = cut(segment);
+            });
+
+            it('should return the matches at their positions in the documents', function(){
+                expect(res.map(function(match){
+                    return [match.startInBefore, match.startInAfter, match.length];
+                })).eql([[4, 2, 1], [5, 7, 7], [12, 16, 1]]);
+            });
+        });
     });
 });
@@ -0,0 +1,76 @@
+import diff, {calculateOperations, diffSideBySide, diffStructured, htmlToTokens} from "../dist/htmldiff.js";
+
+describe('Format changes', function(){
+  var options = {detectFormatChanges: true};
+
+  describe('calculateOperations', function(){
+    it('should report the words made bold with their formatting tags', function(){
+      var ops = calculateOperations(htmlToTokens('<p>a b c</p>'), htmlToTokens('<p>a <strong>b</strong> c</p>'), options);
+      expect(ops.map(op => op.action)).to.eql(['equal', 'format', 'equal']);
+      expect(ops[1]).to.eql({
+        action: 'format',
+        startInBefore: 3,
+        endInBefore: 3,
+        startInAfter: 3,
+        endInAfter: 5,
+        formatChanges: ['+strong']
+      });
+    });
+
+    it('should not report format changes by default', function(){
+      var ops = calculateOperations(htmlToTokens('<p>a b c</p>'), htmlToTokens('<p>a <strong>b</strong> c</p>'));
+      expect(ops.some(op => op.action === 'format')).to.equal(false);
+    });
+
+    it('should only compare the configured formatting tags', function(){
+      var ops = calculateOperations(htmlToTokens('<p>a b c</p>'), htmlToTokens('<p>a <strong>b</strong> c</p>'),
+                                    {detectFormatChanges: true, formatTags: 'em'});
+      expect(ops.some(op => op.action === 'format')).to.equal(false);
+    });
+  });
+
+  describe('Rendering', function(){
+    it('should mark the words whose formatting changed', function(){
+      expect(diff('<p>a <em>b</em> c</p>', '<p>a <strong>b</strong> c</p>', options)).to.equal(
+        '<p>a <strong><span data-operation-index="1" data-diff-format="+strong -em" class="diff-format">b</span>' +
+        '</strong> c</p>');
+    });
+
+    it('should mark removed formatting', function(){
+      expect(diff('<p>a <strong>b c</strong> d</p>', '<p>a b c d</p>', options)).to.equal(
+        '<p>a <span data-operation-index="1" data-diff-format="-strong" class="diff-format">b c</span> d</p>');
+    });
+
+    it('should mark a link added around unchanged text', function(){
+      expect(diff('<p>see click here now</p>', '<p>see <a href="x">click here</a> now</p>', options)).to.equal(
+        '<p>see <span data-operation-index="1" data-diff-format="+a" class="diff-format">' +
+        '<a href="x">click here</a></span> now</p>');
+    });
+
+    it('should use the configured tag, attribute and class name', function(){
+      expect(diff('a b', '<b>a</b> b', {
+        detectFormatChanges: true,
+        formatTag: 'mark',
+        formatAttribute: 'data-format',
+        formatClassName: ''
+      })).to.equal('<b><mark data-operation-index="0" data-format="+b">a</mark></b> b');
+    });
+
+    it('should render each formatting in its own pane side by side', function(){
+      expect(diffSideBySide('<p>a <strong>b</strong></p>', '<p>a b</p>', options)).to.eql({
+        before: '<p>a <strong><span data-operation-index="1" data-diff-format="-strong" class="diff-format">b</span>' +
+          '</strong></p>',
+        after: '<p>a <span data-operation-index="1" data-diff-format="-strong" class="diff-format">b</span></p>'
+      });
+    });
+  });
+
+  describe('diffStructured', function(){
+    it('should count the formatted words', function(){
+      var result = diffStructured('<p>a b c</p>', '<p><em>a b</em> c</p>', options);
+      expect(result.changes.length).to.equal(1);
+      expect(result.changes[0].formatChanges).to.eql(['+em']);
+      expect(result.stats.formattedWords).to.equal(2);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import diff, {calculateOperations, htmlToTokens} from "../dist/htmldiff.js";
+
+describe('Granularity', function(){
+  var before = '<h1>Policy</h1><p>Staff may work remotely two days a week. Requests go to managers.</p>' +
+    '<p>Equipment is provided.</p>';
+  var after = '<h1>Policy</h1><p>Staff may work remotely three days a week. Requests go to managers.</p>' +
+    '<p>Equipment is provided by IT.</p>';
+
+  it('should compare the words by default', function(){
+    expect(diff(before, after)).to.equal(diff(before, after, {granularity: 'word'}));
+  });
+
+  it('should replace the changed sentences as a whole', function(){
+    expect(diff(before, after, {granularity: 'sentence'})).to.equal(
+      '<h1>Policy</h1><p><del data-operation-index="1">Staff may work remotely two days a week.</del>' +
+      '<ins data-operation-index="1">Staff may work remotely three days a week.</ins> Requests go to managers.</p>' +
+      '<p><del data-operation-index="3">Equipment is provided.</del>' +
+      '<ins data-operation-index="3">Equipment is provided by IT.</ins></p>');
+  });
+
+  it('should compare the sentences regardless of the whitespace between them', function(){
+    expect(diff('<p>One.  Two.</p>', '<p>One. Two.</p>', {granularity: 'sentence'})).to.equal('<p>One. Two.</p>');
+  });
+
+  it('should replace the changed blocks as a whole', function(){
+    expect(diff(before, after, {granularity: 'block'})).to.equal(
+      '<h1>Policy</h1><p><del data-operation-index="1">Staff may work remotely two days a week. ' +
+      'Requests go to managers.</del><ins data-operation-index="1">Staff may work remotely three days a week. ' +
+      'Requests go to managers.</ins></p><p><del data-operation-index="3">Equipment is provided.</del>' +
+      '<ins data-operation-index="3">Equipment is provided by IT.</ins></p>');
+  });
+
+  it('should keep comparing the tables cell by cell', function(){
+    expect(diff('<table><tr><td>a b</td><td>c</td></tr></table>',
+                '<table><tr><td>a x</td><td>c</td></tr></table>', {granularity: 'block'})).to.equal(
+      '<table><tr><td><del data-operation-index="1">a b</del><ins data-operation-index="1">a x</ins></td>' +
+      '<td>c</td></tr></table>');
+  });
+
+  it('should only compare the changed units word by word with refineChangedUnits', function(){
+    var options = {granularity: 'sentence', refineChangedUnits: true};
+    expect(diff(before, after, options)).to.equal(
+      '<h1>Policy</h1><p>Staff may work remotely <del data-operation-index="2">two</del>' +
+      '<ins data-operation-index="2">three</ins> days a week. Requests go to managers.</p>' +
+      '<p>Equipment is <del data-operation-index="6">provided.</del>' +
+      '<ins data-operation-index="6">provided by IT.</ins></p>');
+    // The word 'a' of the second sentence is never matched with the first one.
+    var operations = calculateOperations(htmlToTokens('<p>A b. C d.</p>'), htmlToTokens('<p>A x. C d.</p>'), options);
+    expect(operations.filter(function(op){ return op.action !== 'equal'; })).to.eql([
+      {action: 'replace', startInBefore: 3, endInBefore: 3, startInAfter: 3, endInAfter: 3}
+    ]);
+  });
+
+  it('should throw on an unknown granularity', function(){
+    expect(function(){ diff('a', 'b', {granularity: 'sentense'}); }).to.throw('Unknown granularity sentense');
+  });
+});
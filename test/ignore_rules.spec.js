@@ -0,0 +1,88 @@
+import diff, {diffStructured, htmlToTokens} from "../dist/htmldiff.js";
+
+describe('Ignore rules', function(){
+  describe('ignoreSelectors', function(){
+    var before = '<div class="ad slot"><p>Buy this</p></div><p>Text</p>';
+    var after = '<div class="ad slot"><p>Buy that now</p></div><p>Text</p>';
+
+    it('should consider the content of the matching elements equal', function(){
+      expect(diff(before, after, {ignoreSelectors: '.ad'})).to.equal(after);
+      expect(diff(before, after, {ignoreSelectors: ['section', 'div.slot']})).to.equal(after);
+      expect(diff(before, after, {ignoreSelectors: 'span.ad'})).to.not.equal(after);
+    });
+
+    it('should read the matching elements as a single token', function(){
+      expect(htmlToTokens(before, {ignoreSelectors: 'div[class*=slot]'})[0]).to.eql({
+        str: '<div class="ad slot"><p>Buy this</p></div>',
+        key: '<div></div>'
+      });
+    });
+
+    it('should support the attribute selectors', function(){
+      var form = '<form><input name="csrf" value="1"><p>a</p></form>';
+      var changed = '<form><input name="csrf" value="2"><p>a</p></form>';
+      expect(diffStructured(form, changed, {
+        ignoreSelectors: 'input[name="csrf"]',
+        detectAttributeChanges: true
+      }).changes).to.eql([]);
+      expect(diffStructured(form, changed, {detectAttributeChanges: true}).changes.length).to.equal(1);
+    });
+
+    it('should throw on the selectors that are not supported', function(){
+      expect(function(){ diff('a', 'b', {ignoreSelectors: 'div p'}); }).to.throw('Unsupported selector div p');
+    });
+  });
+
+  describe('ignoreElementAttribute', function(){
+    it('should consider the content of the marked elements equal', function(){
+      expect(diff('<p>Built <span data-diff-ignore>today</span></p>',
+                  '<p>Built <span data-diff-ignore>yesterday</span></p>')).to.equal(
+        '<p>Built <span data-diff-ignore>yesterday</span></p>');
+    });
+
+    it('should use the configured attribute', function(){
+      var before = '<p>Built <span data-diff-ignore>today</span></p>';
+      var after = '<p>Built <span data-diff-ignore>yesterday</span></p>';
+      expect(diff(before, after, {ignoreElementAttribute: ''})).to.not.equal(after);
+      expect(diff(before.replace('diff-ignore', 'volatile'), after.replace('diff-ignore', 'volatile'),
+                  {ignoreElementAttribute: 'data-volatile'})).to.equal(after.replace('diff-ignore', 'volatile'));
+    });
+  });
+
+  describe('ignorePatterns', function(){
+    it('should read the matching text as a single token', function(){
+      expect(htmlToTokens('a 12 b', {ignorePatterns: '\\d+'})).to.eql([
+        {str: 'a', key: 'a'},
+        {str: ' ', key: ' '},
+        {str: '12', key: '/\\d+/g'},
+        {str: ' ', key: ' '},
+        {str: 'b', key: 'b'}
+      ]);
+    });
+
+    it('should consider the matching text equal', function(){
+      var options = {ignorePatterns: [/\d{4}-\d\d-\d\d \d\d:\d\d/, /token-\w+/]};
+      expect(diff('<p>Built 2024-01-02 10:00 with token-a1b2.</p>',
+                  '<p>Built 2024-03-04 11:30 with token-c3d4.</p>', options)).to.equal(
+        '<p>Built 2024-03-04 11:30 with token-c3d4.</p>');
+      expect(diff('<p>Built 2024-01-02 10:00</p>', '<p>Built on 2024-03-04 11:30</p>', options)).to.equal(
+        '<p>Built <ins data-operation-index="1">on </ins>2024-03-04 11:30</p>');
+    });
+  });
+
+  describe('stripAttributes', function(){
+    it('should leave the attributes out of the keys', function(){
+      var before = '<p><a href="/x" id="r1">x</a></p>';
+      var after = '<p><a href="/x" id="r2">x</a></p>';
+      expect(diff(before, after, {stripAttributes: ['id']})).to.equal(after);
+      expect(diff(before, after)).to.not.equal(after);
+    });
+
+    it('should leave the attributes out of the attribute changes', function(){
+      expect(diffStructured('<p id="a1" class="k">t</p>', '<p id="a2" class="k">t</p>', {
+        detectAttributeChanges: true,
+        stripAttributes: ['id']
+      }).changes).to.eql([]);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import diff, {calculateOperations, diffStructured, htmlToTokens} from "../dist/htmldiff.js";
+
+function list(tag, items){
+  return '<' + tag + '>' + items.map(function(item){
+    return '<li>' + item + '</li>';
+  }).join('') + '</' + tag + '>';
+}
+
+describe('Lists', function(){
+  var before = list('ol', ['one', 'two', 'three']);
+  var options = {listDiff: true};
+
+  describe('Items', function(){
+    it('should mark an inserted item on its li tag', function(){
+      expect(diff(before, list('ol', ['one', 'new', 'two', 'three']), options)).to.equal(
+        '<ol><li>one</li>' +
+        '<li class="diff-inserted-item" data-diff-node="ins" data-operation-index="1">' +
+        '<ins data-operation-index="1">new</ins></li>' +
+        '<li>two</li><li>three</li></ol>');
+    });
+
+    it('should mark a deleted item on its li tag', function(){
+      expect(diff(before, list('ol', ['one', 'three']), options)).to.equal(
+        '<ol><li>one</li>' +
+        '<li class="diff-deleted-item" data-diff-node="del" data-operation-index="1">' +
+        '<del data-operation-index="1">two</del></li>' +
+        '<li>three</li></ol>');
+    });
+
+    it('should compare the contents of changed items word by word', function(){
+      expect(diff(list('ul', ['the quick fox', 'b']), list('ul', ['the slow fox', 'b']), options)).to.equal(
+        '<ul><li>the <del data-operation-index="1">quick</del><ins data-operation-index="1">slow</ins> fox</li>' +
+        '<li>b</li></ul>');
+    });
+
+    it('should report reordered items as moves', function(){
+      expect(diff(list('ol', ['apple', 'banana', 'cherry']), list('ol', ['banana', 'cherry', 'apple']), options)).to.equal(
+        '<ol><li data-diff-node="del" data-operation-index="1" data-diff-move-id="1">' +
+        '<del data-operation-index="1" data-diff-move-id="1">apple</del></li>' +
+        '<li>banana</li><li>cherry</li>' +
+        '<li data-diff-node="ins" data-operation-index="3" data-diff-move-id="1">' +
+        '<ins data-operation-index="3" data-diff-move-id="1">apple</ins></li></ol>');
+    });
+  });
+
+  describe('Structure', function(){
+    it('should compare nested lists item by item', function(){
+      expect(diff('<ul><li>a<ul><li>x</li></ul></li><li>b</li></ul>',
+                  '<ul><li>a<ul><li>x</li><li>y</li></ul></li><li>b</li></ul>', options)).to.equal(
+        '<ul><li>a<ul><li>x</li>' +
+        '<li class="diff-inserted-item" data-diff-node="ins" data-operation-index="1">' +
+        '<ins data-operation-index="1">y</ins></li></ul></li><li>b</li></ul>');
+    });
+
+    it('should read items whose end tags are omitted', function(){
+      expect(diff('<ul><li>a<li>b c</ul>', '<ul><li>a<li>b d</ul>', options)).to.equal(
+        '<ul><li>a<li>b <del data-operation-index="1">c</del><ins data-operation-index="1">d</ins></ul>');
+    });
+
+    it('should not pair ordered lists with unordered lists', function(){
+      var ops = calculateOperations(htmlToTokens(list('ol', ['a', 'b'])), htmlToTokens(list('ul', ['a', 'b'])), options);
+      expect(ops.some(op => op.part === 'item')).to.equal(false);
+    });
+  });
+
+  describe('Options', function(){
+    it('should use the configured class names', function(){
+      expect(diff(before, list('ol', ['one', 'two', 'three', 'four']),
+                  {listDiff: true, insertedItemClassName: 'added'})).to.contain('<li class="added"');
+      expect(diff(before, list('ol', ['one', 'three']), {listDiff: true, deletedItemClassName: ''})).to.contain(
+        '<li data-diff-node="del" data-operation-index="1">');
+    });
+
+    it('should compare lists as any other content without listDiff', function(){
+      var ops = calculateOperations(htmlToTokens(list('ol', ['apple', 'banana', 'cherry'])),
+                                    htmlToTokens(list('ol', ['banana', 'cherry', 'apple'])));
+      expect(ops.some(op => op.part || op.action === 'move')).to.equal(false);
+    });
+  });
+
+  describe('diffStructured', function(){
+    it('should report the list part of the changes', function(){
+      var result = diffStructured(before, list('ol', ['one', 'three']), options);
+      expect(result.changes.length).to.equal(1);
+      expect(result.changes[0].part).to.equal('item');
+      expect(result.stats.deletedWords).to.equal(1);
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import diff, {calculateOperations, defaultMediaTags, diffStructured, htmlToTokens} from "../dist/htmldiff.js";
+
+describe('Media', function(){
+  var options = {detectMediaChanges: true};
+
+  describe('Identity', function(){
+    it('should compare videos by their sources', function(){
+      var ops = calculateOperations(htmlToTokens('<video src="a.mp4" poster="a.png"></video>'),
+                                    htmlToTokens('<video src="a.mp4" poster="b.png" controls></video>'));
+      expect(ops.map(op => op.action)).to.eql(['equal']);
+      ops = calculateOperations(htmlToTokens('<video src="a.mp4"></video>'), htmlToTokens('<video src="b.mp4"></video>'));
+      expect(ops.map(op => op.action)).to.eql(['replace']);
+    });
+
+    it('should use the configured identity attributes', function(){
+      var mediaTags = Object.assign({}, defaultMediaTags, {img: {identity: ['src', 'alt'], attributes: []}});
+      var opts = {mediaTags: mediaTags};
+      var ops = calculateOperations(htmlToTokens('<img src="a.jpg" alt="a">', opts),
+                                    htmlToTokens('<img src="a.jpg" alt="b">', opts), opts);
+      expect(ops.map(op => op.action)).to.eql(['replace']);
+    });
+
+    it('should compare math elements without their data-uuid attribute', function(){
+      expect(diff('<math data-uuid="1" display="block"><mi>x</mi></math>', '<math data-uuid="2" display="block"><mi>x</mi></math>'))
+        .to.equal('<math data-uuid="2" display="block"><mi>x</mi></math>');
+    });
+  });
+
+  describe('Changes', function(){
+    it('should report changed media attributes as modifications', function(){
+      var ops = calculateOperations(htmlToTokens('<p><img src="a.jpg" alt="a" class="x"></p>'),
+                                    htmlToTokens('<p><img src="a.jpg" alt="b" class="y"></p>'), options);
+      expect(ops[1]).to.eql({
+        action: 'modify',
+        startInBefore: 1,
+        endInBefore: 1,
+        startInAfter: 1,
+        endInAfter: 1,
+        oldAttributes: {alt: 'a'},
+        newAttributes: {alt: 'b'}
+      });
+    });
+
+    it('should not report media attribute changes by default', function(){
+      var ops = calculateOperations(htmlToTokens('<img src="a.jpg" alt="a">'), htmlToTokens('<img src="a.jpg" alt="b">'));
+      expect(ops.map(op => op.action)).to.eql(['equal']);
+    });
+
+    it('should render the old attributes of a modified video', function(){
+      expect(diff('<video src="v.mp4" poster="a.png"></video>', '<video src="v.mp4" poster="b.png"></video>', options))
+        .to.equal('<video src="v.mp4" poster="b.png" data-diff-old-attrs="{&quot;poster&quot;:&quot;a.png&quot;}" ' +
+          'data-operation-index="0"></video>');
+    });
+
+    it('should count the modified media', function(){
+      expect(diffStructured('<img src="a.jpg" width="10">', '<img src="a.jpg" width="20">', options).stats.modifiedTags)
+        .to.equal(1);
+    });
+  });
+
+  describe('Rendering', function(){
+    it('should render replaced media side by side in a container', function(){
+      expect(diff('<p>x <img src="a.jpg"> y</p>', '<p>x <img src="b.jpg"> y</p>', options)).to.equal(
+        '<p>x <span data-operation-index="1" class="diff-media">' +
+        '<del data-operation-index="1"><img src="a.jpg"></del><ins data-operation-index="1"><img src="b.jpg"></ins>' +
+        '</span> y</p>');
+    });
+
+    it('should not use the container when text is replaced too', function(){
+      expect(diff('<p>x <img src="a.jpg"></p>', '<p>z <img src="b.jpg"></p>', options)).to.not.contain('diff-media');
+    });
+
+    it('should use the configured class name', function(){
+      expect(diff('<img src="a.jpg">', '<img src="b.jpg">', {detectMediaChanges: true, mediaClassName: 'media'}))
+        .to.contain('<span data-operation-index="0" class="media">');
+    });
+  });
+});
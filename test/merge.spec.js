@@ -0,0 +1,105 @@
+import {merge, validate} from "../dist/htmldiff.js";
+
+describe('Merge', function(){
+  var base = '<p>The quick brown fox jumps over the lazy dog.</p>';
+
+  describe('Changes of one version', function(){
+    it('should apply the changes of both versions when they do not overlap', function(){
+      expect(merge(base, '<p>The slow brown fox jumps over the lazy dog.</p>',
+                   '<p>The quick brown fox jumps over the sleepy dog.</p>')).to.eql({
+        html: '<p>The slow brown fox jumps over the sleepy dog.</p>',
+        conflicts: []
+      });
+    });
+
+    it('should apply the insertions and deletions of both versions', function(){
+      expect(merge('<p>one</p><p>two</p><p>three</p>', '<p>zero</p><p>one</p><p>two</p><p>three</p>',
+                   '<p>one</p><p>three</p><p>four</p>').html).to.equal(
+        '<p>zero</p><p>one</p><p>three</p><p>four</p>');
+    });
+
+    it('should apply the changes made the same way by both versions once', function(){
+      var ours = '<p>The slow brown fox jumps over the lazy dog.</p>';
+      expect(merge(base, ours, ours)).to.eql({html: ours, conflicts: []});
+    });
+
+    it('should apply an insertion of one version in the middle of a block', function(){
+      expect(merge('<p>a c</p>', '<p>a c</p>', '<p>a b c</p>')).to.eql({html: '<p>a b c</p>', conflicts: []});
+      expect(merge('<p>a c</p>', '<p>a b c</p>', '<p>a c</p>')).to.eql({html: '<p>a b c</p>', conflicts: []});
+    });
+
+    it('should apply an insertion of one version at the end of a block', function(){
+      expect(merge('<p>a b c</p>', '<p>a X c</p>', '<p>a b c Y</p>')).to.eql({
+        html: '<p>a X c Y</p>',
+        conflicts: []
+      });
+    });
+
+    it('should keep the markup changed by one version in unchanged content', function(){
+      expect(merge('<p class="a">a b</p>', '<p class="b">a b</p>', '<p class="a">a c</p>').html)
+        .to.equal('<p class="b">a c</p>');
+    });
+  });
+
+  describe('Conflicts', function(){
+    it('should keep both versions of changes that overlap', function(){
+      expect(merge(base, '<p>The slow brown fox jumps over the lazy dog.</p>',
+                   '<p>The fast brown fox jumps over the lazy dog.</p>')).to.eql({
+        html: '<p>The <span data-diff-conflict="1" data-diff-version="ours" class="diff-conflict">slow</span>' +
+          '<span data-diff-conflict="1" data-diff-version="theirs" class="diff-conflict">fast</span>' +
+          ' brown fox jumps over the lazy dog.</p>',
+        conflicts: [{
+          id: 1,
+          startInBase: 3,
+          endInBase: 3,
+          startInOurs: 3,
+          endInOurs: 3,
+          startInTheirs: 3,
+          endInTheirs: 3,
+          base: 'quick',
+          ours: 'slow',
+          theirs: 'fast'
+        }]
+      });
+    });
+
+    it('should report insertions at the same position as conflicts', function(){
+      var result = merge('<p>a</p>', '<p>a</p><p>ours</p>', '<p>a</p><p>theirs</p>');
+      expect(result.html).to.equal('<p>a</p>' +
+        '<p><span data-diff-conflict="1" data-diff-version="ours" class="diff-conflict">ours</span></p>' +
+        '<p><span data-diff-conflict="1" data-diff-version="theirs" class="diff-conflict">theirs</span></p>');
+      expect(result.conflicts[0].base).to.equal('');
+      expect(result.conflicts[0].endInBase).to.equal(undefined);
+    });
+
+    it('should mark the place of a version that deleted the conflicting content', function(){
+      var result = merge('<p>a b</p><p>c d</p>', '<p>a x</p><p>c d</p>', '<p>c d</p>');
+      expect(result.html).to.equal(
+        '<p><span data-diff-conflict="1" data-diff-version="ours" class="diff-conflict">a x</span></p>' +
+        '<span data-diff-conflict="1" data-diff-version="theirs" class="diff-conflict"></span><p>c d</p>');
+      expect(result.conflicts[0].theirs).to.equal('');
+      expect(result.conflicts[0].endInTheirs).to.equal(undefined);
+    });
+
+    it('should follow the structure of our version', function(){
+      var result = merge('<p>a b</p><p>c d</p>', '<p>a x</p><p>y d</p>', '<p>a z d</p>');
+      expect(result.conflicts.length).to.equal(1);
+      expect(validate(result.html)).to.eql([]);
+    });
+
+    it('should number the conflicts in the order of the document', function(){
+      var result = merge('<p>a b c d e</p>', '<p>x b c d y</p>', '<p>z b c d w</p>');
+      expect(result.conflicts.map(function(conflict){
+        return [conflict.id, conflict.ours, conflict.theirs];
+      })).to.eql([[1, 'x', 'z'], [2, 'y', 'w']]);
+    });
+
+    it('should use the configured attributes and class name', function(){
+      expect(merge('a', 'b', 'c', {
+        conflictAttribute: 'data-conflict',
+        conflictVersionAttribute: 'data-side',
+        conflictClassName: ''
+      }).html).to.equal('<span data-conflict="1" data-side="ours">b</span><span data-conflict="1" data-side="theirs">c</span>');
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import diff, {calculateOperations, diffSideBySide, diffStructured, htmlToTokens} from "../dist/htmldiff.js";
+
+describe('Moves', function(){
+  var options = {detectMoves: true};
+  var moved = '<p>This paragraph moves from the top to the bottom.</p>';
+  var before = moved + '<p>First stays put.</p><p>Second one here.</p><p>Third stays put too.</p>';
+  var after = '<p>First stays put.</p><p>Second one there.</p><p>Third stays put too.</p>' + moved;
+
+  describe('calculateOperations', function(){
+    it('should link the origin and the destination of a move', function(){
+      var ops = calculateOperations(htmlToTokens(before), htmlToTokens(after), options);
+      expect(ops.map(function(op){ return op.action; })).to.eql(
+        ['move', 'equal', 'replace', 'equal', 'move']);
+      expect(ops[0]).to.eql({
+        action: 'move',
+        startInBefore: 0,
+        endInBefore: 18,
+        startInAfter: 0,
+        endInAfter: undefined,
+        moveId: 1
+      });
+      expect(ops[4]).to.eql({
+        action: 'move',
+        startInBefore: 42,
+        endInBefore: undefined,
+        startInAfter: 23,
+        endInAfter: 41,
+        moveId: 1
+      });
+    });
+
+    it('should not detect moves by default', function(){
+      var ops = calculateOperations(htmlToTokens(before), htmlToTokens(after));
+      expect(ops.some(function(op){ return op.action === 'move'; })).to.equal(false);
+    });
+
+    it('should not move runs with fewer than moveMinWords words', function(){
+      var ops = calculateOperations(htmlToTokens('<p>Short one.</p><p>a b c d</p>'),
+                                    htmlToTokens('<p>a b c d</p><p>Short one.</p>'), options);
+      expect(ops.some(function(op){ return op.action === 'move'; })).to.equal(false);
+    });
+
+    it('should not move runs that are not similar enough', function(){
+      var beforeHtml = '<p>one two three four.</p><p>alpha beta</p><p>x y z</p>';
+      var afterHtml = '<p>alpha beta</p><p>x y z</p><p>one two three five.</p>';
+      expect(diff(beforeHtml, afterHtml, options)).to.not.contain('data-diff-move-id');
+      expect(diff(beforeHtml, afterHtml, {detectMoves: true, moveThreshold: 0.7}))
+        .to.contain('data-diff-move-id="1"');
+    });
+  });
+
+  describe('Rendering', function(){
+    it('should mark both ends of a move with the move id', function(){
+      expect(diff(before, after, options)).to.equal(
+        '<p data-diff-node="del" data-operation-index="0" data-diff-move-id="1">' +
+        '<del data-operation-index="0" data-diff-move-id="1">' +
+        'This paragraph moves from the top to the bottom.</del></p>' +
+        '<p>First stays put.</p>' +
+        '<p>Second one <del data-operation-index="2">here.</del><ins data-operation-index="2">there.</ins></p>' +
+        '<p>Third stays put too.</p>' +
+        '<p data-diff-node="ins" data-operation-index="4" data-diff-move-id="1">' +
+        '<ins data-operation-index="4" data-diff-move-id="1">' +
+        'This paragraph moves from the top to the bottom.</ins></p>');
+    });
+
+    it('should detect moved list items', function(){
+      expect(diff('<ul><li>first item here</li><li>second item here</li><li>third item here</li></ul>',
+                  '<ul><li>second item here</li><li>third item here</li><li>first item here</li></ul>',
+                  options)).to.equal(
+        '<ul><li data-diff-node="del" data-operation-index="1" data-diff-move-id="1">' +
+        '<del data-operation-index="1" data-diff-move-id="1">first item here</del></li>' +
+        '<li>second item here</li><li>third item here</li>' +
+        '<li data-diff-node="ins" data-operation-index="3" data-diff-move-id="1">' +
+        '<ins data-operation-index="3" data-diff-move-id="1">first item here</ins></li></ul>');
+    });
+
+    it('should use the configured attribute and class name', function(){
+      var result = diff(before, after, {
+        detectMoves: true,
+        className: 'diff',
+        moveClassName: 'moved',
+        moveIdAttribute: 'data-move'
+      });
+      expect(result).to.contain('<del data-operation-index="0" data-move="1" class="diff moved">');
+      expect(result).to.contain('<ins data-operation-index="4" data-move="1" class="diff moved">');
+      expect(result).to.contain('<del data-operation-index="2" class="diff">here.</del>');
+    });
+
+    it('should render each end of a move in its own pane side by side', function(){
+      var result = diffSideBySide(before, after, options);
+      expect(result.before).to.equal(
+        '<p data-diff-node="del" data-operation-index="0" data-diff-move-id="1">' +
+        '<del data-operation-index="0" data-diff-move-id="1">' +
+        'This paragraph moves from the top to the bottom.</del></p>' +
+        '<p>First stays put.</p><p>Second one <del data-operation-index="2">here.</del></p>' +
+        '<p>Third stays put too.</p><span data-operation-index="4"></span>');
+      expect(result.after).to.equal(
+        '<span data-operation-index="0"></span>' +
+        '<p>First stays put.</p><p>Second one <ins data-operation-index="2">there.</ins></p>' +
+        '<p>Third stays put too.</p>' +
+        '<p data-diff-node="ins" data-operation-index="4" data-diff-move-id="1">' +
+        '<ins data-operation-index="4" data-diff-move-id="1">' +
+        'This paragraph moves from the top to the bottom.</ins></p>');
+    });
+  });
+
+  describe('diffStructured', function(){
+    it('should count moved words and keep the move id', function(){
+      var result = diffStructured(before, after, options);
+      expect(result.stats).to.eql({
+        changes: 3,
+        insertedWords: 0,
+        deletedWords: 0,
+        replacedWords: 1,
+        modifiedTags: 0,
+        movedWords: 9,
+        formattedWords: 0
+      });
+      expect(result.changes[0].moveId).to.equal(1);
+      expect(result.changes[2].moveId).to.equal(1);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import diff, {calculateOperations, htmlToTokens, renderOperations} from "../dist/htmldiff.js";
+
+describe('Diff options', function(){
+
+  describe('When called with the positional parameters', function(){
+    it('should add the class name and the data prefix', function(){
+      expect(diff('input', 'input 2', 'diff-result', 'my')).to.equal(
+        'input<ins data-my-operation-index="1" class="diff-result"> 2</ins>');
+    });
+
+    it('should use the given atomic tags', function(){
+      expect(htmlToTokens('<p>a b</p>', {atomicTags: 'p'}).length).to.equal(1);
+      expect(diff('<p>a b</p>', '<p>a c</p>', null, null, 'p')).to.equal(
+        '<del data-operation-index="0"><p>a b</p></del><ins data-operation-index="0"><p>a c</p></ins>');
+    });
+  });
+
+  describe('Atomic tags', function(){
+    it('should treat a custom element as a single token', function(){
+      expect(htmlToTokens('<x-widget a="1"><b>1</b></x-widget> text', {atomicTags: ['x-widget']})
+        .map(function(token){ return token.str; })).to.eql(
+          ['<x-widget a="1"><b>1</b></x-widget>', ' ', 'text']);
+    });
+
+    it('should compare the whole atomic token', function(){
+      var options = {atomicTags: ['table']};
+      expect(diff('<table><tr><td>1</td></tr></table>', '<table><tr><td>2</td></tr></table>', options))
+        .to.equal('<del data-operation-index="0"><table><tr><td>1</td></tr></table></del>' +
+          '<ins data-operation-index="0"><table><tr><td>2</td></tr></table></ins>');
+    });
+
+    it('should not treat tags that only start with an atomic tag name as atomic', function(){
+      expect(htmlToTokens('<abbr>a</abbr>').length).to.equal(3);
+    });
+  });
+
+  describe('Wrapper tags and attributes', function(){
+    var options = {
+      insertTag: 'mark',
+      deleteTag: 's',
+      insertClassName: 'added',
+      deleteClassName: 'removed',
+      operationIndexAttribute: 'data-change',
+      diffNodeAttribute: 'data-node',
+      attributes: {'data-source': 'review'}
+    };
+
+    it('should use the given tags and class names', function(){
+      expect(diff('a b c', 'a d c', options)).to.equal(
+        'a <s data-change="1" class="removed" data-source="review">b</s>' +
+        '<mark data-change="1" class="added" data-source="review">d</mark> c');
+    });
+
+    it('should use the given attribute names on inserted tags', function(){
+      expect(diff('<p>a</p>', '<p>a</p><p>b</p>', options)).to.equal(
+        '<p>a</p><p data-node="mark" data-change="1">' +
+        '<mark data-change="1" class="added" data-source="review">b</mark></p>');
+    });
+
+    it('should omit attributes with an empty name', function(){
+      expect(diff('a', 'a b', {operationIndexAttribute: ''})).to.equal('a<ins> b</ins>');
+    });
+
+    it('should escape attribute values', function(){
+      expect(diff('a', 'a b', {className: 'x"y'})).to.equal(
+        'a<ins data-operation-index="1" class="x&quot;y"> b</ins>');
+    });
+
+    it('should be accepted by renderOperations', function(){
+      var before = htmlToTokens('a');
+      var after = htmlToTokens('a b');
+      var ops = calculateOperations(before, after);
+      expect(renderOperations(before, after, ops, {insertTag: 'mark'})).to.equal(
+        'a<mark data-operation-index="1"> b</mark>');
+    });
+  });
+});
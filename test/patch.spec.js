@@ -0,0 +1,85 @@
+import {applyPatch, createPatch, reversePatch} from "../dist/htmldiff.js";
+
+describe('Patches', function(){
+  var before = '<p>The quick brown fox jumps over the lazy dog.</p><p>End</p>';
+  var after = '<p>The slow brown fox jumps over the lazy cat.</p><p class="x">End</p>';
+
+  describe('createPatch', function(){
+    it('should hold the changed tokens with their context', function(){
+      expect(createPatch('<p>a b c d e</p>', '<p>a b x d e</p>', {patchContext: 2}).hunks).to.eql([{
+        startInBefore: 5,
+        startInAfter: 5,
+        contextBefore: ['b', ' '],
+        contextAfter: [' ', 'd'],
+        deleted: ['c'],
+        inserted: ['x']
+      }]);
+    });
+
+    it('should include the changed markup of equal tokens', function(){
+      expect(createPatch(before, after).hunks[2]).to.include({startInBefore: 19, startInAfter: 19})
+        .and.to.deep.include({deleted: ['<p>'], inserted: ['<p class="x">']});
+    });
+
+    it('should not take the context from other changes', function(){
+      var hunks = createPatch('<p>a b c</p>', '<p>x b y</p>').hunks;
+      expect(hunks[0].contextAfter).to.eql([' ', 'b', ' ']);
+      expect(hunks[1].contextBefore).to.eql([' ', 'b', ' ']);
+    });
+
+    it('should survive a JSON round trip', function(){
+      var patch = JSON.parse(JSON.stringify(createPatch(before, after)));
+      expect(applyPatch(before, patch)).to.equal(after);
+    });
+
+    it('should be empty for equal documents', function(){
+      expect(createPatch(before, before)).to.eql({version: 1, hunks: []});
+    });
+  });
+
+  describe('applyPatch', function(){
+    [
+      ['paragraphs', before, after],
+      ['an empty document', '', '<p>New</p>'],
+      ['a document emptied', '<p>Old</p>', ''],
+      ['tables', '<table><tr><td>a</td><td>b</td></tr></table>',
+       '<table><tr><td>a</td><td>c</td></tr><tr><td>d</td><td>e</td></tr></table>'],
+      ['lists', '<ul><li>one</li><li>two</li><li>three</li></ul>', '<ul><li>three</li><li>one</li><li>two 2</li></ul>'],
+      ['whitespace and character references', '<p>a  b&amp;c</p>\n', '<p>a b&#38;c</p>'],
+      ['comments', '<!-- a --><p>a</p><!-- b -->', '<!-- c --><p>a</p>']
+    ].forEach(function(edit){
+      it('should rebuild the after document from ' + edit[0], function(){
+        expect(applyPatch(edit[1], createPatch(edit[1], edit[2]))).to.equal(edit[2]);
+        expect(applyPatch(edit[1], createPatch(edit[1], edit[2], {detectMoves: true}))).to.equal(edit[2]);
+      });
+    });
+
+    it('should find the changes in a document that changed since', function(){
+      expect(applyPatch('<h1>Title</h1><p>The  quick brown fox jumps over the lazy dog.</p><p>End</p>',
+                        createPatch(before, after))).to.equal(
+        '<h1>Title</h1><p>The  slow brown fox jumps over the lazy cat.</p><p class="x">End</p>');
+    });
+
+    it('should ignore up to patchFuzz tokens of context that do not match', function(){
+      var patch = createPatch(before, after);
+      var changed = before.replace('The', 'A');
+      expect(applyPatch(changed, patch)).to.equal(after.replace('The', 'A'));
+      expect(function(){ applyPatch(changed, patch, {patchFuzz: 0}); }).to.throw(
+        'Hunk 1 of the patch doesn\'t apply');
+    });
+
+    it('should throw when a change is not found', function(){
+      expect(function(){ applyPatch('<p>nothing</p>', createPatch(before, after)); }).to.throw(
+        'Hunk 1 of the patch doesn\'t apply');
+      expect(function(){ applyPatch(before, {version: 2, hunks: []}); }).to.throw('Unsupported patch format');
+    });
+  });
+
+  describe('reversePatch', function(){
+    it('should undo the changes', function(){
+      var patch = createPatch(before, after);
+      expect(applyPatch(after, reversePatch(patch))).to.equal(before);
+      expect(reversePatch(reversePatch(patch))).to.eql(patch);
+    });
+  });
+});
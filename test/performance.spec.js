@@ -0,0 +1,168 @@
+import diff, {calculateOperations, createSegment, findBestMatch, htmlToTokens} from "../dist/htmldiff.js";
+
+function checkOperations(before, after, ops){
+  var positionInBefore = 0;
+  var positionInAfter = 0;
+  ops.forEach(function(op){
+    expect(op.startInBefore).to.equal(positionInBefore);
+    expect(op.startInAfter).to.equal(positionInAfter);
+    if (op.action !== 'insert'){
+      positionInBefore = op.endInBefore + 1;
+    }
+    if (op.action !== 'delete'){
+      positionInAfter = op.endInAfter + 1;
+    }
+    if (op.action === 'equal'){
+      for (var i = 0; i <= op.endInBefore - op.startInBefore; i++){
+        expect(before[op.startInBefore + i].key).to.equal(after[op.startInAfter + i].key);
+      }
+    }
+  });
+  expect(positionInBefore).to.equal(before.length);
+  expect(positionInAfter).to.equal(after.length);
+}
+
+function repeat(html, count){
+  return new Array(count + 1).join(html);
+}
+
+describe('Performance', function(){
+  describe('Segments', function(){
+    it('should report the matches of a part of the documents at their positions', function(){
+      var before = htmlToTokens('x y z a b c');
+      var after = htmlToTokens('a b c');
+      var match = findBestMatch(createSegment(before.slice(3), after, 3, 0));
+      expect(match.startInBefore).to.equal(6);
+      expect(match.startInAfter).to.equal(0);
+      expect(match.length).to.equal(5);
+    });
+
+    it('should diff words that are also properties of objects', function(){
+      expect(diff('the constructor of toString', 'a constructor of __proto__')).to.equal(
+        '<del data-operation-index="0">the</del><ins data-operation-index="0">a</ins> constructor of ' +
+        '<del data-operation-index="2">toString</del><ins data-operation-index="2">__proto__</ins>');
+    });
+  });
+
+  describe('Repetitive documents', function(){
+    this.timeout(10000);
+
+    it('should diff long runs of punctuation and common words', function(){
+      var before = repeat('<p>Yes, no. Yes, no; yes!</p>', 2000) + '<p>end</p>';
+      var after = repeat('<p>Yes, no. Yes, no; yes!</p>', 1000) + '<p>new</p>' +
+        repeat('<p>Yes, no. Yes, no; yes!</p>', 1000) + '<p>end</p>';
+      var beforeTokens = htmlToTokens(before);
+      var afterTokens = htmlToTokens(after);
+      var ops = calculateOperations(beforeTokens, afterTokens);
+      checkOperations(beforeTokens, afterTokens, ops);
+      expect(ops.filter(op => op.action !== 'equal').length).to.equal(1);
+    });
+
+    it('should diff long runs of common words in a linear time', function(){
+      this.timeout(20000);
+      // About 380 kB of the same few words in each document.
+      var words = repeat('the cat and the dog ', 19000);
+      var before = htmlToTokens(words + 'one ' + words);
+      var after = htmlToTokens(words + 'two ' + words);
+      var start = Date.now();
+      var ops = calculateOperations(before, after);
+      expect(Date.now() - start).to.be.below(5000);
+      expect(ops.map(op => op.action)).to.eql(['equal', 'replace', 'equal']);
+      expect(ops[1].startInBefore).to.equal(190000);
+      expect(ops[1].endInBefore).to.equal(190000);
+    });
+
+    it('should still match common words when nothing else matches', function(){
+      var words = repeat('the cat and the dog ', 300);
+      var before = htmlToTokens(words + 'one');
+      var after = htmlToTokens(words + 'two');
+      expect(calculateOperations(before, after)).to.eql([{
+        action: 'equal',
+        startInBefore: 0,
+        endInBefore: 2999,
+        startInAfter: 0,
+        endInAfter: 2999
+      }, {
+        action: 'replace',
+        startInBefore: 3000,
+        endInBefore: 3000,
+        startInAfter: 3000,
+        endInAfter: 3000
+      }]);
+    });
+  });
+
+  describe('Work budget', function(){
+    ['longest-match', 'myers', 'patience'].forEach(function(algorithm){
+      describe('With the ' + algorithm + ' algorithm', function(){
+        it('should fall back to matching unchanged blocks', function(){
+          expect(diff('<p>one</p><p>two</p><p>three</p>', '<p>new</p><p>two</p><p>changed</p>',
+                      {algorithm: algorithm, maxWork: 0})).to.equal(
+            '<p><del data-operation-index="1">one</del><ins data-operation-index="1">new</ins></p>' +
+            '<p>two</p>' +
+            '<p><del data-operation-index="3">three</del><ins data-operation-index="3">changed</ins></p>');
+        });
+
+        it('should keep the common start and end of the documents', function(){
+          expect(diff('a b c d e', 'a b x d e', {algorithm: algorithm, maxWork: 0})).to.equal(
+            'a b <del data-operation-index="1">c</del><ins data-operation-index="1">x</ins> d e');
+        });
+
+        it('should return valid operations when the time runs out', function(){
+          var before = htmlToTokens(repeat('<p>a b c</p><ul><li>d e</li></ul>', 200));
+          var after = htmlToTokens(repeat('<p>a c b</p><ul><li>e d</li><li>f</li></ul>', 200));
+          checkOperations(before, after,
+                          calculateOperations(before, after, {algorithm: algorithm, timeoutMs: 0}));
+        });
+      });
+    });
+
+    it('should not change the diff when the budget is large enough', function(){
+      var before = htmlToTokens('<p>the quick brown fox</p><p>jumps over the dog</p>');
+      var after = htmlToTokens('<p>the slow brown fox</p><p>jumps over a dog</p>');
+      expect(calculateOperations(before, after, {maxWork: 100000})).to.eql(
+        calculateOperations(before, after));
+    });
+
+    describe('With a large document', function(){
+      var beforeTokens;
+      var afterTokens;
+
+      before(function(){
+        var before = '';
+        var after = '';
+        for (var i = 0; i < 20000; i++){
+          var paragraph = '<p>item ' + i + ' of the list ' + (i * 7 % 13) + '</p>';
+          before += paragraph;
+          after += i % 5 ? paragraph : '<p>changed ' + (i * 3 % 11) + ' entry</p>';
+        }
+        beforeTokens = htmlToTokens(before);
+        afterTokens = htmlToTokens(after);
+      });
+
+      it('should bound the whole comparison by the time limit', function(){
+        this.timeout(10000);
+        var start = Date.now();
+        var ops = calculateOperations(beforeTokens, afterTokens,
+                                      {timeoutMs: 250, semanticCleanup: true, detectMoves: true});
+        expect(Date.now() - start).to.be.below(500);
+        checkOperations(beforeTokens, afterTokens, ops);
+      });
+
+      it('should keep the unchanged blocks when the time runs out', function(){
+        this.timeout(10000);
+        var ops = calculateOperations(beforeTokens, afterTokens, {timeoutMs: 10});
+        checkOperations(beforeTokens, afterTokens, ops);
+        // Four paragraphs out of five are unchanged, and so are their tokens.
+        var unchanged = ops.reduce(function(count, op){
+          return op.action === 'equal' ? count + op.endInBefore - op.startInBefore + 1 : count;
+        }, 0);
+        expect(unchanged).to.be.above(beforeTokens.length * 0.79);
+        var middle = beforeTokens.length / 2;
+        expect(ops.filter(function(op){
+          return op.action === 'equal' && op.startInBefore <= middle && op.endInBefore >= middle;
+        }).length).to.equal(1);
+      });
+    });
+  });
+});
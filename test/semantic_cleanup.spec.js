@@ -0,0 +1,56 @@
+import diff, {calculateOperations, htmlToTokens} from "../dist/htmldiff.js";
+
+describe('Semantic cleanup', function(){
+  var options = {semanticCleanup: true};
+
+  it('should merge the changes around short unchanged words', function(){
+    var before = '<p>The quick brown fox jumps over the lazy dog.</p>';
+    var after = '<p>A slow red fox walks under the sleepy cat.</p>';
+    expect(diff(before, after)).to.contain(' fox ');
+    expect(diff(before, after, options)).to.equal(
+      '<p><del data-operation-index="1">The quick brown fox jumps over the lazy dog.</del>' +
+      '<ins data-operation-index="1">A slow red fox walks under the sleepy cat.</ins></p>');
+  });
+
+  it('should merge the changes separated by whitespace alone', function(){
+    var before = htmlToTokens('a, b');
+    var after = htmlToTokens('c; d');
+    expect(calculateOperations(before, after, options)).to.eql([
+      {action: 'replace', startInBefore: 0, endInBefore: 2, startInAfter: 0, endInAfter: 2}
+    ]);
+  });
+
+  it('should keep the unchanged runs longer than the changes around them', function(){
+    expect(diff('<p>a cat sat on the mat</p>', '<p>one dog slept on the rug</p>', options)).to.equal(
+      '<p><del data-operation-index="1">a cat sat</del><ins data-operation-index="1">one dog slept</ins> on the ' +
+      '<del data-operation-index="3">mat</del><ins data-operation-index="3">rug</ins></p>');
+  });
+
+  it('should only merge the unchanged runs of up to semanticCleanupMaxWords words', function(){
+    var before = '<p>one two three four five</p>';
+    var after = '<p>uno two tres four cinco</p>';
+    expect(calculateOperations(htmlToTokens(before), htmlToTokens(after), options).length).to.equal(3);
+    expect(calculateOperations(htmlToTokens(before), htmlToTokens(after),
+                               {semanticCleanup: true, semanticCleanupMaxWords: 0}).length).to.equal(7);
+  });
+
+  it('should never merge the changes across tags', function(){
+    expect(diff('<p>x</p><p>y</p>', '<p>z</p><p>w</p>', options)).to.equal(
+      '<p><del data-operation-index="1">x</del><ins data-operation-index="1">z</ins></p>' +
+      '<p><del data-operation-index="3">y</del><ins data-operation-index="3">w</ins></p>');
+  });
+
+  it('should move the insertions to the start of a sentence', function(){
+    var before = '<p>The cat. The dog.</p>';
+    var after = '<p>The cat. The bird. The dog.</p>';
+    expect(diff(before, after)).to.equal(
+      '<p>The cat. The <ins data-operation-index="1">bird. The </ins>dog.</p>');
+    expect(diff(before, after, options)).to.equal(
+      '<p>The cat. <ins data-operation-index="1">The bird. </ins>The dog.</p>');
+  });
+
+  it('should move the deletions to the block boundaries', function(){
+    expect(diff('<p>a b a b c</p>', '<p>a b c</p>', {semanticCleanup: true, algorithm: 'myers'})).to.equal(
+      '<p><del data-operation-index="1">a b </del>a b c</p>');
+  });
+});
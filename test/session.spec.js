@@ -0,0 +1,77 @@
+import diff, {createDiffSession, htmlToTokens} from "../dist/htmldiff.js";
+
+describe('Diff sessions', function(){
+  var before = '<h1>Title</h1><p>The quick brown fox.</p><p>Jumps over the lazy dog.</p><pre>a  b</pre>';
+
+  function edit(html, start, end, text){
+    return html.slice(0, start) + text + html.slice(end);
+  }
+
+  it('should hold the diff of the documents', function(){
+    var after = before.replace('quick', 'slow');
+    var session = createDiffSession(before, after);
+    expect(session.after).to.equal(after);
+    expect(session.afterTokens).to.eql(htmlToTokens(after));
+    expect(session.html).to.equal(diff(before, after));
+  });
+
+  it('should update the diff with the edits', function(){
+    var session = createDiffSession(before, before);
+    expect(session.html).to.equal(before);
+    var start = before.indexOf('lazy');
+    var after = edit(before, start, start + 4, 'sleepy');
+    expect(session.edit({start: start, end: start + 4, text: 'sleepy'})).to.equal(session);
+    expect(session.after).to.equal(after);
+    expect(session.html).to.equal(diff(before, after));
+    expect(session.html).to.contain('<del data-operation-index="1">lazy</del><ins data-operation-index="1">sleepy</ins>');
+  });
+
+  it('should apply a list of edits in order', function(){
+    var session = createDiffSession(before, before);
+    session.edit([{start: 4, end: 9, text: 'Heading'}, {start: 4, end: 4, text: 'A '}]);
+    expect(session.after).to.equal(before.replace('Title', 'A Heading'));
+    expect(session.html).to.equal(diff(before, session.after));
+  });
+
+  it('should only compare the part of the document that changed', function(){
+    var session = createDiffSession(before, before);
+    var after = before.replace('brown', 'red').replace('dog', 'cat');
+    expect(session.update(after).html).to.equal(diff(before, after));
+    expect(session.update(before).html).to.equal(before);
+    expect(session.operations).to.eql([{action: 'equal', startInBefore: 0, endInBefore: 27, startInAfter: 0, endInAfter: 27}]);
+  });
+
+  it('should tokenize the edited blocks like the whole document', function(){
+    var options = {whitespace: 'ignore'};
+    var session = createDiffSession(before, before, options);
+    var after = before;
+    [
+      [before.indexOf('a  b') + 1, 0, '<!--'],
+      [0, 0, '<p>x  y\n</p>'],
+      [before.indexOf('</p>') + 17, 0, '</pre><pre>'],
+      [before.indexOf('Jumps') + 13, 3, 'z'],
+      [4, 4, '']
+    ].forEach(function(change){
+      after = edit(after, change[0], change[0] + change[1], change[2]);
+      session.edit({start: change[0], end: change[0] + change[1], text: change[2]});
+      expect(session.after).to.equal(after);
+      expect(session.afterTokens).to.eql(htmlToTokens(after, options));
+    });
+  });
+
+  it('should use the options', function(){
+    var options = {className: 'diff', granularity: 'sentence'};
+    var session = createDiffSession(before, before, options);
+    var after = before.replace('over', 'under');
+    expect(session.update(after).html).to.equal(diff(before, after, options));
+    expect(session.html).to.contain('<del data-operation-index="1" class="diff">Jumps over the lazy dog.</del>');
+  });
+
+  it('should throw when an edit is out of the document', function(){
+    var session = createDiffSession(before, before);
+    expect(function(){ session.edit({start: 5, end: 4, text: ''}); }).to.throw(
+      'Edit range 5-4 is out of the document');
+    expect(function(){ session.edit({start: 0, end: before.length + 1, text: ''}); }).to.throw(
+      'Edit range 0-' + (before.length + 1) + ' is out of the document');
+  });
+});
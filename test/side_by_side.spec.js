@@ -0,0 +1,61 @@
+import {calculateOperations, diffSideBySide, htmlToTokens, renderSideBySide} from "../dist/htmldiff.js";
+
+describe('Side by side rendering', function(){
+  var res;
+
+  describe('When words are replaced, inserted and deleted', function(){
+    beforeEach(function(){
+      res = diffSideBySide('<p>a word is here</p>', '<p>a nother word there</p>');
+    });
+
+    it('should mark the deletions in the before document', function(){
+      expect(res.before).to.equal('<p>a <span data-operation-index="1"></span>word ' +
+        '<del data-operation-index="3">is here</del></p>');
+    });
+
+    it('should mark the insertions in the after document', function(){
+      expect(res.after).to.equal('<p>a <ins data-operation-index="1">nother </ins>word ' +
+        '<ins data-operation-index="3">there</ins></p>');
+    });
+  });
+
+  it('should place a placeholder for deletions in the after document', function(){
+    res = diffSideBySide('a b c', 'a c');
+    expect(res.before).to.equal('a <del data-operation-index="1">b </del>c');
+    expect(res.after).to.equal('a <span data-operation-index="1"></span>c');
+  });
+
+  it('should balance the tags of the changed content', function(){
+    var before = htmlToTokens('<p>a</p>');
+    var after = htmlToTokens('<p>a</p><p>b</p>');
+    res = renderSideBySide(before, after, calculateOperations(before, after), {className: 'x'});
+    expect(res.before).to.equal('<p>a</p><span data-operation-index="1"></span>');
+    expect(res.after).to.equal('<p>a</p><p data-diff-node="ins" data-operation-index="1">' +
+      '<ins data-operation-index="1" class="x">b</ins></p>');
+  });
+
+  it('should render the tags of attribute changes on both sides', function(){
+    res = diffSideBySide('<p class="a">x</p>', '<p class="b">x</p>', {
+      detectAttributeChanges: true,
+      oldAttributesAttribute: '',
+      modifiedClassName: 'changed'
+    });
+    expect(res.before).to.equal('<p class="a changed" data-operation-index="0">x</p>');
+    expect(res.after).to.equal('<p class="b changed" data-operation-index="0">x</p>');
+  });
+
+  it('should keep the whitespace only changes when the whitespace is significant', function(){
+    res = diffSideBySide('<p>a b<b>c</b></p>', '<p>a  b <b>c</b></p>', {whitespace: 'significant'});
+    expect(res.before).to.equal('<p>a<del data-operation-index="1"> </del>b' +
+      '<span data-operation-index="3"></span><b>c</b></p>');
+    expect(res.after).to.equal('<p>a<ins data-operation-index="1">  </ins>b' +
+      '<ins data-operation-index="3"> </ins><b>c</b></p>');
+    res = diffSideBySide('<p>ab</p>', '<p>a b</p>', {whitespace: 'significant'});
+    expect(res.after).to.equal('<p><ins data-operation-index="1">a b</ins></p>');
+  });
+
+  it('should not render placeholders without an operation index attribute', function(){
+    res = diffSideBySide('a b c', 'a c', {operationIndexAttribute: ''});
+    expect(res.after).to.equal('a c');
+  });
+});
@@ -0,0 +1,178 @@
+import diff, {calculateOperations, diffSideBySide, diffStructured, htmlToTokens} from "../dist/htmldiff.js";
+
+function table(rows){
+  return '<table>' + rows.map(function(row){
+    return '<tr>' + row.map(function(cell){
+      return '<td>' + cell + '</td>';
+    }).join('') + '</tr>';
+  }).join('') + '</table>';
+}
+
+describe('Tables', function(){
+  var before = table([['a', 'b'], ['c', 'd']]);
+  var options = {tableDiff: true};
+
+  describe('Rows', function(){
+    it('should mark an inserted row on its tr tag', function(){
+      expect(diff(before, table([['a', 'b'], ['e', 'f'], ['c', 'd']]), options)).to.equal(
+        '<table><tr><td>a</td><td>b</td></tr>' +
+        '<tr class="diff-inserted-row" data-diff-node="ins" data-operation-index="1">' +
+        '<td data-diff-node="ins" data-operation-index="1"><ins data-operation-index="1">e</ins></td>' +
+        '<td data-diff-node="ins" data-operation-index="1"><ins data-operation-index="1">f</ins></td></tr>' +
+        '<tr><td>c</td><td>d</td></tr></table>');
+    });
+
+    it('should mark a deleted row on its tr tag', function(){
+      expect(diff(before, table([['c', 'd']]), options)).to.equal(
+        '<table><tr class="diff-deleted-row" data-diff-node="del" data-operation-index="1">' +
+        '<td data-diff-node="del" data-operation-index="1"><del data-operation-index="1">a</del></td>' +
+        '<td data-diff-node="del" data-operation-index="1"><del data-operation-index="1">b</del></td></tr>' +
+        '<tr><td>c</td><td>d</td></tr></table>');
+    });
+
+    it('should compare the cells of changed rows word by word', function(){
+      expect(diff(before, table([['a', 'b2'], ['c', 'd']]), options)).to.equal(
+        '<table><tr><td>a</td><td><del data-operation-index="1">b</del><ins data-operation-index="1">b2</ins>' +
+        '</td></tr><tr><td>c</td><td>d</td></tr></table>');
+    });
+
+    it('should keep the formatting of the table', function(){
+      var formatted = '<table>\n  <tbody>\n    <tr><td>a</td></tr>\n    <tr><td>b</td><td>x</td></tr>\n  </tbody>\n</table>';
+      expect(diff(formatted, formatted.replace('<td>b</td>', '<td>c</td>'), options)).to.equal(
+        '<table>\n  <tbody>\n    <tr><td>a</td></tr>\n    ' +
+        '<tr><td><del data-operation-index="1">b</del><ins data-operation-index="1">c</ins></td><td>x</td></tr>\n  ' +
+        '</tbody>\n</table>');
+    });
+  });
+
+  describe('Columns', function(){
+    it('should mark the cells of an inserted column in every row', function(){
+      expect(diff(table([['Name', 'Age'], ['Ann', '30'], ['Bob', '40']]),
+                  table([['Name', 'City', 'Age'], ['Ann', 'Paris', '31'], ['Bob', 'Rome', '40']]), options)).to.equal(
+        '<table><tr><td>Name</td>' +
+        '<td class="diff-inserted-column" data-diff-node="ins" data-operation-index="1">' +
+        '<ins data-operation-index="1">City</ins></td><td>Age</td></tr>' +
+        '<tr><td>Ann</td>' +
+        '<td class="diff-inserted-column" data-diff-node="ins" data-operation-index="3">' +
+        '<ins data-operation-index="3">Paris</ins></td>' +
+        '<td><del data-operation-index="5">30</del><ins data-operation-index="5">31</ins></td></tr>' +
+        '<tr><td>Bob</td>' +
+        '<td class="diff-inserted-column" data-diff-node="ins" data-operation-index="7">' +
+        '<ins data-operation-index="7">Rome</ins></td><td>40</td></tr></table>');
+    });
+
+    it('should mark the cells of a deleted column in every row', function(){
+      expect(diff(table([['a', 'b', 'c'], ['1', '2', '3']]), table([['a', 'c'], ['1', '3']]), options)).to.equal(
+        '<table><tr><td>a</td>' +
+        '<td class="diff-deleted-column" data-diff-node="del" data-operation-index="1">' +
+        '<del data-operation-index="1">b</del></td><td>c</td></tr>' +
+        '<tr><td>1</td>' +
+        '<td class="diff-deleted-column" data-diff-node="del" data-operation-index="3">' +
+        '<del data-operation-index="3">2</del></td><td>3</td></tr></table>');
+    });
+
+    it('should not pair header cells with data cells', function(){
+      expect(diff('<table><tr><td>a</td><td>b</td></tr></table>', '<table><tr><th>a</th><td>b</td></tr></table>', options))
+        .to.equal('<table><tr>' +
+          '<td class="diff-deleted-column" data-diff-node="del" data-operation-index="1">' +
+          '<del data-operation-index="1">a</del></td>' +
+          '<th class="diff-inserted-column" data-diff-node="ins" data-operation-index="2">' +
+          '<ins data-operation-index="2">a</ins></th><td>b</td></tr></table>');
+    });
+  });
+
+  describe('Structure', function(){
+    it('should read rows and cells whose end tags are omitted', function(){
+      expect(diff('<table><tr><td>a<td>b<tr><td>c<td>d</table>', '<table><tr><td>a<td>b<tr><td>c<td>e</table>', options))
+        .to.equal('<table><tr><td>a<td>b<tr><td>c<td>' +
+          '<del data-operation-index="1">d</del><ins data-operation-index="1">e</ins></table>');
+    });
+
+    it('should compare nested tables row by row', function(){
+      expect(diff('<table><tr><td><table><tr><td>x</td></tr></table></td><td>y</td></tr></table>',
+                  '<table><tr><td><table><tr><td>x</td></tr><tr><td>z</td></tr></table></td><td>y</td></tr></table>', options))
+        .to.equal('<table><tr><td><table><tr><td>x</td></tr>' +
+          '<tr class="diff-inserted-row" data-diff-node="ins" data-operation-index="1">' +
+          '<td data-diff-node="ins" data-operation-index="1"><ins data-operation-index="1">z</ins></td></tr>' +
+          '</table></td><td>y</td></tr></table>');
+    });
+
+    it('should compare the content around the tables', function(){
+      expect(diff('<p>intro</p>' + table([['one']]) + '<p>end</p>',
+                  '<p>intro changed</p>' + table([['one'], ['two']]) + '<p>end</p>', options)).to.equal(
+        '<p>intro<ins data-operation-index="1"> changed</ins></p><table><tr><td>one</td></tr>' +
+        '<tr class="diff-inserted-row" data-diff-node="ins" data-operation-index="3">' +
+        '<td data-diff-node="ins" data-operation-index="3"><ins data-operation-index="3">two</ins></td></tr>' +
+        '</table><p>end</p>');
+    });
+
+    it('should return operations covering both documents', function(){
+      var beforeTokens = htmlToTokens('<p>x</p>' + table([['a', 'b'], ['c', 'd'], ['e', 'f']]));
+      var afterTokens = htmlToTokens('<p>y</p>' + table([['a', 'x', 'b'], ['e', 'y', 'f g']]));
+      var positionInBefore = 0;
+      var positionInAfter = 0;
+      calculateOperations(beforeTokens, afterTokens, options).forEach(function(op){
+        expect(op.startInBefore).to.equal(positionInBefore);
+        expect(op.startInAfter).to.equal(positionInAfter);
+        if (op.endInBefore !== undefined){
+          positionInBefore = op.endInBefore + 1;
+        }
+        if (op.endInAfter !== undefined){
+          positionInAfter = op.endInAfter + 1;
+        }
+      });
+      expect(positionInBefore).to.equal(beforeTokens.length);
+      expect(positionInAfter).to.equal(afterTokens.length);
+    });
+  });
+
+  describe('Options', function(){
+    it('should use the configured class names', function(){
+      expect(diff(before, table([['a', 'b'], ['c', 'd'], ['e', 'f']]),
+                  {tableDiff: true, insertedRowClassName: 'added', deletedRowClassName: ''})).to.contain('<tr class="added"');
+      expect(diff(before, table([['c', 'd']]), {tableDiff: true, deletedRowClassName: ''})).to.contain(
+        '<tr data-diff-node="del" data-operation-index="1">');
+    });
+
+    it('should compare tables as any other content without tableDiff', function(){
+      expect(diff(table([['a']]), table([['a'], ['b']]))).to.equal(
+        '<table><tr><td>a</td></tr><tr data-diff-node="ins" data-operation-index="1">' +
+        '<td data-diff-node="ins" data-operation-index="1"><ins data-operation-index="1">b</ins></td></tr></table>');
+    });
+
+    it('should replace rows that have too few words in common', function(){
+      var ops = calculateOperations(htmlToTokens(table([['same words here'], ['one two three four']])),
+                                    htmlToTokens(table([['same words here'], ['one five six seven']])),
+                                    {tableDiff: true, structureThreshold: 0.5});
+      expect(ops.map(op => op.action)).to.eql(['equal', 'delete', 'insert', 'equal']);
+      expect(ops[1].part).to.equal('row');
+    });
+
+    it('should accept the deprecated names of the options and operation keys', function(){
+      var ops = calculateOperations(htmlToTokens(table([['same words here'], ['one two three four']])),
+                                    htmlToTokens(table([['same words here'], ['one five six seven']])),
+                                    {tableDiff: true, tableThreshold: 0.5});
+      expect(ops.map(op => op.tablePart)).to.eql([undefined, 'row', 'row', undefined]);
+    });
+  });
+
+  describe('Rendering', function(){
+    it('should render inserted rows in the after pane side by side', function(){
+      expect(diffSideBySide(before, table([['a', 'b'], ['c', 'd'], ['e', 'f']]), options)).to.eql({
+        before: '<table><tr><td>a</td><td>b</td></tr><tr><td>c</td><td>d</td></tr>' +
+          '<span data-operation-index="1"></span></table>',
+        after: '<table><tr><td>a</td><td>b</td></tr><tr><td>c</td><td>d</td></tr>' +
+          '<tr class="diff-inserted-row" data-diff-node="ins" data-operation-index="1">' +
+          '<td data-diff-node="ins" data-operation-index="1"><ins data-operation-index="1">e</ins></td>' +
+          '<td data-diff-node="ins" data-operation-index="1"><ins data-operation-index="1">f</ins></td></tr></table>'
+      });
+    });
+
+    it('should report the table part of the changes', function(){
+      var result = diffStructured(before, table([['c', 'd']]), options);
+      expect(result.changes.length).to.equal(1);
+      expect(result.changes[0].part).to.equal('row');
+      expect(result.stats.deletedWords).to.equal(2);
+    });
+  });
+});
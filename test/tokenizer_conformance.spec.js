@@ -0,0 +1,121 @@
+import diff, {createToken, htmlToTokens} from "../dist/htmldiff.js";
+
+// Cases following the tokenization rules of the HTML standard, as [description, input, tokens].
+var cases = [
+  ['a quoted attribute value containing ">"', '<p title="a > b">x</p>',
+    ['<p title="a > b">', 'x', '</p>']],
+  ['a single quoted attribute value containing ">"', "<p title='a > b'>x</p>",
+    ["<p title='a > b'>", 'x', '</p>']],
+  ['an unquoted attribute value', '<p class=a>x</p>',
+    ['<p class=a>', 'x', '</p>']],
+  ['a quote inside an attribute name', '<p a"b>x</p>',
+    ['<p a"b>', 'x', '</p>']],
+  ['an unclosed tag at the end', 'x <p class="a',
+    ['x', ' ', '<p class="a']],
+  ['an atomic tag with an attribute value containing ">"', '<a title="a > b" href="1">x</a> y',
+    ['<a title="a > b" href="1">x</a>', ' ', 'y']],
+  ['a textarea with markup inside', '<textarea><p>hi</p></textarea>x',
+    ['<textarea><p>hi</p></textarea>', 'x']],
+  ['a title with a "<" inside', '<title>a < b</title>',
+    ['<title>a < b</title>']],
+  ['a raw text element with an end tag in another case', '<TEXTAREA>x</TextArea >y',
+    ['<TEXTAREA>x</TextArea >', 'y']],
+  ['a script containing an end tag of another element', '<script>a = "</p>";</script>x',
+    ['<script>a = "</p>";</script>', 'x']],
+  ['a script that is not atomic', '<script>a < b</script>',
+    ['<script>a < b</script>']],
+  ['an unclosed raw text element', '<textarea>a b',
+    ['<textarea>a b']],
+  ['a doctype', '<!DOCTYPE html>\n<p>x</p>',
+    ['<!DOCTYPE html>', '\n', '<p>', 'x', '</p>']],
+  ['a CDATA section', 'a<![CDATA[x > y]]>b',
+    ['a', '<![CDATA[x > y]]>', 'b']],
+  ['a comment', 'a<!-- x > y -->b',
+    ['a', 'b']],
+  ['an abruptly closed comment', 'a<!-->b<!--->c',
+    ['a', 'b', 'c']],
+  ['a comment closed with "--!>"', 'a<!-- x --!>b',
+    ['a', 'b']],
+  ['a comment containing "--"', 'a<!-- x -- y -->b',
+    ['a', 'b']],
+  ['a processing instruction', '<?xml version="1.0"?>x',
+    ['x']],
+  ['a bogus comment', '<! x>a</ 3>b',
+    ['a', 'b']],
+  ['an empty end tag', 'a</>b',
+    ['a', 'b']],
+  ['a "<" that does not start a tag', 'a < b',
+    ['a', ' ', '<', ' ', 'b']],
+  ['a "<" followed by a digit', 'a <3',
+    ['a', ' ', '<', '3']],
+  ['a "<" at the end', 'a <',
+    ['a', ' ', '<']],
+  ['a named character reference', 'AT&amp;T',
+    ['AT', '&amp;', 'T']],
+  ['a named character reference inside a word', 'caf&eacute;s',
+    ['caf', '&eacute;', 's']],
+  ['a numeric character reference', '&#x03C0;r and &#960;',
+    ['&#x03C0;', 'r', ' ', 'and', ' ', '&#960;']],
+  ['an ampersand that is not a character reference', 'a & b&c',
+    ['a', ' ', '&', ' ', 'b&', 'c']],
+  ['nested atomic tags', '<svg><svg></svg></svg>x',
+    ['<svg><svg></svg></svg>', 'x']],
+  ['a self-closing atomic tag', '<svg/>x',
+    ['<svg/>', 'x']],
+  ['an atomic tag with a comment containing its end tag', '<svg><!-- </svg> --></svg>x',
+    ['<svg><!-- </svg> --></svg>', 'x']],
+  ['an atomic tag in upper case', '<IFRAME src="a"></IFRAME>x',
+    ['<IFRAME src="a"></IFRAME>', 'x']],
+  ['a tag name starting like an atomic tag', '<abbr>x</abbr>',
+    ['<abbr>', 'x', '</abbr>']],
+  ['a surrogate pair', '😀',
+    ['😀']]
+];
+
+describe('Tokenizer conformance', function(){
+  cases.forEach(function(testCase){
+    it('should tokenize ' + testCase[0], function(){
+      expect(htmlToTokens(testCase[1]).map(function(token){
+        return token.str;
+      })).to.eql(testCase[2]);
+    });
+  });
+
+  describe('Keys', function(){
+    it('should decode character references', function(){
+      expect(createToken('&amp;').key).to.equal('&');
+      expect(createToken('&#38;').key).to.equal('&');
+      expect(createToken('&#x26;').key).to.equal('&');
+      expect(createToken('&eacute;').key).to.equal('&eacute;');
+    });
+
+    it('should compare doctypes regardless of case', function(){
+      expect(createToken('<!DOCTYPE  html>').key).to.equal(createToken('<!doctype html>').key);
+    });
+
+    it('should compare raw text elements as a whole', function(){
+      expect(createToken('<textarea>a</textarea>').key).to.not.equal(
+        createToken('<textarea>b</textarea>').key);
+    });
+  });
+
+  describe('Diff', function(){
+    it('should not wrap tags with attribute values containing ">"', function(){
+      expect(diff('<p>x</p>', '<p>x</p><p title="a > b">y</p>')).to.equal(
+        '<p>x</p><p title="a > b" data-diff-node="ins" data-operation-index="1">' +
+        '<ins data-operation-index="1">y</ins></p>');
+    });
+
+    it('should not wrap a doctype', function(){
+      expect(diff('a', '<!DOCTYPE html>a')).to.equal('<!DOCTYPE html>a');
+    });
+
+    it('should consider equivalent character references as equal', function(){
+      expect(diff('Tom &amp; Jerry', 'Tom &#38; Jerry')).to.equal('Tom &#38; Jerry');
+    });
+
+    it('should wrap void elements', function(){
+      expect(diff('a', 'a<br>b')).to.equal('a<ins data-operation-index="1"><br>b</ins>');
+    });
+  });
+});
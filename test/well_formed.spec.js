@@ -0,0 +1,118 @@
+import diff, {diffSideBySide, validate} from "../dist/htmldiff.js";
+
+var corpus = [
+  ['merged paragraphs', '<p>one two</p><p>three four</p>', '<p>one two three four</p>'],
+  ['split paragraph', '<p>one two three four</p>', '<p>one two</p><p>three four</p>'],
+  ['merged paragraphs with deleted words', '<p>a x</p><p>y b</p>', '<p>a b</p>'],
+  ['paragraph turned into a heading', '<p>Title text</p><p>body</p>', '<h1>Title text</h1><p>body</p>'],
+  ['paragraphs turned into a list', '<p>first</p><p>second</p>', '<ul><li>first</li><li>second</li></ul>'],
+  ['list turned into paragraphs', '<ul><li>first</li><li>second</li></ul>', '<p>first</p><p>second</p>'],
+  ['unwrapped division', '<div><p>a b</p></div><p>c</p>', '<p>a b</p><p>c</p>'],
+  ['moved end tag', '<div><p>a</p> b</div>', '<div><p>a b</p></div>'],
+  ['cell split into rows', '<table><tr><td>a x</td></tr></table>',
+   '<table><tr><td>a</td></tr><tr><td>x y</td></tr></table>'],
+  ['table turned into paragraphs', '<table><tr><td>a</td><td>b</td></tr></table>', '<p>a</p><p>b</p>'],
+  ['paragraphs turned into a table', '<p>a</p><p>b</p>', '<table><tr><td>a</td><td>b</td></tr></table>'],
+  ['merged rows', '<table><tr><td>a</td></tr><tr><td>b</td></tr></table>',
+   '<table><tr><td>a</td><td>b</td></tr></table>'],
+  ['nested list item', '<ul><li>a</li><li>b</li></ul>', '<ul><li>a<ul><li>b</li></ul></li></ul>'],
+  ['unnested list item', '<ul><li>a<ul><li>b</li></ul></li></ul>', '<ul><li>a</li><li>b</li></ul>'],
+  ['merged lists', '<ul><li>a</li></ul>x y z<ul><li>b</li></ul>', '<ul><li>a</li><li>b</li></ul>'],
+  ['text deleted between cells', '<table><tr><td>a</td> x <td>b</td></tr></table>',
+   '<table><tr><td>a</td><td>b</td></tr></table>'],
+  ['text inserted after items', '<ul><li>a</li></ul>', '<ul><li>a</li> x </ul>'],
+  ['definition list', '<dl><dt>a</dt><dd>b</dd></dl>', '<dl><dt>a</dt><dd>c</dd><dt>d</dt><dd>e</dd></dl>'],
+  ['select options', '<select><option>a</option><option>b</option></select>',
+   '<select><option>a</option></select>'],
+  ['omitted end tags', '<ul><li>a<li>b</ul><p>x', '<ul><li>a<li>c</ul><p>y'],
+  ['list shortened before a paragraph', '<ul><li>one</li><li>two</li><li>three</li></ul>',
+   '<ul><li>four</li></ul><p>five</p>'],
+  ['rows deleted from a table turned into a paragraph',
+   '<table><tr><td>three</td></tr><tr><td>five</td></tr></table>', '<p>three</p>']
+];
+
+describe('Well-formed output', function(){
+  describe('validate', function(){
+    it('should accept well-formed HTML', function(){
+      expect(validate('<p>a <b>b</b></p><img src="a.png"><br/>')).to.eql([]);
+    });
+
+    it('should accept omitted end tags', function(){
+      expect(validate('<ul><li>a<li>b</ul><p>c<p>d<table><tr><td>e<td>f</table>')).to.eql([]);
+    });
+
+    it('should report end tags that close no open element', function(){
+      expect(validate('<p>a</b></p>')).to.eql([{type: 'unexpected-end-tag', tagName: 'b', index: 4}]);
+    });
+
+    it('should report elements that are not closed', function(){
+      expect(validate('<div><p>a')).to.eql([{type: 'unclosed-element', tagName: 'div', index: 0}]);
+    });
+
+    it('should report insert and delete tags where text is not allowed', function(){
+      expect(validate('<ul><ins>a</ins><li>b</li></ul>')).to.eql(
+        [{type: 'misplaced-wrapper', tagName: 'ins', index: 4}]);
+      expect(validate('<tr><span>a</span></tr>', {insertTag: 'span'})).to.eql(
+        [{type: 'misplaced-wrapper', tagName: 'span', index: 4}]);
+    });
+
+    it('should check the content of atomic elements', function(){
+      expect(validate('<pre>a</b></pre>')).to.eql([{type: 'unexpected-end-tag', tagName: 'b', index: 6}]);
+    });
+  });
+
+  describe('Rendering', function(){
+    it('should split a deletion at the block boundaries it crosses', function(){
+      expect(diff('<p>a x</p><p>y b</p>', '<p>a b</p>')).to.equal(
+        '<p>a <del data-operation-index="1">x</del><del data-operation-index="1">y </del>b</p>');
+    });
+
+    it('should keep the text only of the deleted elements between the block boundaries', function(){
+      expect(diff('<ul><li>one</li><li>two</li><li>three</li></ul>', '<ul><li>four</li></ul><p>five</p>')).to.equal(
+        '<ul><li><del data-operation-index="1">one</del><del data-operation-index="1">two</del>' +
+        '<del data-operation-index="1">three</del><ins data-operation-index="1">four</ins></li></ul>' +
+        '<p data-diff-node="ins" data-operation-index="3"><ins data-operation-index="3">five</ins></p>');
+    });
+
+    it('should move deleted text out of a table row into the next cell', function(){
+      expect(diff('<table><tr><td>a</td> x <td>b</td></tr></table>',
+                  '<table><tr><td>a</td><td>b</td></tr></table>', {tableDiff: false})).to.equal(
+        '<table><tr><td>a</td><td><del data-operation-index="1"> x </del>b</td></tr></table>');
+    });
+
+    it('should move inserted text out of a list after it', function(){
+      expect(diff('<ul><li>a</li></ul>', '<ul><li>a</li> x </ul>', {listDiff: false})).to.equal(
+        '<ul><li>a</li></ul><ins data-operation-index="1"> x </ins>');
+    });
+  });
+
+  describe('Corpus', function(){
+    var variants = [
+      {},
+      {tableDiff: false, listDiff: false},
+      {detectMoves: true},
+      {algorithm: 'myers'},
+      {algorithm: 'patience'},
+      {maxWork: 0},
+      {whitespace: 'significant'},
+      {whitespace: 'ignore', ignoreCase: true, ignorePunctuation: true},
+      {semanticCleanup: true},
+      {granularity: 'sentence'},
+      {granularity: 'block', refineChangedUnits: true}
+    ];
+
+    corpus.forEach(function(edit){
+      var name = edit[0];
+      var before = edit[1];
+      var after = edit[2];
+      it('should render well-formed HTML for the ' + name, function(){
+        variants.forEach(function(options){
+          expect(validate(diff(before, after, options)), JSON.stringify(options)).to.eql([]);
+          var panes = diffSideBySide(before, after, options);
+          expect(validate(panes.before), JSON.stringify(options)).to.eql([]);
+          expect(validate(panes.after), JSON.stringify(options)).to.eql([]);
+        });
+      });
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import diff, {htmlToTokens} from "../dist/htmldiff.js";
+
+describe('Word segmentation', function(){
+  var words = function(html, options){
+    return htmlToTokens(html, options).map(function(token){
+      return token.str;
+    });
+  };
+
+  describe('With the default word segmenter', function(){
+    it('should keep accented, Cyrillic and Greek letters in words', function(){
+      expect(words('Größe naïve Привет λόγος')).to.eql(
+        ['Größe', ' ', 'naïve', ' ', 'Привет', ' ', 'λόγος']);
+    });
+
+    it('should keep combining marks with their letter', function(){
+      expect(words('café ok')).to.eql(['café', ' ', 'ok']);
+    });
+
+    it('should treat every Chinese and Japanese character as a word', function(){
+      expect(words('我喜欢。です')).to.eql(['我', '喜', '欢。', 'で', 'す']);
+    });
+
+    it('should keep emoji sequences and flags together', function(){
+      expect(words('👍🏽 👨‍👩‍👧 🇩🇪')).to.eql(['👍🏽', ' ', '👨‍👩‍👧', ' ', '🇩🇪']);
+    });
+
+    it('should diff words with accented letters as a whole', function(){
+      expect(diff('le café noir', 'le café crème')).to.equal(
+        'le café <del data-operation-index="1">noir</del><ins data-operation-index="1">crème</ins>');
+    });
+  });
+
+  describe('With the intl word segmenter', function(){
+    beforeEach(function(){
+      if (typeof Intl.Segmenter === 'undefined'){
+        this.skip();
+      }
+    });
+
+    it('should find Chinese words', function(){
+      expect(words('我喜欢吃苹果。', {wordSegmenter: 'intl', locale: 'zh'})).to.eql(
+        ['我', '喜欢', '吃', '苹果。']);
+    });
+
+    it('should find Thai words', function(){
+      expect(words('ภาษาไทยง่าย', {wordSegmenter: 'intl', locale: 'th'})).to.eql(
+        ['ภาษา', 'ไทย', 'ง่าย']);
+    });
+
+    it('should keep punctuation with the word it follows', function(){
+      expect(words('Hello, world!', {wordSegmenter: 'intl'})).to.eql(
+        ['Hello,', ' ', 'world!']);
+    });
+
+    it('should diff Chinese words', function(){
+      expect(diff('我喜欢吃苹果', '我喜欢吃香蕉', {wordSegmenter: 'intl', locale: 'zh'})).to.equal(
+        '我喜欢吃<del data-operation-index="1">苹果</del><ins data-operation-index="1">香蕉</ins>');
+    });
+  });
+
+  it('should throw on an unknown word segmenter', function(){
+    expect(function(){ diff('a', 'b', {wordSegmenter: 'icu'}); }).to.throw('Unknown word segmenter icu');
+  });
+});